@@ -0,0 +1,110 @@
+/**
+ * Background side of PERFORM_ACTION
+ *
+ * Every action request reaches the background first. The router checks that
+ * the action exists and that the user is entitled to its feature, then runs
+ * background actions locally and forwards content actions to a tab.
+ */
+
+import { Entitlements, MessagePayload, MessageResponse } from '../shared/types';
+import { ActionRegistry, createActionRegistry, getActionDefinition } from '../shared/actions';
+import { featureDeniedResponse } from '../shared/errors';
+import { getSenderContext } from '../shared/authorization';
+import { sendMessageToTab } from '../shared/messaging';
+import { getEntitlements, hasEntitlement } from '../shared/entitlements';
+import { runMetered } from '../shared/usage';
+
+// ============================================================================
+// Background Actions
+// ============================================================================
+
+/**
+ * Actions that run in the service worker
+ */
+export const backgroundActions = createActionRegistry('background');
+
+backgroundActions.register('extensionTrigger', () => {
+  // Placeholder for the keyboard shortcut in the content script.
+  // Extend this handler based on your extension's needs.
+});
+
+// ============================================================================
+// Routing
+// ============================================================================
+
+/**
+ * Pick the tab a content action runs in.
+ * Content scripts may only target their own tab.
+ */
+const resolveTargetTab = async (
+  tabId: number | undefined,
+  sender: chrome.runtime.MessageSender
+): Promise<{ tabId: number } | { error: MessageResponse<never> }> => {
+  if (getSenderContext(sender) === 'content_script') {
+    const ownTab = sender.tab?.id;
+    if (ownTab === undefined || (tabId !== undefined && tabId !== ownTab)) {
+      return {
+        error: {
+          success: false,
+          error: 'Content scripts may only run actions in their own tab',
+          code: 'UNAUTHORIZED',
+        },
+      };
+    }
+    return { tabId: ownTab };
+  }
+
+  if (tabId !== undefined) return { tabId };
+  const [activeTab] = await chrome.tabs.query({ active: true, currentWindow: true });
+  if (activeTab?.id === undefined) {
+    return { error: { success: false, error: 'No active tab found' } };
+  }
+  return { tabId: activeTab.id };
+};
+
+/**
+ * Create the PERFORM_ACTION router
+ */
+export const createActionRouter = (
+  options: {
+    registry?: ActionRegistry;
+    getEntitlements?: () => Promise<Entitlements>;
+  } = {}
+): ((
+  payload: MessagePayload<'PERFORM_ACTION'>,
+  sender: chrome.runtime.MessageSender
+) => Promise<MessageResponse>) => {
+  const {
+    registry = backgroundActions,
+    getEntitlements: getUserEntitlements = () => getEntitlements(),
+  } = options;
+
+  return async ({ action, data, tabId }, sender) => {
+    const definition = getActionDefinition(action);
+    if (!definition) {
+      return { success: false, error: `Unknown action: ${action}`, code: 'UNKNOWN_ACTION' };
+    }
+
+    const run = async (): Promise<MessageResponse> => {
+      if (definition.context === 'background') {
+        return registry.run(action, data, sender);
+      }
+
+      const target = await resolveTargetTab(tabId, sender);
+      if ('error' in target) return target.error;
+      return sendMessageToTab(
+        target.tabId,
+        { type: 'PERFORM_ACTION', payload: { action, data } },
+        definition.timeoutMs === undefined ? undefined : { timeoutMs: definition.timeoutMs }
+      );
+    };
+
+    if (!definition.feature) return run();
+    const entitlements = await getUserEntitlements();
+    if (!hasEntitlement(entitlements, definition.feature)) {
+      return featureDeniedResponse(entitlements, definition.feature);
+    }
+    // Actions of metered features count against the quota unless they fail
+    return runMetered(entitlements.features[definition.feature], run);
+  };
+};
@@ -0,0 +1,89 @@
+/**
+ * Trials and entitlement expiry
+ *
+ * Starts trials and keeps an alarm scheduled for the next time a trial,
+ * license or grace period ends. Feature checks resolve entitlements against
+ * the current time anyway; the alarm makes sure open pages and the rest of
+ * the extension hear about the change when it happens.
+ */
+
+import { Entitlements, STORAGE_KEYS, TrialRecords, TrialTarget } from '../shared/types';
+import {
+  createTrialRecord,
+  getEntitlements,
+  getNextEntitlementChange,
+  onEntitlementsChange,
+} from '../shared/entitlements';
+import { setStorageValue } from '../shared/storage';
+
+/**
+ * Name of the alarm that fires when entitlements expire
+ */
+export const ENTITLEMENT_ALARM = 'entitlement-expiry';
+
+// Trial starts are serialized so two trials started at once are both kept
+let queue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Record a trial starting now. Resolves to the updated trials, or null if
+ * they could not be read or saved.
+ */
+export const startTrial = (
+  target: TrialTarget,
+  now: number = Date.now()
+): Promise<TrialRecords | null> => {
+  const run = queue.then(async () => {
+    try {
+      // Read directly so that a failed read cannot wipe the record of used trials
+      const result = await chrome.storage.sync.get(STORAGE_KEYS.TRIALS);
+      const trials: TrialRecords = {
+        ...(result[STORAGE_KEYS.TRIALS] as TrialRecords | undefined),
+        [target]: createTrialRecord(target, now),
+      };
+      return (await setStorageValue(STORAGE_KEYS.TRIALS, trials)) ? trials : null;
+    } catch (error) {
+      console.error('Failed to start trial:', error);
+      return null;
+    }
+  });
+  queue = run.catch(() => undefined);
+  return run;
+};
+
+/**
+ * Schedule the expiry alarm for the next change, or clear it if nothing ends
+ */
+export const scheduleEntitlementExpiry = async (entitlements: Entitlements): Promise<void> => {
+  const next = getNextEntitlementChange(entitlements);
+  try {
+    if (next === null) {
+      await chrome.alarms.clear(ENTITLEMENT_ALARM);
+    } else {
+      await chrome.alarms.create(ENTITLEMENT_ALARM, { when: next });
+    }
+  } catch (error) {
+    console.error('Failed to schedule the entitlement expiry alarm:', error);
+  }
+};
+
+/**
+ * Call back with the entitlements whenever they change, whether through a
+ * new license key or trial or because something expired. Returns a function
+ * that re-checks them now, e.g. on startup, since alarms do not always
+ * survive a browser restart.
+ */
+export const watchEntitlements = (
+  callback: (entitlements: Entitlements) => void
+): (() => Promise<void>) => {
+  const update = async (entitlements: Entitlements) => {
+    await scheduleEntitlementExpiry(entitlements);
+    callback(entitlements);
+  };
+  const refresh = async () => update(await getEntitlements());
+
+  onEntitlementsChange(update);
+  chrome.alarms.onAlarm.addListener((alarm) => {
+    if (alarm.name === ENTITLEMENT_ALARM) refresh();
+  });
+  return refresh;
+};
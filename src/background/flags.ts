@@ -0,0 +1,84 @@
+/**
+ * Feature flag refresh
+ *
+ * Fetches the flag document on install, on startup and on an alarm. The ETag
+ * of the cached copy is sent along, so an unchanged document is not
+ * downloaded again. When the endpoint cannot be reached or serves a broken
+ * document, the last good copy stays in use.
+ */
+
+import { FEATURE_FLAG_CONFIG, FeatureFlagCache, STORAGE_KEYS } from '../shared/types';
+import { getFeatureFlags, parseFlagDocument } from '../shared/flags';
+import { setLocalStorageValue } from '../shared/storage';
+
+/**
+ * Name of the alarm that refreshes the feature flags
+ */
+export const FLAG_ALARM = 'feature-flags-refresh';
+
+/**
+ * Resolve relative URLs against the extension, where the stand-in document is
+ */
+const resolveFlagUrl = (url: string): string =>
+  /^[a-z][a-z\d+.-]*:/i.test(url) ? url : chrome.runtime.getURL(url);
+
+/**
+ * Fetch the flag document and cache it. Resolves to whether the cache holds
+ * the current document.
+ */
+export const refreshFeatureFlags = async (
+  url: string = FEATURE_FLAG_CONFIG.url,
+  now: number = Date.now()
+): Promise<boolean> => {
+  const cached = await getFeatureFlags();
+  try {
+    const response = await fetch(resolveFlagUrl(url), {
+      cache: 'no-cache',
+      headers: cached?.etag ? { 'If-None-Match': cached.etag } : {},
+    });
+    if (response.status === 304 && cached) {
+      return setLocalStorageValue<FeatureFlagCache>(STORAGE_KEYS.CACHE, {
+        ...cached,
+        fetchedAt: now,
+      });
+    }
+    if (!response.ok) {
+      throw new Error(`Flag endpoint responded with ${response.status}`);
+    }
+    const document = parseFlagDocument(await response.json());
+    if (!document) {
+      throw new Error('Malformed feature flag document');
+    }
+    return setLocalStorageValue<FeatureFlagCache>(STORAGE_KEYS.CACHE, {
+      document,
+      etag: response.headers.get('ETag'),
+      fetchedAt: now,
+    });
+  } catch (error) {
+    console.error('Failed to refresh feature flags:', error);
+    return false;
+  }
+};
+
+/**
+ * Schedule the periodic refresh. Called on install and startup, since alarms
+ * do not always survive a browser restart.
+ */
+export const scheduleFeatureFlagRefresh = async (): Promise<void> => {
+  try {
+    await chrome.alarms.create(FLAG_ALARM, {
+      periodInMinutes: FEATURE_FLAG_CONFIG.refreshMinutes,
+    });
+  } catch (error) {
+    console.error('Failed to schedule the feature flag refresh:', error);
+  }
+};
+
+/**
+ * Refresh the feature flags whenever the refresh alarm fires
+ */
+export const watchFeatureFlagRefresh = (): void => {
+  chrome.alarms.onAlarm.addListener((alarm) => {
+    if (alarm.name === FLAG_ALARM) refreshFeatureFlags();
+  });
+};
@@ -0,0 +1,53 @@
+/**
+ * Extraction history
+ *
+ * Keeps the most recent page extractions in chrome.storage.local so they can
+ * be exported later. Newest entries come first; an extraction of a URL that
+ * is already in the history replaces the older entry.
+ */
+
+import { PageData, STORAGE_KEYS } from '../shared/types';
+import { getLocalStorageValue, setLocalStorageValue } from '../shared/storage';
+
+/**
+ * Maximum number of extractions kept
+ */
+export const MAX_HISTORY_ENTRIES = 20;
+
+// Writes are serialized so concurrent extractions cannot drop each other
+let queue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Get the stored extractions, newest first
+ */
+export const getExtractionHistory = async (): Promise<PageData[]> => {
+  await queue;
+  const history = await getLocalStorageValue<unknown>(STORAGE_KEYS.EXTRACTION_HISTORY, []);
+  return Array.isArray(history) ? (history as PageData[]) : [];
+};
+
+/**
+ * Add an extraction to the front of the history
+ */
+export const addToExtractionHistory = (page: PageData): Promise<boolean> => {
+  const run = queue.then(async () => {
+    const history = await getLocalStorageValue<unknown>(STORAGE_KEYS.EXTRACTION_HISTORY, []);
+    const entries = Array.isArray(history) ? (history as PageData[]) : [];
+    const updated = [page, ...entries.filter((entry) => entry.url !== page.url)];
+    return setLocalStorageValue(
+      STORAGE_KEYS.EXTRACTION_HISTORY,
+      updated.slice(0, MAX_HISTORY_ENTRIES)
+    );
+  });
+  queue = run.catch(() => undefined);
+  return run;
+};
+
+/**
+ * Remove every stored extraction
+ */
+export const clearExtractionHistory = (): Promise<boolean> => {
+  const run = queue.then(() => setLocalStorageValue(STORAGE_KEYS.EXTRACTION_HISTORY, []));
+  queue = run.catch(() => undefined);
+  return run;
+};
@@ -0,0 +1,156 @@
+/**
+ * Content-script registration
+ *
+ * The content script is not declared in the manifest. Instead it is
+ * registered at runtime with chrome.scripting, for the sites the user has
+ * granted host access to, and the registration is kept in sync with their
+ * settings and permissions. Tabs the user invokes the extension on get the
+ * script injected on demand through activeTab.
+ *
+ * Registration only decides where the script is loaded; the content script
+ * still resolves the site rules of its page and stays idle where disabled.
+ */
+
+import { UserSettings } from '../shared/types';
+import { getUserSettings } from '../shared/storage';
+import { isWebOrigin } from '../shared/permissions';
+
+/**
+ * Id of the registered content script
+ */
+export const CONTENT_SCRIPT_ID = 'content-script';
+
+/**
+ * Bundled content script, relative to the extension root
+ */
+export const CONTENT_SCRIPT_FILE = 'content-script.js';
+
+// ============================================================================
+// Match Patterns
+// ============================================================================
+
+/**
+ * Convert a site rule pattern (see SiteRule.pattern) into Chrome match
+ * patterns. Match patterns cannot express every glob, so the result may
+ * cover more pages than the rule, never fewer.
+ */
+export const toMatchPatterns = (pattern: string): string[] => {
+  const normalized = pattern.trim().toLowerCase();
+  if (!normalized) return [];
+
+  const schemeEnd = normalized.indexOf('://');
+  const scheme = schemeEnd === -1 ? '*' : normalized.slice(0, schemeEnd);
+  const rest = schemeEnd === -1 ? normalized : normalized.slice(schemeEnd + 3);
+  const pathStart = rest.indexOf('/');
+  // Match patterns without a port match every port
+  const host = (pathStart === -1 ? rest : rest.slice(0, pathStart)).replace(/:(\d+|\*)$/, '');
+  const path = pathStart === -1 ? '/*' : rest.slice(pathStart);
+  const matchScheme = scheme === 'http' || scheme === 'https' ? scheme : '*';
+
+  if (!host) return [];
+
+  // A bare domain covers its subdomains
+  if (schemeEnd === -1 && pathStart === -1 && !host.includes('*')) {
+    return [`*://${host}/*`, `*://*.${host}/*`];
+  }
+  // Match patterns only allow a wildcard as the whole host or its first label
+  const hostGlob = host.startsWith('*.') ? host.slice(2) : host;
+  const matchHost = hostGlob.includes('*') ? '*' : host;
+  return [`${matchScheme}://${matchHost}${path}`];
+};
+
+/**
+ * Match patterns to register the content script for. While the extension is
+ * enabled it runs wherever host access was granted; while disabled, only on
+ * sites the user enabled explicitly.
+ */
+export const getContentScriptMatches = (settings: UserSettings, origins: string[]): string[] => {
+  const matches = settings.enabled
+    ? origins.filter(isWebOrigin)
+    : settings.siteRules
+        .filter((rule) => rule.mode === 'enabled')
+        .flatMap((rule) => toMatchPatterns(rule.pattern));
+  return Array.from(new Set(matches));
+};
+
+// ============================================================================
+// Registration
+// ============================================================================
+
+// Syncs are serialized so overlapping events cannot register the script twice
+let queue: Promise<unknown> = Promise.resolve();
+
+const applyRegistration = async (settings?: UserSettings): Promise<boolean> => {
+  try {
+    const [current, permissions] = await Promise.all([
+      settings ?? getUserSettings(),
+      chrome.permissions.getAll(),
+    ]);
+    const matches = getContentScriptMatches(current, permissions.origins ?? []);
+    const registered = await chrome.scripting.getRegisteredContentScripts({
+      ids: [CONTENT_SCRIPT_ID],
+    });
+
+    if (matches.length === 0) {
+      if (registered.length > 0) {
+        await chrome.scripting.unregisterContentScripts({ ids: [CONTENT_SCRIPT_ID] });
+      }
+      return true;
+    }
+
+    const script: chrome.scripting.RegisteredContentScript = {
+      id: CONTENT_SCRIPT_ID,
+      js: [CONTENT_SCRIPT_FILE],
+      matches,
+      runAt: 'document_idle',
+      persistAcrossSessions: true,
+    };
+    if (registered.length > 0) {
+      await chrome.scripting.updateContentScripts([script]);
+    } else {
+      await chrome.scripting.registerContentScripts([script]);
+    }
+    return true;
+  } catch (error) {
+    console.error('Failed to register content script:', error);
+    return false;
+  }
+};
+
+/**
+ * Register, update or unregister the content script to match the current
+ * settings and host permissions. Pass settings that were just read to avoid
+ * reading them again.
+ */
+export const syncContentScripts = (settings?: UserSettings): Promise<boolean> => {
+  const run = queue.then(() => applyRegistration(settings));
+  queue = run.catch(() => undefined);
+  return run;
+};
+
+/**
+ * Whether a settings change affects where the content script is registered
+ */
+export const affectsRegistration = (
+  settings: UserSettings,
+  oldSettings: UserSettings | undefined
+): boolean => {
+  if (!oldSettings) return true;
+  return (
+    settings.enabled !== oldSettings.enabled ||
+    JSON.stringify(settings.siteRules) !== JSON.stringify(oldSettings.siteRules)
+  );
+};
+
+// ============================================================================
+// On-demand Injection
+// ============================================================================
+
+/**
+ * Inject the content script into a tab's top frame. Needs host access to the
+ * page, which activeTab grants for the active tab once the user invokes the
+ * extension (e.g. opens the popup). Throws when access is missing.
+ */
+export const injectContentScript = async (tabId: number): Promise<void> => {
+  await chrome.scripting.executeScript({ target: { tabId }, files: [CONTENT_SCRIPT_FILE] });
+};
@@ -0,0 +1,221 @@
+/**
+ * Storage schema migrations
+ *
+ * Upgrades data written by older versions of the extension to the current
+ * SETTINGS_SCHEMA_VERSION. Each storage area records its own version under
+ * STORAGE_KEYS.SCHEMA_VERSION, so sync data that was already migrated on
+ * another device is left alone while local data is still upgraded.
+ */
+
+import { SETTINGS_SCHEMA_VERSION, STORAGE_KEYS } from '../shared/types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Storage areas that can be migrated
+ */
+export type MigrationArea = 'sync' | 'local';
+
+/**
+ * Raw items of a storage area, keyed by storage key
+ */
+export type StorageItems = Record<string, unknown>;
+
+/**
+ * A single upgrade step
+ */
+export interface Migration {
+  /** Schema version the data is at after this migration */
+  version: number;
+  /** Storage area the migration operates on */
+  area: MigrationArea;
+  /** Short description, used for logging */
+  description: string;
+  /**
+   * Transform the area's items to the new version.
+   * Must be pure and idempotent: running it on already-migrated data is a no-op.
+   */
+  migrate: (items: StorageItems) => StorageItems;
+}
+
+/**
+ * Outcome of migrating one storage area
+ */
+export interface MigrationResult {
+  area: MigrationArea;
+  success: boolean;
+  fromVersion: number;
+  toVersion: number;
+  /** Versions of the migrations that were applied, in order */
+  applied: number[];
+  error?: string;
+}
+
+// ============================================================================
+// Migration Registry
+// ============================================================================
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * All known migrations. Keep ordered by version; each version may have at most
+ * one migration per area.
+ */
+/**
+ * User settings defaults as of schema version 1. Migrations must keep giving
+ * the same result, so they do not follow later changes to the defaults.
+ */
+const V1_DEFAULT_USER_SETTINGS = {
+  tier: 'free',
+  enabled: true,
+  theme: 'system',
+  notifications: {
+    enabled: true,
+    sound: false,
+  },
+  preferences: {},
+};
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    area: 'sync',
+    description: 'Fill in user settings fields missing from unversioned data',
+    migrate: (items) => {
+      const stored = items[STORAGE_KEYS.USER_SETTINGS];
+      if (stored === undefined) return items;
+      if (!isRecord(stored)) {
+        // Unusable payload; drop it so reads fall back to defaults
+        const { [STORAGE_KEYS.USER_SETTINGS]: _dropped, ...rest } = items;
+        return rest;
+      }
+
+      // Unversioned builds merged updates shallowly, so a partial
+      // `notifications` object could replace the whole nested object
+      const notifications = isRecord(stored.notifications) ? stored.notifications : {};
+      const preferences = isRecord(stored.preferences) ? stored.preferences : {};
+      const settings = {
+        ...V1_DEFAULT_USER_SETTINGS,
+        ...stored,
+        notifications: { ...V1_DEFAULT_USER_SETTINGS.notifications, ...notifications },
+        preferences,
+      };
+
+      return { ...items, [STORAGE_KEYS.USER_SETTINGS]: settings };
+    },
+  },
+  {
+    version: 2,
+    area: 'sync',
+    description: 'Add an empty list of per-site rules',
+    migrate: (items) => {
+      const stored = items[STORAGE_KEYS.USER_SETTINGS];
+      if (!isRecord(stored) || Array.isArray(stored.siteRules)) return items;
+      return { ...items, [STORAGE_KEYS.USER_SETTINGS]: { ...stored, siteRules: [] } };
+    },
+  },
+  {
+    version: 3,
+    area: 'sync',
+    description: 'Drop the tier setting; the tier now comes from the license key',
+    migrate: (items) => {
+      const stored = items[STORAGE_KEYS.USER_SETTINGS];
+      if (!isRecord(stored) || !('tier' in stored)) return items;
+      const { tier: _tier, ...settings } = stored;
+      return { ...items, [STORAGE_KEYS.USER_SETTINGS]: settings };
+    },
+  },
+];
+
+// ============================================================================
+// Runner
+// ============================================================================
+
+const getStoredVersion = (items: StorageItems): number => {
+  const version = items[STORAGE_KEYS.SCHEMA_VERSION];
+  return typeof version === 'number' && Number.isInteger(version) && version >= 0 ? version : 0;
+};
+
+/**
+ * Migrate a single storage area up to the target version
+ */
+export const migrateStorageArea = async (
+  area: MigrationArea,
+  migrations: Migration[] = MIGRATIONS,
+  targetVersion: number = SETTINGS_SCHEMA_VERSION
+): Promise<MigrationResult> => {
+  const storage = chrome.storage[area];
+  let fromVersion = 0;
+
+  try {
+    const items: StorageItems = await storage.get(null);
+    fromVersion = getStoredVersion(items);
+
+    if (fromVersion >= targetVersion) {
+      return { area, success: true, fromVersion, toVersion: fromVersion, applied: [] };
+    }
+
+    const pending = migrations
+      .filter((m) => m.area === area && m.version > fromVersion && m.version <= targetVersion)
+      .sort((a, b) => a.version - b.version);
+
+    const { [STORAGE_KEYS.SCHEMA_VERSION]: _version, ...original } = items;
+    let migrated: StorageItems = original;
+    for (const migration of pending) {
+      console.warn(`[Migrations] ${area} v${migration.version}: ${migration.description}`);
+      migrated = migration.migrate(migrated);
+    }
+
+    // Only write keys that actually changed to stay within sync write quotas
+    const removed = Object.keys(original).filter((key) => !(key in migrated));
+    const changed: StorageItems = {};
+    for (const [key, value] of Object.entries(migrated)) {
+      if (JSON.stringify(value) !== JSON.stringify(original[key])) {
+        changed[key] = value;
+      }
+    }
+
+    // The version is written last so that a failed write leaves the old
+    // version in place and the (idempotent) migrations are retried
+    if (Object.keys(changed).length > 0) {
+      await storage.set(changed);
+    }
+    if (removed.length > 0) {
+      await storage.remove(removed);
+    }
+    await storage.set({ [STORAGE_KEYS.SCHEMA_VERSION]: targetVersion });
+
+    return {
+      area,
+      success: true,
+      fromVersion,
+      toVersion: targetVersion,
+      applied: pending.map((m) => m.version),
+    };
+  } catch (error) {
+    console.error(`Failed to migrate ${area} storage:`, error);
+    return {
+      area,
+      success: false,
+      fromVersion,
+      toVersion: fromVersion,
+      applied: [],
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+};
+
+/**
+ * Migrate both sync and local storage to the current schema version
+ */
+export const runMigrations = async (
+  migrations: Migration[] = MIGRATIONS,
+  targetVersion: number = SETTINGS_SCHEMA_VERSION
+): Promise<MigrationResult[]> => {
+  const sync = await migrateStorageArea('sync', migrations, targetVersion);
+  const local = await migrateStorageArea('local', migrations, targetVersion);
+  return [sync, local];
+};
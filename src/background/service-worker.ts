@@ -13,123 +13,360 @@ import {
   MessageResponse,
   UserSettings,
   TabInfo,
-  hasFeatureAccess,
-  CheckFeatureAccessMessage,
-  UpdateSettingsMessage,
+  TabSession,
+  ExtensionMessageOf,
+  ExportFile,
+  PageData,
+  LicenseInfo,
+  STORAGE_KEYS,
+  Entitlements,
+  FeatureEntitlement,
 } from '../shared/types';
-import { getUserSettings, updateUserSettings } from '../shared/storage';
+import {
+  getUserSettings,
+  onUserSettingsChange,
+  removeStorageValue,
+  setStorageValue,
+  updateUserSettings,
+} from '../shared/storage';
 import { createMessageListener, MessageHandlerMap } from '../shared/messaging';
+import { createRpcServer } from '../shared/rpc';
+import { validateSettingsUpdate } from '../shared/schema';
+import { MESSAGE_POLICIES } from '../shared/authorization';
+import {
+  MiddlewareConfig,
+  authorize,
+  logging,
+  normalizeErrors,
+  requireFeature,
+  timing,
+  validatePayload,
+} from '../shared/middleware';
+import { createExportFile, validateExportRequest } from '../shared/export';
+import { onHostPermissionsChange } from '../shared/permissions';
+import {
+  FREE_LICENSE,
+  getLicenseInfo,
+  validateLicenseActivation,
+  verifyLicenseToken,
+} from '../shared/license';
+import { getEntitlements, validateTrialRequest } from '../shared/entitlements';
+import { runMigrations } from './migrations';
+import { createSessionRegistry, trackTabSessions } from './sessions';
+import { createActionRouter } from './actions';
+import { addToExtractionHistory, getExtractionHistory } from './history';
+import { affectsRegistration, injectContentScript, syncContentScripts } from './injection';
+import { startTrial, watchEntitlements } from './entitlements';
+import { refreshFeatureFlags, scheduleFeatureFlagRefresh, watchFeatureFlagRefresh } from './flags';
+
+// ============================================================================
+// Tab Sessions
+// ============================================================================
+
+const sessionRegistry = createSessionRegistry();
+trackTabSessions(sessionRegistry);
+
+// ============================================================================
+// Actions
+// ============================================================================
+
+const routeAction = createActionRouter();
+
+/**
+ * Route an action, keeping successful page extractions in the history
+ */
+const performAction = async (
+  payload: ExtensionMessageOf<'PERFORM_ACTION'>['payload'],
+  sender: chrome.runtime.MessageSender
+): Promise<MessageResponse<unknown>> => {
+  const response = await routeAction(payload, sender);
+  if (payload.action === 'extractData' && response.success) {
+    await addToExtractionHistory(response.data as PageData);
+  }
+  return response;
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Whether a tab's top frame has a live content script
+ */
+const isContentScriptInjected = async (tabId: number): Promise<boolean> => {
+  const sessions = await sessionRegistry.getTabSessions(tabId);
+  return sessions.some((session) => session.frameId === 0);
+};
+
+/**
+ * Convert a Chrome tab into the TabInfo shape sent to other contexts
+ */
+const toTabInfo = async (tab: chrome.tabs.Tab & { id: number }): Promise<TabInfo> => ({
+  id: tab.id,
+  windowId: tab.windowId,
+  url: tab.url || '',
+  title: tab.title || '',
+  favIconUrl: tab.favIconUrl,
+  injected: await isContentScriptInjected(tab.id),
+});
+
+/**
+ * The requested tab, else the sender's own tab, else the active tab
+ */
+const resolveTabId = async (
+  tabId: number | undefined,
+  sender: chrome.runtime.MessageSender
+): Promise<number | undefined> => {
+  if (tabId !== undefined) return tabId;
+  if (sender.tab?.id !== undefined) return sender.tab.id;
+  const [activeTab] = await chrome.tabs.query({ active: true, currentWindow: true });
+  return activeTab?.id;
+};
 
 // ============================================================================
 // Message Handlers
 // ============================================================================
 
+// Handlers may throw; the normalizeErrors middleware turns exceptions into
+// HANDLER_ERROR responses.
 const messageHandlers: MessageHandlerMap = {
   GET_SETTINGS: async (): Promise<MessageResponse<UserSettings>> => {
-    try {
-      const settings = await getUserSettings();
-      return { success: true, data: settings };
-    } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Failed to get settings',
-      };
-    }
+    const settings = await getUserSettings();
+    return { success: true, data: settings };
   },
 
   UPDATE_SETTINGS: async (
-    message: UpdateSettingsMessage
+    message: ExtensionMessageOf<'UPDATE_SETTINGS'>
   ): Promise<MessageResponse<UserSettings>> => {
-    try {
-      const updatedSettings = await updateUserSettings(message.payload);
-      if (updatedSettings) {
-        return { success: true, data: updatedSettings };
-      }
-      return { success: false, error: 'Failed to update settings' };
-    } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Failed to update settings',
-      };
+    const updatedSettings = await updateUserSettings(message.payload);
+    if (updatedSettings) {
+      return { success: true, data: updatedSettings };
     }
+    return { success: false, error: 'Failed to update settings' };
   },
 
   GET_TAB_INFO: async (
     _message: ExtensionMessage,
     sender: chrome.runtime.MessageSender
   ): Promise<MessageResponse<TabInfo>> => {
-    try {
-      const tab = sender.tab;
-      if (tab && tab.id) {
-        return {
-          success: true,
-          data: {
-            id: tab.id,
-            url: tab.url || '',
-            title: tab.title || '',
-            favIconUrl: tab.favIconUrl,
-          },
-        };
-      }
-      // If called from popup, get the active tab
-      const [activeTab] = await chrome.tabs.query({ active: true, currentWindow: true });
-      if (activeTab && activeTab.id) {
-        return {
-          success: true,
-          data: {
-            id: activeTab.id,
-            url: activeTab.url || '',
-            title: activeTab.title || '',
-            favIconUrl: activeTab.favIconUrl,
-          },
-        };
-      }
-      return { success: false, error: 'No active tab found' };
-    } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Failed to get tab info',
-      };
+    const tab = sender.tab;
+    if (tab && tab.id) {
+      return { success: true, data: await toTabInfo({ ...tab, id: tab.id }) };
+    }
+    // If called from popup, get the active tab
+    const [activeTab] = await chrome.tabs.query({ active: true, currentWindow: true });
+    if (activeTab && activeTab.id) {
+      return { success: true, data: await toTabInfo({ ...activeTab, id: activeTab.id }) };
     }
+    return { success: false, error: 'No active tab found' };
   },
 
   CONTENT_SCRIPT_READY: async (
+    message: ExtensionMessageOf<'CONTENT_SCRIPT_READY'>,
+    sender: chrome.runtime.MessageSender
+  ): Promise<MessageResponse<void>> => {
+    const tabId = sender.tab?.id;
+    if (tabId === undefined) {
+      return { success: false, error: 'Content script is not running in a tab' };
+    }
+    await sessionRegistry.register(tabId, sender.frameId ?? 0, message.payload);
+    // The popup shows whether the script runs in the active tab
+    if (sender.frameId === 0 && sender.tab?.active) {
+      await emitTabState(sender.tab);
+    }
+    return { success: true };
+  },
+
+  CONTENT_SCRIPT_HEARTBEAT: async (
     _message: ExtensionMessage,
     sender: chrome.runtime.MessageSender
   ): Promise<MessageResponse<void>> => {
-    // Log or handle content script initialization
     const tabId = sender.tab?.id;
-    if (tabId) {
-      // You can store tab state or perform initialization here
-      console.warn(`Content script ready in tab ${tabId}`);
+    if (tabId === undefined) {
+      return { success: false, error: 'Content script is not running in a tab' };
     }
+    await sessionRegistry.heartbeat(tabId, sender.frameId ?? 0, {
+      url: sender.url ?? sender.tab?.url ?? '',
+      title: sender.tab?.title ?? '',
+    });
     return { success: true };
   },
 
-  PERFORM_ACTION: async (): Promise<MessageResponse<unknown>> => {
-    // Placeholder for custom actions
-    // Extend this handler based on your extension's needs
-    return { success: true, data: { message: 'Action performed' } };
+  CONTENT_SCRIPT_NAVIGATED: async (
+    message: ExtensionMessageOf<'CONTENT_SCRIPT_NAVIGATED'>,
+    sender: chrome.runtime.MessageSender
+  ): Promise<MessageResponse<void>> => {
+    const tabId = sender.tab?.id;
+    if (tabId === undefined) {
+      return { success: false, error: 'Content script is not running in a tab' };
+    }
+    // Client-side routing keeps the document, so the session stays the same
+    await sessionRegistry.updatePage(tabId, message.payload, sender.frameId ?? 0);
+    return { success: true };
   },
 
-  CHECK_FEATURE_ACCESS: async (
-    message: CheckFeatureAccessMessage
+  GET_TAB_SESSIONS: async (
+    message: ExtensionMessageOf<'GET_TAB_SESSIONS'>,
+    sender: chrome.runtime.MessageSender
+  ): Promise<MessageResponse<TabSession[]>> => {
+    const tabId = await resolveTabId(message.payload.tabId, sender);
+    if (tabId === undefined) {
+      return { success: false, error: 'No active tab found' };
+    }
+    return { success: true, data: await sessionRegistry.getTabSessions(tabId) };
+  },
+
+  INJECT_CONTENT_SCRIPT: async (
+    message: ExtensionMessageOf<'INJECT_CONTENT_SCRIPT'>,
+    sender: chrome.runtime.MessageSender
   ): Promise<MessageResponse<boolean>> => {
-    try {
-      const settings = await getUserSettings();
-      const hasAccess = hasFeatureAccess(settings.tier, message.payload.feature);
-      return { success: true, data: hasAccess };
-    } catch (error) {
+    const tabId = await resolveTabId(message.payload.tabId, sender);
+    if (tabId === undefined) {
+      return { success: false, error: 'No active tab found' };
+    }
+    // Injecting twice would run two copies of the script in the page
+    if (await isContentScriptInjected(tabId)) {
+      return { success: true, data: false };
+    }
+    await injectContentScript(tabId);
+    return { success: true, data: true };
+  },
+
+  PERFORM_ACTION: async (
+    message: ExtensionMessageOf<'PERFORM_ACTION'>,
+    sender: chrome.runtime.MessageSender
+  ): Promise<MessageResponse<unknown>> => {
+    // Actions are declared in shared/actions.ts; background ones are
+    // registered in ./actions and content ones in the content script
+    return performAction(message.payload, sender);
+  },
+
+  EXPORT_DATA: async (
+    message: ExtensionMessageOf<'EXPORT_DATA'>,
+    sender: chrome.runtime.MessageSender
+  ): Promise<MessageResponse<ExportFile>> => {
+    // Feature access is checked by the requireFeature middleware
+    const { source, format, tabId } = message.payload;
+    if (source === 'settings') {
+      return { success: true, data: createExportFile(source, format, await getUserSettings()) };
+    }
+    if (source === 'history') {
+      return {
+        success: true,
+        data: createExportFile(source, format, await getExtractionHistory()),
+      };
+    }
+    const extraction = await performAction({ action: 'extractData', tabId }, sender);
+    if (!extraction.success) {
+      return { success: false, error: extraction.error, code: extraction.code };
+    }
+    return { success: true, data: createExportFile(source, format, extraction.data as PageData) };
+  },
+
+  CHECK_FEATURE_ACCESS: async (
+    message: ExtensionMessageOf<'CHECK_FEATURE_ACCESS'>
+  ): Promise<MessageResponse<FeatureEntitlement>> => {
+    const entitlements = await getEntitlements();
+    return { success: true, data: entitlements.features[message.payload.feature] };
+  },
+
+  GET_ENTITLEMENTS: async (): Promise<MessageResponse<Entitlements>> => {
+    return { success: true, data: await getEntitlements() };
+  },
+
+  START_TRIAL: async (
+    message: ExtensionMessageOf<'START_TRIAL'>
+  ): Promise<MessageResponse<Entitlements>> => {
+    const { target } = message.payload;
+    const entitlements = await getEntitlements();
+    if (!entitlements.availableTrials.includes(target)) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Failed to check feature access',
+        error: `The ${target} trial was already used or is not needed`,
+        code: 'VALIDATION_FAILED',
       };
     }
+    if (!(await startTrial(target))) {
+      return { success: false, error: 'Failed to start the trial' };
+    }
+    return { success: true, data: await getEntitlements() };
+  },
+
+  GET_LICENSE: async (): Promise<MessageResponse<LicenseInfo>> => {
+    return { success: true, data: await getLicenseInfo() };
+  },
+
+  ACTIVATE_LICENSE: async (
+    message: ExtensionMessageOf<'ACTIVATE_LICENSE'>
+  ): Promise<MessageResponse<LicenseInfo>> => {
+    const token = message.payload.token.trim();
+    const license = await verifyLicenseToken(token);
+    // Only store keys that grant something, so a typo keeps the current license
+    if (license.status !== 'active') {
+      return { success: false, error: license.error, code: 'VALIDATION_FAILED' };
+    }
+    if (!(await setStorageValue(STORAGE_KEYS.LICENSE, token))) {
+      return { success: false, error: 'Failed to save the license key' };
+    }
+    return { success: true, data: license };
+  },
+
+  DEACTIVATE_LICENSE: async (): Promise<MessageResponse<LicenseInfo>> => {
+    if (!(await removeStorageValue(STORAGE_KEYS.LICENSE))) {
+      return { success: false, error: 'Failed to remove the license key' };
+    }
+    return { success: true, data: FREE_LICENSE };
+  },
+};
+
+// ============================================================================
+// Message Middleware
+// ============================================================================
+
+const messageMiddleware: MiddlewareConfig = {
+  // Outermost first: log the final outcome, including authorization failures
+  global: [logging(), timing(), normalizeErrors(), authorize(MESSAGE_POLICIES)],
+  perType: {
+    UPDATE_SETTINGS: [validatePayload(validateSettingsUpdate)],
+    EXPORT_DATA: [requireFeature('export_data'), validatePayload(validateExportRequest)],
+    ACTIVATE_LICENSE: [validatePayload(validateLicenseActivation)],
+    START_TRIAL: [validatePayload(validateTrialRequest)],
   },
 };
 
 // Register message listener
-chrome.runtime.onMessage.addListener(createMessageListener(messageHandlers));
+chrome.runtime.onMessage.addListener(createMessageListener(messageHandlers, messageMiddleware));
+
+// Long-lived ports get the same handlers and middleware, plus pushed events
+const rpcServer = createRpcServer(messageHandlers, messageMiddleware);
+
+// ============================================================================
+// Pushed Events
+// ============================================================================
+
+onUserSettingsChange((settings) => {
+  rpcServer.emit('SETTINGS_CHANGED', settings);
+});
+
+const refreshEntitlements = watchEntitlements((entitlements) => {
+  rpcServer.emit('ENTITLEMENTS_CHANGED', entitlements);
+});
+
+// ============================================================================
+// Content Script Registration
+// ============================================================================
+
+// Where the content script is registered follows the enabled sites and the
+// host permissions the user granted
+onUserSettingsChange((settings, oldSettings) => {
+  if (affectsRegistration(settings, oldSettings)) {
+    syncContentScripts(settings);
+  }
+});
+
+onHostPermissionsChange(() => {
+  syncContentScripts();
+});
 
 // ============================================================================
 // Extension Lifecycle Events
@@ -146,8 +383,22 @@ chrome.runtime.onInstalled.addListener(async (details) => {
   } else if (details.reason === 'update') {
     // Extension updated
     console.warn(`Extension updated from ${details.previousVersion}`);
-    // Perform any migration if needed
   }
+
+  // Stamp fresh installs with the current schema version and upgrade data
+  // left by older versions. Already-migrated areas are skipped.
+  const results = await runMigrations();
+  for (const result of results) {
+    if (!result.success) {
+      console.error(`Storage migration failed for ${result.area}:`, result.error);
+    }
+  }
+
+  // Registrations survive updates, but the matches may have changed with them
+  await syncContentScripts();
+  await scheduleFeatureFlagRefresh();
+  await refreshFeatureFlags();
+  await refreshEntitlements();
 });
 
 /**
@@ -155,27 +406,75 @@ chrome.runtime.onInstalled.addListener(async (details) => {
  */
 chrome.runtime.onStartup.addListener(() => {
   console.warn('Browser started, extension active');
+  syncContentScripts();
+  // Alarms may not survive a browser restart
+  scheduleFeatureFlagRefresh();
+  refreshFeatureFlags();
+  refreshEntitlements();
 });
 
 // ============================================================================
-// Tab Events (optional - uncomment if needed)
+// Tab Events
 // ============================================================================
 
-// chrome.tabs.onActivated.addListener(async (activeInfo) => {
-//   const tab = await chrome.tabs.get(activeInfo.tabId);
-//   console.warn('Tab activated:', tab.url);
-// });
+/**
+ * Tell subscribers about the state of an active tab. Fires for every window;
+ * subscribers pick the window they belong to.
+ */
+const emitTabState = async (tab: chrome.tabs.Tab): Promise<void> => {
+  if (tab.id === undefined || rpcServer.getSubscriberCount('TAB_STATE_CHANGED') === 0) return;
+  rpcServer.emit('TAB_STATE_CHANGED', await toTabInfo({ ...tab, id: tab.id }));
+};
 
-// chrome.tabs.onUpdated.addListener((tabId, changeInfo, tab) => {
-//   if (changeInfo.status === 'complete') {
-//     console.warn('Tab loaded:', tab.url);
-//   }
-// });
+chrome.tabs.onActivated.addListener(async (activeInfo) => {
+  try {
+    await emitTabState(await chrome.tabs.get(activeInfo.tabId));
+  } catch (error) {
+    console.error('Failed to read activated tab:', error);
+  }
+});
+
+chrome.tabs.onUpdated.addListener((_tabId, changeInfo, tab) => {
+  if (tab.active && (changeInfo.url || changeInfo.title || changeInfo.status === 'complete')) {
+    emitTabState(tab);
+  }
+});
+
+// ============================================================================
+// Keyboard Commands
+// ============================================================================
+
+chrome.commands.onCommand.addListener(async (command, tab) => {
+  if (command !== 'pick-element' || tab?.id === undefined) return;
+  try {
+    // Commands grant activeTab, so the picker also works where the script
+    // has not been registered
+    if (!(await isContentScriptInjected(tab.id))) {
+      await injectContentScript(tab.id);
+    }
+  } catch (error) {
+    console.error('Cannot run the element picker on this page:', error);
+    return;
+  }
+  // Commands come from the browser, not from a message sender
+  const response = await performAction(
+    { action: 'pickElement', data: { showResult: true }, tabId: tab.id },
+    { id: chrome.runtime.id }
+  );
+  if (!response.success && response.code !== 'NO_RECEIVER') {
+    console.error('Element picker failed:', response.error);
+  }
+});
 
 // ============================================================================
 // Alarm Events (for scheduled tasks)
 // ============================================================================
 
+// The entitlement expiry alarm is handled by watchEntitlements (see Pushed Events)
+
+// New flags reach the entitlements through the cache they are stored in
+watchFeatureFlagRefresh();
+
 // Example: Create an alarm for periodic tasks
 // chrome.alarms.create('periodicTask', { periodInMinutes: 60 });
 
@@ -207,4 +506,4 @@ chrome.runtime.onStartup.addListener(() => {
 // Export for testing (if needed)
 // ============================================================================
 
-export { messageHandlers };
+export { messageHandlers, messageMiddleware, rpcServer, sessionRegistry };
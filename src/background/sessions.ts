@@ -0,0 +1,192 @@
+/**
+ * Tab session registry
+ *
+ * Tracks which tab frames have a live content script. Sessions are created by
+ * CONTENT_SCRIPT_READY, refreshed by heartbeats and dropped when the tab is
+ * closed or the frame navigates to a new document. The registry is persisted
+ * in chrome.storage.session so it survives service-worker restarts, and is
+ * cleared along with that area when the browser exits.
+ */
+
+import { STORAGE_KEYS, TabSession } from '../shared/types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Page details reported for a session
+ */
+export interface SessionPageInfo {
+  url: string;
+  title: string;
+}
+
+/**
+ * Background registry of content-script sessions
+ */
+export interface SessionRegistry {
+  /** Record a content script that just became ready, replacing any previous session */
+  register: (tabId: number, frameId: number, page: SessionPageInfo) => Promise<TabSession>;
+  /** Refresh a session's heartbeat, re-creating it if the registry lost track of it */
+  heartbeat: (tabId: number, frameId: number, page: SessionPageInfo) => Promise<TabSession>;
+  /** Update a frame's page details (default top frame), e.g. after an in-page navigation */
+  updatePage: (tabId: number, page: Partial<SessionPageInfo>, frameId?: number) => Promise<void>;
+  /** Drop a frame's session; dropping the top frame drops the whole tab */
+  removeFrame: (tabId: number, frameId: number) => Promise<void>;
+  /** Drop every session of a tab */
+  removeTab: (tabId: number) => Promise<void>;
+  /** Sessions of a tab, top frame first */
+  getTabSessions: (tabId: number) => Promise<TabSession[]>;
+  /** Every tracked session */
+  getAll: () => Promise<TabSession[]>;
+}
+
+type SessionRecord = Record<string, TabSession>;
+
+const sessionKey = (tabId: number, frameId: number): string => `${tabId}:${frameId}`;
+
+const byFrame = (a: TabSession, b: TabSession): number => a.frameId - b.frameId;
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+/**
+ * Create a session registry backed by chrome.storage.session
+ */
+export const createSessionRegistry = (options: { now?: () => number } = {}): SessionRegistry => {
+  const { now = Date.now } = options;
+
+  // In-memory copy, loaded from storage on first use after each worker start
+  let cache: SessionRecord | null = null;
+  // Mutations are serialized so concurrent tab events cannot overwrite each other
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const load = async (): Promise<SessionRecord> => {
+    if (cache) return cache;
+    try {
+      const result = await chrome.storage.session.get(STORAGE_KEYS.TAB_SESSIONS);
+      const stored = result[STORAGE_KEYS.TAB_SESSIONS];
+      cache = stored && typeof stored === 'object' ? { ...(stored as SessionRecord) } : {};
+    } catch (error) {
+      console.error('Failed to load tab sessions:', error);
+      cache = {};
+    }
+    return cache;
+  };
+
+  const mutate = <T>(change: (sessions: SessionRecord) => T): Promise<T> => {
+    const run = queue.then(async () => {
+      const sessions = await load();
+      const result = change(sessions);
+      try {
+        await chrome.storage.session.set({ [STORAGE_KEYS.TAB_SESSIONS]: sessions });
+      } catch (error) {
+        console.error('Failed to save tab sessions:', error);
+      }
+      return result;
+    });
+    queue = run.catch(() => undefined);
+    return run;
+  };
+
+  const read = async (): Promise<TabSession[]> => {
+    await queue;
+    return Object.values(await load());
+  };
+
+  const removeWhere = (sessions: SessionRecord, matches: (session: TabSession) => boolean) => {
+    for (const [key, session] of Object.entries(sessions)) {
+      if (matches(session)) delete sessions[key];
+    }
+  };
+
+  return {
+    register: (tabId, frameId, page) =>
+      mutate((sessions) => {
+        const timestamp = now();
+        const session: TabSession = {
+          tabId,
+          frameId,
+          url: page.url,
+          title: page.title,
+          readyAt: timestamp,
+          lastHeartbeat: timestamp,
+        };
+        sessions[sessionKey(tabId, frameId)] = session;
+        return session;
+      }),
+
+    heartbeat: (tabId, frameId, page) =>
+      mutate((sessions) => {
+        const key = sessionKey(tabId, frameId);
+        const timestamp = now();
+        const existing = sessions[key];
+        sessions[key] = existing
+          ? { ...existing, lastHeartbeat: timestamp }
+          : { tabId, frameId, ...page, readyAt: timestamp, lastHeartbeat: timestamp };
+        return sessions[key];
+      }),
+
+    updatePage: (tabId, page, frameId = 0) =>
+      mutate((sessions) => {
+        const key = sessionKey(tabId, frameId);
+        if (sessions[key]) {
+          sessions[key] = { ...sessions[key], ...page };
+        }
+      }),
+
+    removeFrame: (tabId, frameId) =>
+      mutate((sessions) => {
+        // A new top-level document tears down every frame in the tab
+        removeWhere(
+          sessions,
+          (session) => session.tabId === tabId && (frameId === 0 || session.frameId === frameId)
+        );
+      }),
+
+    removeTab: (tabId) =>
+      mutate((sessions) => {
+        removeWhere(sessions, (session) => session.tabId === tabId);
+      }),
+
+    getTabSessions: async (tabId) =>
+      (await read()).filter((session) => session.tabId === tabId).sort(byFrame),
+
+    getAll: read,
+  };
+};
+
+// ============================================================================
+// Tracking
+// ============================================================================
+
+/**
+ * Keep the registry in sync with tab and navigation events
+ */
+export const trackTabSessions = (registry: SessionRegistry): void => {
+  chrome.tabs.onRemoved.addListener((tabId) => {
+    registry.removeTab(tabId);
+  });
+
+  // Tab discarding or prerendering swaps in a new tab ID without the old page
+  chrome.tabs.onReplaced.addListener((_addedTabId, removedTabId) => {
+    registry.removeTab(removedTabId);
+  });
+
+  chrome.tabs.onUpdated.addListener((tabId, changeInfo) => {
+    if (changeInfo.url !== undefined || changeInfo.title !== undefined) {
+      const page: Partial<SessionPageInfo> = {};
+      if (changeInfo.url !== undefined) page.url = changeInfo.url;
+      if (changeInfo.title !== undefined) page.title = changeInfo.title;
+      registry.updatePage(tabId, page);
+    }
+  });
+
+  // A committed navigation replaces the document, and with it the content
+  // script. The new script registers itself again once it is ready.
+  chrome.webNavigation.onCommitted.addListener(({ tabId, frameId }) => {
+    registry.removeFrame(tabId, frameId);
+  });
+};
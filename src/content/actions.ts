@@ -0,0 +1,30 @@
+/**
+ * Content-script actions
+ *
+ * Handlers for the actions declared to run in the page. The background checks
+ * feature access and forwards PERFORM_ACTION here for the target tab.
+ */
+
+import { createActionRegistry } from '../shared/actions';
+import { clearHighlights, highlight, stepHighlight } from './highlight';
+import { extractPageData } from './extraction';
+import { pickElement } from './picker';
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+/**
+ * Actions that run in the content script
+ */
+export const contentActions = createActionRegistry('content');
+
+contentActions.register('highlightElements', (query) => highlight(query));
+
+contentActions.register('stepHighlight', ({ direction }) => stepHighlight(direction));
+
+contentActions.register('clearHighlights', () => clearHighlights());
+
+contentActions.register('extractData', (options) => extractPageData(options));
+
+contentActions.register('pickElement', (options) => pickElement(options));
@@ -9,7 +9,28 @@
  * with the background service worker.
  */
 
-import { notifyContentScriptReady, requestSettings, requestAction } from '../shared/messaging';
+import {
+  notifyContentScriptReady,
+  notifyNavigation,
+  requestSettings,
+  requestAction,
+  sendHeartbeat,
+} from '../shared/messaging';
+import { onUserSettingsChange } from '../shared/storage';
+import { resolveSiteSettings } from '../shared/sites';
+import { contentActions } from './actions';
+import { extractPageData } from './extraction';
+import { injectStyle } from './dom';
+import { clearHighlights } from './highlight';
+import { cancelPicker } from './picker';
+import { createWidgetHost, destroyAllWidgets } from './widget';
+import { PageLocation, watchNavigation } from './navigation';
+import {
+  createDisposableRegistry,
+  DisposableRegistry,
+  isExtensionContextValid,
+  watchContextInvalidation,
+} from './disposables';
 import { ExtensionMessage, MessageResponse, UserSettings } from '../shared/types';
 
 // ============================================================================
@@ -19,6 +40,11 @@ import { ExtensionMessage, MessageResponse, UserSettings } from '../shared/types
 let isInitialized = false;
 let currentSettings: UserSettings | null = null;
 
+// Everything the content script adds to the page; flushed by cleanup
+const disposables = createDisposableRegistry();
+// Resources of the running features; flushed when the extension is disabled
+let features: DisposableRegistry | null = null;
+
 // ============================================================================
 // Initialization
 // ============================================================================
@@ -28,43 +54,126 @@ let currentSettings: UserSettings | null = null;
  */
 const initialize = async (): Promise<void> => {
   if (isInitialized) return;
+  isInitialized = true;
 
   try {
-    // Notify background that content script is ready
-    await notifyContentScriptReady(window.location.href, document.title);
+    // Listen before announcing ourselves, since the background starts routing
+    // actions here as soon as it knows about this page
+    chrome.runtime.onMessage.addListener(handleRuntimeMessage);
+    disposables.add(() => chrome.runtime.onMessage.removeListener(handleRuntimeMessage));
+
+    // Notify background that content script is ready. The service worker may
+    // still be starting up, so retry delivery failures a few times.
+    const readyResponse = await notifyContentScriptReady(window.location.href, document.title, {
+      retries: 3,
+    });
+    if (readyResponse.code === 'CONTEXT_INVALIDATED') {
+      // The extension was reloaded; this script is orphaned and must stay inert
+      handleContextInvalidated();
+      return;
+    }
 
-    // Get current settings
-    const settingsResponse = await requestSettings();
-    if (settingsResponse.success && settingsResponse.data) {
-      currentSettings = settingsResponse.data;
+    // Follow settings changes live, so toggling the extension in the popup
+    // starts or stops it on pages that are already open
+    disposables.add(onUserSettingsChange(applySettings));
 
-      // Only run if extension is enabled
-      if (currentSettings.enabled) {
-        setupContentScript();
-      }
+    // Get current settings, unless a change already arrived in the meantime
+    const settingsResponse = await requestSettings({ retries: 3 });
+    if (settingsResponse.success && settingsResponse.data && !currentSettings) {
+      applySettings(settingsResponse.data);
     }
 
-    isInitialized = true;
+    // Single-page apps navigate without loading a new document
+    watchNavigation(disposables, handleNavigation);
+
+    // Report back whenever the user returns to the page, so the background
+    // knows this session is still alive
+    disposables.listen(document, 'visibilitychange', handleVisibilityChange);
+
+    // Highlights, widgets and the picker can also be started by actions while disabled
+    disposables.add(clearHighlights);
+    disposables.add(cancelPicker);
+    disposables.add(destroyAllWidgets);
+
+    // Release everything if the extension is updated or reloaded under us
+    watchContextInvalidation(disposables, handleContextInvalidated);
   } catch (error) {
     console.error('[Extension] Failed to initialize content script:', error);
+    cleanup();
+  }
+};
+
+/**
+ * Send a heartbeat when the page becomes visible again
+ */
+const handleVisibilityChange = async (): Promise<void> => {
+  if (document.visibilityState === 'visible') {
+    const response = await sendHeartbeat();
+    if (response.code === 'CONTEXT_INVALIDATED') {
+      handleContextInvalidated();
+    }
+  }
+};
+
+/**
+ * Follow a client-side navigation: keep the background's idea of the page up
+ * to date and, when the URL changed, start the page's features over under
+ * the site rules of the new URL
+ */
+const handleNavigation = async (page: PageLocation, previous: PageLocation): Promise<void> => {
+  if (page.url !== previous.url && features) {
+    features.flush();
+    features = null;
+  }
+  if (currentSettings) {
+    applySettings(currentSettings);
+  }
+
+  const response = await notifyNavigation(page.url, page.title);
+  if (response.code === 'CONTEXT_INVALIDATED') {
+    handleContextInvalidated();
+  }
+};
+
+/**
+ * Start or stop content-script features to match the enabled setting and the
+ * site rules for this page
+ */
+const applySettings = (settings: UserSettings): void => {
+  currentSettings = settings;
+  const { enabled } = resolveSiteSettings(settings, window.location.href);
+  if (enabled && !features) {
+    features = disposables.child();
+    setupContentScript(features);
+  } else if (!enabled && features) {
+    features.flush();
+    features = null;
   }
 };
 
 /**
- * Set up content script functionality
+ * Set up content script functionality.
+ * Register everything added to the page with the registry so that disabling
+ * the extension removes it again.
  */
-const setupContentScript = (): void => {
+const setupContentScript = (registry: DisposableRegistry): void => {
   // Add your content script logic here
   // This runs on every page that matches the manifest's content_scripts pattern
 
   // Example: Add a custom class to the body
   // document.body.classList.add('extension-active');
+  // registry.add(() => document.body.classList.remove('extension-active'));
 
   // Example: Observe DOM changes
-  // setupMutationObserver();
+  // setupMutationObserver(registry);
 
   // Example: Listen for specific events
-  // setupEventListeners();
+  // setupEventListeners(registry);
+
+  // Remove anything shown on the page while the extension was enabled
+  registry.add(clearHighlights);
+  registry.add(cancelPicker);
+  registry.add(destroyAllWidgets);
 };
 
 // ============================================================================
@@ -74,115 +183,53 @@ const setupContentScript = (): void => {
 /**
  * Handle messages from other extension contexts
  */
-chrome.runtime.onMessage.addListener(
-  (
-    message: ExtensionMessage,
-    _sender: chrome.runtime.MessageSender,
-    sendResponse: (response: MessageResponse) => void
-  ): boolean => {
-    handleMessage(message)
-      .then(sendResponse)
-      .catch((error) => {
-        sendResponse({
-          success: false,
-          error: error instanceof Error ? error.message : 'Unknown error',
-        });
+const handleRuntimeMessage = (
+  message: ExtensionMessage,
+  sender: chrome.runtime.MessageSender,
+  sendResponse: (response: MessageResponse) => void
+): boolean => {
+  handleMessage(message, sender)
+    .then(sendResponse)
+    .catch((error) => {
+      sendResponse({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        code: 'HANDLER_ERROR',
       });
+    });
 
-    // Return true to indicate async response
-    return true;
-  }
-);
+  // Return true to indicate async response
+  return true;
+};
 
 /**
  * Process incoming messages
  */
-const handleMessage = async (message: ExtensionMessage): Promise<MessageResponse> => {
+const handleMessage = async (
+  message: ExtensionMessage,
+  sender: chrome.runtime.MessageSender
+): Promise<MessageResponse> => {
   switch (message.type) {
-    case 'UPDATE_SETTINGS':
+    case 'UPDATE_SETTINGS': {
       // Settings were updated, refresh local state
       const settingsResponse = await requestSettings();
       if (settingsResponse.success && settingsResponse.data) {
-        currentSettings = settingsResponse.data;
+        applySettings(settingsResponse.data);
       }
       return { success: true };
+    }
 
     case 'PERFORM_ACTION':
-      // Handle custom actions from popup/background
-      return handleAction(message.payload);
-
-    default:
-      return { success: false, error: `Unknown message type: ${message.type}` };
-  }
-};
-
-/**
- * Handle custom actions
- */
-const handleAction = (payload: { action: string; data?: unknown }): MessageResponse => {
-  switch (payload.action) {
-    case 'highlightElements':
-      // Example action: highlight elements on the page
-      return { success: true, data: { highlighted: true } };
-
-    case 'extractData':
-      // Example action: extract data from the page
-      const data = extractPageData();
-      return { success: true, data };
+      // Actions forwarded by the background; handlers live in ./actions
+      return contentActions.run(message.payload.action, message.payload.data, sender);
 
     default:
-      return { success: false, error: `Unknown action: ${payload.action}` };
-  }
-};
-
-// ============================================================================
-// Page Interaction Utilities
-// ============================================================================
-
-/**
- * Extract basic data from the current page
- */
-const extractPageData = (): Record<string, unknown> => {
-  return {
-    url: window.location.href,
-    title: document.title,
-    metaDescription: document.querySelector('meta[name="description"]')?.getAttribute('content'),
-    headings: Array.from(document.querySelectorAll('h1, h2')).map((h) => ({
-      level: h.tagName.toLowerCase(),
-      text: h.textContent?.trim(),
-    })),
-  };
-};
-
-/**
- * Inject a style into the page
- */
-const injectStyle = (css: string): HTMLStyleElement => {
-  const style = document.createElement('style');
-  style.textContent = css;
-  document.head.appendChild(style);
-  return style;
-};
-
-/**
- * Create a floating UI element (for overlays, widgets, etc.)
- */
-const createFloatingElement = (id: string): HTMLDivElement => {
-  // Remove existing element if present
-  const existing = document.getElementById(id);
-  if (existing) {
-    existing.remove();
+      return {
+        success: false,
+        error: `Unknown message type: ${message.type}`,
+        code: 'UNKNOWN_MESSAGE_TYPE',
+      };
   }
-
-  const element = document.createElement('div');
-  element.id = id;
-  element.style.cssText = `
-    position: fixed;
-    z-index: 2147483647;
-    pointer-events: auto;
-  `;
-  document.body.appendChild(element);
-  return element;
 };
 
 // ============================================================================
@@ -192,7 +239,7 @@ const createFloatingElement = (id: string): HTMLDivElement => {
 /**
  * Set up a mutation observer to watch for DOM changes
  */
-const setupMutationObserver = (): MutationObserver => {
+const setupMutationObserver = (registry: DisposableRegistry): MutationObserver => {
   const observer = new MutationObserver((mutations) => {
     for (const mutation of mutations) {
       if (mutation.type === 'childList') {
@@ -210,6 +257,7 @@ const setupMutationObserver = (): MutationObserver => {
     childList: true,
     subtree: true,
   });
+  registry.observer(observer);
 
   return observer;
 };
@@ -221,14 +269,14 @@ const setupMutationObserver = (): MutationObserver => {
 /**
  * Set up event listeners on the page
  */
-const _setupEventListeners = (): void => {
+const _setupEventListeners = (registry: DisposableRegistry): void => {
   // Example: Listen for clicks
-  document.addEventListener('click', (_event) => {
+  registry.listen(document, 'click', (_event) => {
     // Handle click events if needed
   });
 
   // Example: Listen for keyboard shortcuts
-  document.addEventListener('keydown', (event) => {
+  registry.listen<KeyboardEvent>(document, 'keydown', (event) => {
     // Example: Ctrl/Cmd + Shift + E to trigger extension action
     if ((event.ctrlKey || event.metaKey) && event.shiftKey && event.key === 'E') {
       event.preventDefault();
@@ -242,26 +290,58 @@ const _setupEventListeners = (): void => {
 // ============================================================================
 
 /**
- * Clean up when content script is being unloaded
+ * Remove everything the content script added to the page
  */
 const cleanup = (): void => {
-  // Remove any injected elements
-  // Remove event listeners
-  // Clear observers
+  disposables.flush();
+  features = null;
+  currentSettings = null;
+  isInitialized = false;
+};
+
+/**
+ * Start again when the page is restored from the back/forward cache
+ */
+const handlePageShow = (event: PageTransitionEvent): void => {
+  if (event.persisted && isExtensionContextValid()) {
+    initialize();
+  }
 };
 
-// Listen for extension unload (when navigating away or extension is disabled)
-window.addEventListener('unload', cleanup);
+/**
+ * The extension was updated or reloaded: this script can no longer reach it,
+ * so clean up for good and leave the page to the new content script
+ */
+const handleContextInvalidated = (): void => {
+  cleanup();
+  window.removeEventListener('pagehide', cleanup);
+  window.removeEventListener('pageshow', handlePageShow);
+};
 
 // ============================================================================
 // Initialize
 // ============================================================================
 
-// Wait for DOM to be ready
-if (document.readyState === 'loading') {
-  document.addEventListener('DOMContentLoaded', initialize);
-} else {
-  initialize();
+// The script can be injected into a page it already runs in, e.g. on demand
+// while a registered copy is loading. Copies share the isolated world's
+// window, so only the first one starts.
+const LOADED_FLAG = '__extensionContentScriptLoaded';
+const loadedWindow = window as unknown as Record<typeof LOADED_FLAG, boolean | undefined>;
+
+if (!loadedWindow[LOADED_FLAG]) {
+  loadedWindow[LOADED_FLAG] = true;
+
+  // pagehide also fires for pages entering the back/forward cache, where
+  // unload would not, and unload listeners are being phased out
+  window.addEventListener('pagehide', cleanup);
+  window.addEventListener('pageshow', handlePageShow);
+
+  // Wait for DOM to be ready
+  if (document.readyState === 'loading') {
+    document.addEventListener('DOMContentLoaded', initialize);
+  } else {
+    initialize();
+  }
 }
 
 // Export for potential testing
@@ -269,7 +349,7 @@ export {
   initialize,
   extractPageData,
   injectStyle,
-  createFloatingElement,
+  createWidgetHost,
   setupMutationObserver,
   _setupEventListeners as setupEventListeners,
 };
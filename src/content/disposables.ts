@@ -0,0 +1,170 @@
+/**
+ * Disposable registry
+ *
+ * Everything the content script adds to a page (listeners, observers, timers,
+ * styles, elements) is registered here together with the code that removes
+ * it, so that flushing the registry reliably returns the page to its original
+ * state. Registries can be nested: flushing a parent flushes its children.
+ */
+
+import { injectStyle } from './dom';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Undoes one registered resource. Safe to call more than once.
+ */
+export type Disposer = () => void;
+
+export interface DisposableRegistry {
+  /** Register a cleanup function; the returned disposer runs it early */
+  add: (dispose: () => void) => Disposer;
+  /** Add an event listener that is removed on flush */
+  listen: <E extends Event = Event>(
+    target: EventTarget,
+    type: string,
+    listener: (event: E) => void,
+    options?: boolean | AddEventListenerOptions
+  ) => Disposer;
+  /** Disconnect an observer (MutationObserver, ResizeObserver, ...) on flush */
+  observer: (observer: { disconnect: () => void }) => Disposer;
+  /** Start an interval that is cleared on flush */
+  interval: (callback: () => void, ms: number) => Disposer;
+  /** Start a timeout that is cleared on flush */
+  timeout: (callback: () => void, ms: number) => Disposer;
+  /** Inject a style that is removed on flush */
+  style: (css: string) => HTMLStyleElement;
+  /** Remove an element from the page on flush */
+  element: <T extends Element>(element: T) => T;
+  /**
+   * Create a nested registry that is flushed along with this one. Flushing
+   * the child on its own detaches it, so create a new child to start over.
+   */
+  child: () => DisposableRegistry;
+  /** Dispose everything registered, most recent first. The registry stays usable. */
+  flush: () => void;
+  /** Number of registered resources that have not been disposed yet */
+  size: () => number;
+}
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+/**
+ * Create an empty registry
+ */
+export const createDisposableRegistry = (): DisposableRegistry => {
+  // Sets keep insertion order, so flushing in reverse undoes things in the
+  // opposite order they were set up
+  const disposers = new Set<Disposer>();
+
+  const add = (dispose: () => void): Disposer => {
+    const disposer: Disposer = () => {
+      // Deleting first keeps a throwing or re-entrant disposer from running twice
+      if (disposers.delete(disposer)) dispose();
+    };
+    disposers.add(disposer);
+    return disposer;
+  };
+
+  const registry: DisposableRegistry = {
+    add,
+
+    listen: (target, type, listener, options) => {
+      target.addEventListener(type, listener as EventListener, options);
+      return add(() => target.removeEventListener(type, listener as EventListener, options));
+    },
+
+    observer: (observer) => add(() => observer.disconnect()),
+
+    interval: (callback, ms) => {
+      const id = setInterval(callback, ms);
+      return add(() => clearInterval(id));
+    },
+
+    timeout: (callback, ms) => {
+      const id = setTimeout(() => {
+        // A timeout that has fired has nothing left to clean up
+        disposer();
+        callback();
+      }, ms);
+      const disposer = add(() => clearTimeout(id));
+      return disposer;
+    },
+
+    style: (css) => {
+      const style = injectStyle(css);
+      add(() => style.remove());
+      return style;
+    },
+
+    element: (element) => {
+      add(() => element.remove());
+      return element;
+    },
+
+    child: () => {
+      const child = createDisposableRegistry();
+      const detach = add(() => child.flush());
+      return {
+        ...child,
+        flush: () => {
+          detach();
+          // Also flush anything added after the child was detached
+          child.flush();
+        },
+      };
+    },
+
+    flush: () => {
+      for (const disposer of Array.from(disposers).reverse()) {
+        try {
+          disposer();
+        } catch (error) {
+          console.error('[Extension] Failed to dispose resource:', error);
+        }
+      }
+    },
+
+    size: () => disposers.size,
+  };
+
+  return registry;
+};
+
+// ============================================================================
+// Extension Context
+// ============================================================================
+
+/**
+ * Whether this script can still reach the extension. After the extension is
+ * updated or reloaded, content scripts already in pages lose their runtime.
+ */
+export const isExtensionContextValid = (): boolean => {
+  try {
+    return !!chrome.runtime?.id;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Call back once the extension context is invalidated. Chrome fires no event
+ * for this, so the context is polled on an interval owned by the registry.
+ */
+export const watchContextInvalidation = (
+  registry: DisposableRegistry,
+  onInvalidated: () => void,
+  intervalMs = 5000
+): Disposer => {
+  const stop = registry.interval(() => {
+    if (!isExtensionContextValid()) {
+      stop();
+      onInvalidated();
+    }
+  }, intervalMs);
+  return stop;
+};
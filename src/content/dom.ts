@@ -0,0 +1,13 @@
+/**
+ * DOM helpers shared by content-script modules
+ */
+
+/**
+ * Inject a style into the page
+ */
+export const injectStyle = (css: string): HTMLStyleElement => {
+  const style = document.createElement('style');
+  style.textContent = css;
+  document.head.appendChild(style);
+  return style;
+};
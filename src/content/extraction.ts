@@ -0,0 +1,402 @@
+/**
+ * Structured page extraction
+ *
+ * Builds a versioned PageData result from a set of independent extractors.
+ * Each extractor can be switched off, and one failing extractor does not stop
+ * the others; its error is reported in `errors` instead.
+ */
+
+import {
+  ExtractionOptions,
+  ExtractorName,
+  MainContent,
+  MicrodataItem,
+  PAGE_DATA_VERSION,
+  PageData,
+  PageHeading,
+  PageImage,
+  PageLink,
+  PageMetadata,
+  PageTable,
+} from '../shared/types';
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Default limit for links, images and tables
+ */
+export const DEFAULT_MAX_ITEMS = 500;
+
+/**
+ * Collapse whitespace runs and trim
+ */
+export const normalizeWhitespace = (text: string | null | undefined): string =>
+  (text ?? '').replace(/\s+/g, ' ').trim();
+
+const textOf = (element: Element): string => normalizeWhitespace(element.textContent);
+
+const attributeOrNull = (element: Element | null, name: string): string | null => {
+  const value = element?.getAttribute(name);
+  return value ? value.trim() : null;
+};
+
+/**
+ * Decide which extractors run. Unlisted extractors are enabled.
+ */
+export const resolveExtractors = (options: ExtractionOptions = {}): ExtractorName[] =>
+  (Object.keys(EXTRACTORS) as ExtractorName[]).filter(
+    (name) => options.extractors?.[name] !== false
+  );
+
+// ============================================================================
+// Metadata
+// ============================================================================
+
+/**
+ * Collect meta tags whose name or property starts with a prefix, e.g. "og:"
+ */
+const collectPrefixedMeta = (doc: Document, prefix: string): Record<string, string> => {
+  const values: Record<string, string> = {};
+  doc.querySelectorAll('meta[property], meta[name]').forEach((meta) => {
+    const key = meta.getAttribute('property') ?? meta.getAttribute('name') ?? '';
+    const content = meta.getAttribute('content');
+    if (key.toLowerCase().startsWith(prefix) && content) {
+      const name = key.slice(prefix.length);
+      // Keep the first value, e.g. the primary og:image
+      if (!(name in values)) values[name] = content.trim();
+    }
+  });
+  return values;
+};
+
+const extractMetadata = (doc: Document): PageMetadata => {
+  const canonical = doc.querySelector<HTMLLinkElement>('link[rel~="canonical"][href]');
+  return {
+    description: attributeOrNull(doc.querySelector('meta[name="description" i]'), 'content'),
+    // The href property is already resolved against the document URL
+    canonicalUrl: canonical?.href || null,
+    language: doc.documentElement.lang || null,
+    openGraph: collectPrefixedMeta(doc, 'og:'),
+    twitter: collectPrefixedMeta(doc, 'twitter:'),
+  };
+};
+
+const extractHeadings = (doc: Document): PageHeading[] =>
+  Array.from(doc.querySelectorAll('h1, h2, h3, h4, h5, h6'))
+    .map((heading) => ({ level: Number(heading.tagName[1]), text: textOf(heading) }))
+    .filter((heading) => heading.text);
+
+// ============================================================================
+// Structured Data
+// ============================================================================
+
+/**
+ * Parse JSON-LD script contents, skipping invalid blocks.
+ * Top-level arrays are flattened so each entry is one schema.org object.
+ */
+export const parseJsonLd = (sources: string[]): unknown[] => {
+  const blocks: unknown[] = [];
+  for (const source of sources) {
+    try {
+      const parsed: unknown = JSON.parse(source);
+      if (Array.isArray(parsed)) blocks.push(...parsed);
+      else if (parsed !== null) blocks.push(parsed);
+    } catch {
+      // Pages often ship malformed JSON-LD; ignore those blocks
+    }
+  }
+  return blocks;
+};
+
+const extractJsonLd = (doc: Document): unknown[] =>
+  parseJsonLd(
+    Array.from(doc.querySelectorAll('script[type="application/ld+json"]')).map(
+      (script) => script.textContent ?? ''
+    )
+  );
+
+/**
+ * Value of a microdata property element, following the HTML microdata rules
+ */
+const getMicrodataValue = (element: Element): string => {
+  switch (element.tagName) {
+    case 'META':
+      return element.getAttribute('content') ?? '';
+    case 'A':
+    case 'AREA':
+    case 'LINK':
+      return (element as HTMLAnchorElement).href ?? '';
+    case 'AUDIO':
+    case 'EMBED':
+    case 'IFRAME':
+    case 'IMG':
+    case 'SOURCE':
+    case 'TRACK':
+    case 'VIDEO':
+      return (element as HTMLImageElement).src ?? '';
+    case 'OBJECT':
+      return (element as HTMLObjectElement).data ?? '';
+    case 'DATA':
+    case 'METER':
+      return element.getAttribute('value') ?? '';
+    case 'TIME':
+      return element.getAttribute('datetime') ?? textOf(element);
+    default:
+      return textOf(element);
+  }
+};
+
+const parseMicrodataItem = (scope: Element): MicrodataItem => {
+  const item: MicrodataItem = {
+    type: attributeOrNull(scope, 'itemtype'),
+    id: attributeOrNull(scope, 'itemid'),
+    properties: {},
+  };
+
+  // Walk descendants, stopping at nested items: their properties belong to them
+  const visit = (element: Element): void => {
+    for (const child of Array.from(element.children)) {
+      const names = (child.getAttribute('itemprop') ?? '').split(/\s+/).filter(Boolean);
+      const isScope = child.hasAttribute('itemscope');
+      if (names.length > 0) {
+        const value = isScope ? parseMicrodataItem(child) : getMicrodataValue(child);
+        for (const name of names) {
+          (item.properties[name] ??= []).push(value);
+        }
+      }
+      if (!isScope) visit(child);
+    }
+  };
+  visit(scope);
+  return item;
+};
+
+const extractMicrodata = (doc: Document): MicrodataItem[] =>
+  Array.from(doc.querySelectorAll('[itemscope]:not([itemprop])')).map(parseMicrodataItem);
+
+// ============================================================================
+// Tables, Links and Images
+// ============================================================================
+
+const extractTable = (table: HTMLTableElement): PageTable => {
+  // Rows of nested tables belong to those tables
+  const rows = Array.from(table.rows).filter((row) => row.closest('table') === table);
+  const toCells = (row: HTMLTableRowElement): string[] =>
+    Array.from(row.cells).flatMap((cell) => Array(Math.max(1, cell.colSpan)).fill(textOf(cell)));
+
+  let headerRow = table.tHead?.rows[0];
+  if (!headerRow && rows[0] && Array.from(rows[0].cells).every((cell) => cell.tagName === 'TH')) {
+    headerRow = rows[0];
+  }
+
+  return {
+    caption: table.caption ? textOf(table.caption) : null,
+    headers: headerRow ? toCells(headerRow) : [],
+    rows: rows
+      .filter((row) => row !== headerRow && row.parentElement !== table.tHead)
+      .map(toCells)
+      .filter((cells) => cells.some(Boolean)),
+  };
+};
+
+const extractTables = (doc: Document, maxItems: number): PageTable[] =>
+  Array.from(doc.querySelectorAll('table'))
+    .map(extractTable)
+    .filter((table) => table.rows.length > 0)
+    .slice(0, maxItems);
+
+const extractLinks = (doc: Document, maxItems: number): PageLink[] => {
+  const seen = new Set<string>();
+  const links: PageLink[] = [];
+  for (const anchor of Array.from(doc.querySelectorAll<HTMLAnchorElement>('a[href]'))) {
+    if (links.length >= maxItems) break;
+    const href = anchor.href;
+    if (!/^https?:/i.test(href)) continue;
+    const text = textOf(anchor) || normalizeWhitespace(anchor.getAttribute('aria-label'));
+    const key = `${href}\n${text}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    links.push({ href, text, rel: attributeOrNull(anchor, 'rel') });
+  }
+  return links;
+};
+
+const extractImages = (doc: Document, maxItems: number): PageImage[] => {
+  const seen = new Set<string>();
+  const images: PageImage[] = [];
+  for (const image of Array.from(doc.images)) {
+    if (images.length >= maxItems) break;
+    const src = image.currentSrc || image.src;
+    if (!src || src.startsWith('data:') || seen.has(src)) continue;
+    seen.add(src);
+    images.push({
+      src,
+      alt: normalizeWhitespace(image.alt),
+      width: image.naturalWidth || null,
+      height: image.naturalHeight || null,
+    });
+  }
+  return images;
+};
+
+// ============================================================================
+// Main Content
+// ============================================================================
+
+const POSITIVE_HINTS = /article|body|content|entry|main|page|post|story|text/i;
+const NEGATIVE_HINTS =
+  /ad-|advert|banner|comment|footer|header|menu|meta|nav|promo|related|share|sidebar|social|sponsor|widget/i;
+
+/**
+ * Elements that never contain main content
+ */
+const NON_CONTENT_SELECTOR =
+  'script, style, noscript, template, nav, aside, footer, header, form, iframe, svg, button';
+
+/**
+ * Score an element's class and id: positive for content-like names,
+ * negative for boilerplate such as sidebars and comments
+ */
+export const scoreClassAndId = (className: string, id: string): number => {
+  let score = 0;
+  for (const value of [className, id]) {
+    if (!value) continue;
+    if (NEGATIVE_HINTS.test(value)) score -= 25;
+    if (POSITIVE_HINTS.test(value)) score += 25;
+  }
+  return score;
+};
+
+/**
+ * Score a paragraph by how much prose it contains
+ */
+export const scoreParagraph = (text: string): number => {
+  if (text.length < 25) return 0;
+  return 1 + text.split(',').length + Math.min(Math.floor(text.length / 100), 3);
+};
+
+const getLinkDensity = (element: Element): number => {
+  const textLength = textOf(element).length;
+  if (textLength === 0) return 0;
+  const linkLength = Array.from(element.querySelectorAll('a')).reduce(
+    (total, link) => total + textOf(link).length,
+    0
+  );
+  return linkLength / textLength;
+};
+
+/**
+ * Collect readable text from a container, one paragraph per block
+ */
+const collectParagraphs = (container: Element): string[] =>
+  Array.from(container.querySelectorAll('p, pre, blockquote, li, h2, h3, h4, td'))
+    .filter((block) => !block.closest(NON_CONTENT_SELECTOR))
+    // Skip blocks nested in another collected block to avoid duplicates
+    .filter((block) => !block.parentElement?.closest('p, pre, blockquote, li'))
+    .map(textOf)
+    .filter(Boolean);
+
+/**
+ * Find the element most likely to hold the main article, readability-style:
+ * paragraphs award points to their parent and grandparent, and candidates are
+ * adjusted by class/id hints and penalized for link-heavy content.
+ */
+const findMainContainer = (doc: Document): Element | null => {
+  const scores = new Map<Element, number>();
+  const addScore = (element: Element | null, points: number): void => {
+    if (!element || element === doc.documentElement) return;
+    if (!scores.has(element)) {
+      scores.set(element, scoreClassAndId(element.className.toString(), element.id));
+    }
+    scores.set(element, (scores.get(element) ?? 0) + points);
+  };
+
+  doc.querySelectorAll('p, pre, td').forEach((paragraph) => {
+    if (paragraph.closest(NON_CONTENT_SELECTOR)) return;
+    const points = scoreParagraph(textOf(paragraph));
+    if (points === 0) return;
+    addScore(paragraph.parentElement, points);
+    addScore(paragraph.parentElement?.parentElement ?? null, points / 2);
+  });
+
+  let best: Element | null = null;
+  let bestScore = 0;
+  for (const [element, score] of scores) {
+    const adjusted = score * (1 - getLinkDensity(element));
+    if (adjusted > bestScore) {
+      best = element;
+      bestScore = adjusted;
+    }
+  }
+
+  // Prefer explicit landmarks when they contain the winning candidate
+  const landmark = best?.closest('article, main, [role="main"]');
+  return landmark ?? best;
+};
+
+const extractMainContent = (doc: Document): MainContent | null => {
+  const container = findMainContainer(doc);
+  if (!container) return null;
+  const paragraphs = collectParagraphs(container);
+  const text = paragraphs.join('\n\n');
+  if (!text) return null;
+  return {
+    text,
+    wordCount: text.split(/\s+/).filter(Boolean).length,
+    excerpt: paragraphs.find((paragraph) => paragraph.length >= 80) ?? paragraphs[0],
+  };
+};
+
+// ============================================================================
+// Engine
+// ============================================================================
+
+type ExtractorResults = Required<Omit<PageData, 'version' | 'url' | 'title' | 'extractedAt'>>;
+
+/**
+ * Every extractor, keyed by the PageData field it fills
+ */
+const EXTRACTORS: {
+  [K in ExtractorName]: (doc: Document, maxItems: number) => ExtractorResults[K];
+} = {
+  metadata: extractMetadata,
+  headings: extractHeadings,
+  jsonLd: extractJsonLd,
+  microdata: extractMicrodata,
+  tables: extractTables,
+  links: extractLinks,
+  images: extractImages,
+  mainContent: extractMainContent,
+};
+
+/**
+ * Extract structured data from a document
+ */
+export const extractPageData = (
+  options: ExtractionOptions = {},
+  doc: Document = document
+): PageData => {
+  const maxItems = options.maxItems ?? DEFAULT_MAX_ITEMS;
+  const data: PageData = {
+    version: PAGE_DATA_VERSION,
+    url: doc.location?.href ?? doc.URL,
+    title: normalizeWhitespace(doc.title),
+    extractedAt: Date.now(),
+  };
+  const errors: Partial<Record<ExtractorName, string>> = {};
+
+  for (const name of resolveExtractors(options)) {
+    try {
+      // Each extractor's result type matches the PageData field of the same name
+      (data as unknown as Record<ExtractorName, unknown>)[name] = EXTRACTORS[name](doc, maxItems);
+    } catch (error) {
+      console.warn(`[Extension] Extractor "${name}" failed:`, error);
+      errors[name] = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  if (Object.keys(errors).length > 0) data.errors = errors;
+  return data;
+};
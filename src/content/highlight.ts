@@ -0,0 +1,464 @@
+/**
+ * Page highlighting
+ *
+ * Highlights elements matching a CSS selector, or text matching a literal
+ * string or regular expression. Text is matched against the concatenated
+ * contents of the page's text nodes, so a match like "foo bar" is found even
+ * when the page renders it as `foo <b>bar</b>`; each match is then wrapped in
+ * one <mark> per text node it touches.
+ *
+ * While highlights are shown, a MutationObserver marks content the page adds
+ * or changes later. Only the changed subtrees are searched again, so a match
+ * spanning old and new content is not found.
+ */
+
+import { HighlightQuery, HighlightResult } from '../shared/types';
+import { injectStyle } from './dom';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const MARK_CLASS = 'ext-highlight';
+const ACTIVE_CLASS = 'ext-highlight-active';
+const ELEMENT_ATTRIBUTE = 'data-ext-highlight';
+
+/**
+ * Matching stops after this many matches to keep huge pages responsive
+ */
+export const MAX_MATCHES = 1000;
+
+/**
+ * Delay before re-applying highlights after the page changes (ms)
+ */
+const REAPPLY_DELAY_MS = 300;
+
+/**
+ * Text inside these elements is never matched
+ */
+const SKIPPED_TAGS = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEXTAREA', 'TEMPLATE', 'SELECT']);
+
+const HIGHLIGHT_CSS = `
+  mark.${MARK_CLASS} {
+    background: #fde047;
+    color: inherit;
+    padding: 0;
+    border-radius: 2px;
+  }
+  [${ELEMENT_ATTRIBUTE}] {
+    outline: 2px solid #facc15 !important;
+    outline-offset: 2px;
+  }
+  mark.${MARK_CLASS}.${ACTIVE_CLASS} {
+    background: #fb923c;
+  }
+  [${ELEMENT_ATTRIBUTE}].${ACTIVE_CLASS} {
+    outline-color: #f97316 !important;
+  }
+`;
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+/**
+ * Part of a match that falls inside a single text segment
+ */
+export interface MatchPiece {
+  /** Index of the segment (text node) */
+  segment: number;
+  start: number;
+  end: number;
+}
+
+/**
+ * Build the global regular expression for a text or pattern query.
+ * Throws if the query is empty or the pattern is invalid.
+ */
+export const buildMatcher = (query: Exclude<HighlightQuery, { selector: string }>): RegExp => {
+  if ('text' in query) {
+    if (!query.text) throw new Error('Highlight text must not be empty');
+    const escaped = query.text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(escaped, query.caseSensitive ? 'g' : 'gi');
+  }
+  if (!query.pattern) throw new Error('Highlight pattern must not be empty');
+  // Always search globally; sticky matching would stop at the first gap
+  const flags = Array.from(new Set(`${query.flags ?? ''}g`.replace(/y/g, ''))).join('');
+  try {
+    return new RegExp(query.pattern, flags);
+  } catch (error) {
+    throw new Error(`Invalid pattern: ${error instanceof Error ? error.message : query.pattern}`);
+  }
+};
+
+/**
+ * Find matches across a list of text segments treated as one string.
+ * Each match is returned as the pieces it covers in each segment.
+ */
+export const findTextMatches = (
+  segments: string[],
+  matcher: RegExp,
+  limit: number = MAX_MATCHES
+): MatchPiece[][] => {
+  const starts: number[] = [];
+  let text = '';
+  for (const segment of segments) {
+    starts.push(text.length);
+    text += segment;
+  }
+
+  const matches: MatchPiece[][] = [];
+  const regex = new RegExp(
+    matcher.source,
+    matcher.flags.includes('g') ? matcher.flags : `${matcher.flags}g`
+  );
+  let segment = 0;
+  let match: RegExpExecArray | null;
+
+  while (matches.length < limit && (match = regex.exec(text)) !== null) {
+    if (match[0].length === 0) {
+      // Skip empty matches such as /x*/ so the search always advances
+      regex.lastIndex++;
+      continue;
+    }
+    const matchStart = match.index;
+    const matchEnd = matchStart + match[0].length;
+
+    // Matches are found in order, so the segment search can resume
+    while (segment < segments.length - 1 && starts[segment + 1] <= matchStart) segment++;
+
+    const pieces: MatchPiece[] = [];
+    for (let i = segment; i < segments.length && starts[i] < matchEnd; i++) {
+      const start = Math.max(matchStart, starts[i]) - starts[i];
+      const end = Math.min(matchEnd, starts[i] + segments[i].length) - starts[i];
+      if (end > start) pieces.push({ segment: i, start, end });
+    }
+    matches.push(pieces);
+  }
+  return matches;
+};
+
+// ============================================================================
+// DOM
+// ============================================================================
+
+/**
+ * Text nodes split off the page's own nodes while marking. Only these are
+ * merged back when unmarking; the page's own text nodes are left alone, since
+ * frameworks keep references to them.
+ */
+const splitNodes = new WeakSet<Text>();
+
+/**
+ * Whether a node is one of our marks or inside one
+ */
+const isInsideMark = (node: Node): boolean => {
+  const element = node instanceof Element ? node : node.parentElement;
+  return element?.closest(`mark.${MARK_CLASS}`) != null;
+};
+
+/**
+ * Whether a text node holds visible content that has not been marked yet
+ */
+const isMatchableText = (node: Node): boolean => {
+  for (let parent = node.parentElement; parent; parent = parent.parentElement) {
+    if (SKIPPED_TAGS.has(parent.tagName)) return false;
+    if (parent.tagName === 'MARK' && parent.classList.contains(MARK_CLASS)) return false;
+  }
+  return Boolean(node.nodeValue);
+};
+
+/**
+ * Collect the matchable text nodes under a root in document order
+ */
+const collectTextNodes = (root: Node): Text[] => {
+  if (root instanceof Text) return isMatchableText(root) ? [root] : [];
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT, {
+    acceptNode: (node) =>
+      isMatchableText(node) ? NodeFilter.FILTER_ACCEPT : NodeFilter.FILTER_SKIP,
+  });
+  const nodes: Text[] = [];
+  while (walker.nextNode()) nodes.push(walker.currentNode as Text);
+  return nodes;
+};
+
+/**
+ * Wrap text matches under a root in <mark> elements and return the marks of
+ * each match. Matches do not extend past the root.
+ */
+const markTextMatches = (matcher: RegExp, root: Node, limit: number): HTMLElement[][] => {
+  const nodes = collectTextNodes(root);
+  const matches = findTextMatches(
+    nodes.map((node) => node.nodeValue ?? ''),
+    matcher,
+    limit
+  );
+
+  // Wrap from the end so that earlier offsets in the same node stay valid
+  const marked: HTMLElement[][] = matches.map(() => []);
+  for (let m = matches.length - 1; m >= 0; m--) {
+    for (let p = matches[m].length - 1; p >= 0; p--) {
+      const { segment, start, end } = matches[m][p];
+      // The page's node keeps the text before the match
+      const text = nodes[segment].splitText(start);
+      const rest = text.splitText(end - start);
+      splitNodes.add(text);
+      splitNodes.add(rest);
+      const mark = document.createElement('mark');
+      mark.className = MARK_CLASS;
+      text.parentNode?.insertBefore(mark, text);
+      mark.appendChild(text);
+      marked[m].unshift(mark);
+    }
+  }
+  return marked;
+};
+
+/**
+ * Flag elements matching a selector under a root, including the root itself
+ */
+const markElements = (selector: string, root: Node, limit: number): HTMLElement[][] => {
+  let elements: Element[] = [];
+  try {
+    if (root instanceof Element) {
+      elements = [...(root.matches(selector) ? [root] : []), ...root.querySelectorAll(selector)];
+    } else if (root instanceof Document) {
+      elements = Array.from(root.querySelectorAll(selector));
+    }
+  } catch {
+    throw new Error(`Invalid selector: ${selector}`);
+  }
+  return elements
+    .filter(
+      (element): element is HTMLElement =>
+        element instanceof HTMLElement && !element.hasAttribute(ELEMENT_ATTRIBUTE)
+    )
+    .slice(0, limit)
+    .map((element) => {
+      element.setAttribute(ELEMENT_ATTRIBUTE, '');
+      return [element];
+    });
+};
+
+/**
+ * Join the text nodes split off by marking back into the node they came from
+ */
+const mergeSplitText = (node: Node): void => {
+  let head = node;
+  while (head instanceof Text && splitNodes.has(head) && head.previousSibling instanceof Text) {
+    head = head.previousSibling;
+  }
+  if (!(head instanceof Text)) return;
+  for (
+    let next = head.nextSibling;
+    next instanceof Text && splitNodes.has(next);
+    next = head.nextSibling
+  ) {
+    head.appendData(next.data);
+    next.remove();
+  }
+};
+
+/**
+ * Remove every mark and element flag from the page
+ */
+const unmarkAll = (): void => {
+  document.querySelectorAll(`mark.${MARK_CLASS}`).forEach((mark) => {
+    const parent = mark.parentNode;
+    if (!parent) return;
+    const first = mark.firstChild;
+    while (mark.firstChild) parent.insertBefore(mark.firstChild, mark);
+    mark.remove();
+    if (first) mergeSplitText(first);
+  });
+
+  document.querySelectorAll(`[${ELEMENT_ATTRIBUTE}]`).forEach((element) => {
+    element.removeAttribute(ELEMENT_ATTRIBUTE);
+    element.classList.remove(ACTIVE_CLASS);
+  });
+};
+
+// ============================================================================
+// State
+// ============================================================================
+
+interface HighlightState {
+  query: HighlightQuery;
+  matches: HTMLElement[][];
+  index: number;
+  style: HTMLStyleElement;
+  observer: MutationObserver;
+  /** Nodes the page added or changed since the last re-apply */
+  pendingRoots: Set<Node>;
+  reapplyTimer?: ReturnType<typeof setTimeout>;
+}
+
+let state: HighlightState | null = null;
+
+const toResult = (): HighlightResult => ({
+  count: state?.matches.length ?? 0,
+  index: state?.index ?? -1,
+  truncated: (state?.matches.length ?? 0) >= MAX_MATCHES,
+});
+
+const applyQuery = (
+  query: HighlightQuery,
+  root: Node = 'selector' in query ? document : document.body,
+  limit: number = MAX_MATCHES
+): HTMLElement[][] => {
+  return 'selector' in query
+    ? markElements(query.selector, root, limit)
+    : markTextMatches(buildMatcher(query), root, limit);
+};
+
+/**
+ * Order matches as they appear in the document
+ */
+const byDocumentOrder = (a: HTMLElement[], b: HTMLElement[]): number =>
+  a[0].compareDocumentPosition(b[0]) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1;
+
+/**
+ * Mark the active match and optionally scroll it into view
+ */
+const activate = (index: number, scroll: boolean): void => {
+  if (!state) return;
+  state.matches[state.index]?.forEach((part) => part.classList.remove(ACTIVE_CLASS));
+  state.index = index;
+  const parts = state.matches[index] ?? [];
+  parts.forEach((part) => part.classList.add(ACTIVE_CLASS));
+  if (scroll) parts[0]?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+};
+
+/**
+ * Run a DOM update without the observer seeing our own changes
+ */
+const withoutObserver = <T>(update: () => T): T => {
+  state?.observer.disconnect();
+  try {
+    return update();
+  } finally {
+    state?.observer.takeRecords();
+    state?.observer.observe(document.body, { childList: true, subtree: true, characterData: true });
+  }
+};
+
+/**
+ * Note the page's own changes for the next re-apply. Changes inside our marks
+ * are skipped, since the text there has been matched already.
+ */
+const collectChanges = (records: MutationRecord[]): void => {
+  if (!state) return;
+  let changed = false;
+  for (const record of records) {
+    if (isInsideMark(record.target)) continue;
+    changed = true;
+    if (record.type === 'characterData') state.pendingRoots.add(record.target);
+    record.addedNodes.forEach((node) => state?.pendingRoots.add(node));
+  }
+  if (changed && state.reapplyTimer === undefined) {
+    state.reapplyTimer = setTimeout(reapply, REAPPLY_DELAY_MS);
+  }
+};
+
+/**
+ * Drop matches the page removed and mark the content it added or changed,
+ * keeping the active match where it still exists
+ */
+const reapply = (): void => {
+  if (!state) return;
+  const current = state;
+  current.reapplyTimer = undefined;
+  const pending = Array.from(current.pendingRoots).filter(
+    (root) => root.isConnected && !isInsideMark(root)
+  );
+  current.pendingRoots.clear();
+  // Nested roots are covered by the outermost one
+  const roots = pending.filter(
+    (root) => !pending.some((other) => other !== root && other.contains(root))
+  );
+
+  const previous = current.index;
+  const active = current.matches[previous];
+  active?.forEach((part) => part.classList.remove(ACTIVE_CLASS));
+  withoutObserver(() => {
+    const matches = current.matches.filter((parts) => parts.every((part) => part.isConnected));
+    for (const root of roots) {
+      if (matches.length >= MAX_MATCHES) break;
+      matches.push(...applyQuery(current.query, root, MAX_MATCHES - matches.length));
+    }
+    current.matches = matches.sort(byDocumentOrder);
+  });
+  const index = active ? current.matches.indexOf(active) : -1;
+  current.index = -1;
+  activate(index >= 0 ? index : Math.min(previous, current.matches.length - 1), false);
+};
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Highlight everything matching a query, replacing any previous highlights.
+ * The first match becomes active and is scrolled into view.
+ */
+export const highlight = (query: HighlightQuery): HighlightResult => {
+  clearHighlights();
+
+  // Validate the query before touching the page
+  if ('selector' in query) {
+    if (!query.selector) throw new Error('Highlight selector must not be empty');
+  } else {
+    buildMatcher(query);
+  }
+
+  state = {
+    query,
+    matches: [],
+    index: -1,
+    style: injectStyle(HIGHLIGHT_CSS),
+    observer: new MutationObserver(collectChanges),
+    pendingRoots: new Set(),
+  };
+  const current = state;
+
+  try {
+    withoutObserver(() => {
+      current.matches = applyQuery(query);
+    });
+  } catch (error) {
+    clearHighlights();
+    throw error;
+  }
+  if (current.matches.length > 0) activate(0, true);
+  return toResult();
+};
+
+/**
+ * Move the active highlight, wrapping around at either end
+ */
+export const stepHighlight = (direction: 'next' | 'previous'): HighlightResult => {
+  if (state && state.matches.length > 0) {
+    const count = state.matches.length;
+    const delta = direction === 'next' ? 1 : -1;
+    activate((state.index + delta + count) % count, true);
+  }
+  return toResult();
+};
+
+/**
+ * Remove all highlights and stop watching the page
+ */
+export const clearHighlights = (): void => {
+  if (!state) return;
+  const current = state;
+  state = null;
+  current.observer.disconnect();
+  clearTimeout(current.reapplyTimer);
+  unmarkAll();
+  current.style.remove();
+};
+
+/**
+ * Current highlight state
+ */
+export const getHighlightState = (): HighlightResult => toResult();
@@ -0,0 +1,103 @@
+/**
+ * SPA navigation detection
+ *
+ * Single-page apps route on the client: they change the URL through the
+ * History API and update the title without loading a new document, so the
+ * content script is not run again. This watches for those logical
+ * navigations and reports each one once the URL and title have settled.
+ *
+ * Content scripts run in an isolated world, where patching history.pushState
+ * would only see calls made by the content script itself. The page's
+ * pushState and replaceState calls are caught through the Navigation API's
+ * currententrychange event instead, with URL polling where that API is
+ * missing. popstate and hashchange are watched as well, and title changes
+ * through a MutationObserver on <head>.
+ */
+
+import { DisposableRegistry, Disposer } from './disposables';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Where the page is, as far as the user can tell
+ */
+export interface PageLocation {
+  url: string;
+  title: string;
+}
+
+export interface NavigationWatcherOptions {
+  /** How long to wait for the URL and title to settle after a change (ms, default 100) */
+  settleMs?: number;
+  /** URL polling interval without the Navigation API (ms, default 1000) */
+  pollMs?: number;
+}
+
+// ============================================================================
+// Watcher
+// ============================================================================
+
+/**
+ * Current URL and title of the page
+ */
+export const getPageLocation = (): PageLocation => ({
+  url: window.location.href,
+  title: document.title,
+});
+
+/**
+ * Call back after each logical navigation, i.e. whenever the URL or title
+ * changes without a new document being loaded. Everything set up is owned
+ * by the registry; the returned disposer stops watching early.
+ */
+export const watchNavigation = (
+  registry: DisposableRegistry,
+  onNavigate: (page: PageLocation, previous: PageLocation) => void,
+  options: NavigationWatcherOptions = {}
+): Disposer => {
+  const { settleMs = 100, pollMs = 1000 } = options;
+  const watcher = registry.child();
+  let current = getPageLocation();
+  let pending = false;
+
+  const report = () => {
+    pending = false;
+    const next = getPageLocation();
+    if (next.url === current.url && next.title === current.title) return;
+    const previous = current;
+    current = next;
+    onNavigate(next, previous);
+  };
+
+  // Routers usually set the title shortly after the URL. Waiting a moment
+  // after the first change reports both as one navigation.
+  const check = () => {
+    if (pending) return;
+    const next = getPageLocation();
+    if (next.url === current.url && next.title === current.title) return;
+    pending = true;
+    watcher.timeout(report, settleMs);
+  };
+
+  const navigation = (window as unknown as { navigation?: EventTarget }).navigation;
+  if (navigation) {
+    watcher.listen(navigation, 'currententrychange', check);
+  } else {
+    watcher.interval(check, pollMs);
+  }
+  watcher.listen(window, 'popstate', check);
+  watcher.listen(window, 'hashchange', check);
+
+  // The title element's text can change, or the element can be replaced
+  const titleObserver = new MutationObserver(check);
+  titleObserver.observe(document.head ?? document.documentElement, {
+    childList: true,
+    subtree: true,
+    characterData: true,
+  });
+  watcher.observer(titleObserver);
+
+  return watcher.flush;
+};
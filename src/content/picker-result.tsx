@@ -0,0 +1,96 @@
+/**
+ * Picker result panel
+ *
+ * Shows the selectors of a picked element in a widget on the page, with
+ * buttons to copy them. Used when the picker was started from the popup or
+ * the keyboard shortcut, which cannot show the result themselves.
+ */
+
+import { useState } from 'react';
+import { PickedElement } from '../shared/types';
+import { WidgetControls, WidgetHost, createWidgetHost } from './widget';
+
+// ============================================================================
+// Components
+// ============================================================================
+
+interface CopyFieldProps {
+  label: string;
+  value: string;
+}
+
+const CopyField = ({ label, value }: CopyFieldProps) => {
+  const [copied, setCopied] = useState(false);
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(value);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (error) {
+      console.error('[Extension] Failed to copy to the clipboard:', error);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between text-xs text-gray-500">
+        <span>{label}</span>
+        <button onClick={copy} className="text-primary-600 hover:text-primary-700">
+          {copied ? 'Copied' : 'Copy'}
+        </button>
+      </div>
+      <code className="block mt-1 p-2 rounded bg-gray-50 text-xs font-mono break-all">{value}</code>
+    </div>
+  );
+};
+
+interface PickerResultProps {
+  picked: PickedElement;
+  controls: WidgetControls;
+}
+
+const PickerResult = ({ picked, controls }: PickerResultProps) => (
+  <div className="w-80 rounded-lg bg-white shadow-lg border border-gray-200">
+    <div className="flex items-center border-b border-gray-100">
+      {/* The close button stays outside the drag handle so clicks reach it */}
+      <span className="flex-1 px-3 py-2 font-medium cursor-move" {...controls.dragHandleProps}>
+        Picked &lt;{picked.tagName}&gt;
+      </span>
+      <button
+        onClick={controls.close}
+        className="px-3 py-2 text-gray-400 hover:text-gray-600"
+        aria-label="Close"
+      >
+        ×
+      </button>
+    </div>
+    <div className="p-3 space-y-2">
+      <CopyField label="CSS selector" value={picked.selector} />
+      <CopyField label="XPath" value={picked.xpath} />
+    </div>
+  </div>
+);
+
+// ============================================================================
+// Widget
+// ============================================================================
+
+let host: WidgetHost | null = null;
+
+/**
+ * Show a picked element's selectors, replacing a panel that is still open
+ */
+export const showPickerResult = (picked: PickedElement): void => {
+  host?.destroy();
+  const current = createWidgetHost({
+    id: 'picker-result',
+    render: (controls) => <PickerResult picked={picked} controls={controls} />,
+    onClose: () => {
+      current.destroy();
+      if (host === current) host = null;
+    },
+  });
+  host = current;
+  current.open();
+};
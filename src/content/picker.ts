@@ -0,0 +1,220 @@
+/**
+ * Element picker
+ *
+ * An interactive mode for choosing an element on the page. An outline
+ * follows the element under the pointer and a click picks it. The keyboard
+ * moves the selection through the tree:
+ *
+ * - ArrowUp / ArrowDown: parent / child (retracing the way up first)
+ * - ArrowLeft / ArrowRight: previous / next sibling
+ * - Enter picks the selected element, Escape cancels
+ *
+ * While picking, pointer events are kept from the page, so picking a link or
+ * a button does not activate it.
+ */
+
+import { PickElementOptions, PickedElement } from '../shared/types';
+import { createDisposableRegistry } from './disposables';
+import { getUniqueSelector, getXPath } from './selectors';
+import { showPickerResult } from './picker-result';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const OVERLAY_CLASS = 'ext-picker-overlay';
+const LABEL_CLASS = 'ext-picker-label';
+
+/**
+ * Characters of text content included in a picked element's description
+ */
+const MAX_TEXT_LENGTH = 100;
+
+/**
+ * Pointer events the page must not see while picking
+ */
+const BLOCKED_EVENTS = ['pointerdown', 'pointerup', 'mousedown', 'mouseup', 'dblclick'];
+
+const PICKER_CSS = `
+  .${OVERLAY_CLASS} {
+    position: fixed !important;
+    z-index: 2147483647 !important;
+    pointer-events: none !important;
+    box-sizing: border-box !important;
+    border: 2px solid #2563eb !important;
+    background: rgba(59, 130, 246, 0.15) !important;
+    transition: all 50ms ease-out;
+  }
+  .${LABEL_CLASS} {
+    position: absolute !important;
+    left: -2px;
+    bottom: 100%;
+    max-width: 400px;
+    overflow: hidden;
+    white-space: nowrap;
+    text-overflow: ellipsis;
+    padding: 2px 6px;
+    border-radius: 3px 3px 0 0;
+    background: #2563eb;
+    color: #fff;
+    font: 12px/1.4 ui-monospace, SFMono-Regular, Menlo, monospace;
+  }
+`;
+
+// ============================================================================
+// Descriptions
+// ============================================================================
+
+/**
+ * Describe a picked element for the caller
+ */
+export const describeElement = (element: Element): PickedElement => ({
+  selector: getUniqueSelector(element),
+  xpath: getXPath(element),
+  tagName: element.tagName.toLowerCase(),
+  text: (element.textContent ?? '').replace(/\s+/g, ' ').trim().slice(0, MAX_TEXT_LENGTH),
+});
+
+/**
+ * Short label for the outline: tag, id and first classes
+ */
+const getLabel = (element: Element): string => {
+  const id = element.id ? `#${element.id}` : '';
+  const classes = Array.from(element.classList)
+    .slice(0, 2)
+    .map((className) => `.${className}`)
+    .join('');
+  return `${element.tagName.toLowerCase()}${id}${classes}`;
+};
+
+// ============================================================================
+// Picker
+// ============================================================================
+
+// Cancels the running picker, if any
+let cancelActive: (() => void) | null = null;
+
+/**
+ * Start the picker. Resolves with the picked element, or null if the picker
+ * is cancelled. Starting a new picker cancels the running one.
+ */
+export const pickElement = (options: PickElementOptions = {}): Promise<PickedElement | null> => {
+  cancelActive?.();
+
+  return new Promise((resolve) => {
+    const registry = createDisposableRegistry();
+    registry.style(PICKER_CSS);
+    const overlay = registry.element(document.createElement('div'));
+    overlay.className = OVERLAY_CLASS;
+    overlay.style.display = 'none';
+    const label = document.createElement('div');
+    label.className = LABEL_CLASS;
+    overlay.appendChild(label);
+    document.documentElement.appendChild(overlay);
+
+    let selected: Element | null = null;
+    // Elements left on the way up, so ArrowDown can go back down the same way
+    let trail: Element[] = [];
+
+    const render = () => {
+      if (!selected) return;
+      const rect = selected.getBoundingClientRect();
+      Object.assign(overlay.style, {
+        display: 'block',
+        top: `${rect.top}px`,
+        left: `${rect.left}px`,
+        width: `${rect.width}px`,
+        height: `${rect.height}px`,
+      });
+      label.textContent = getLabel(selected);
+    };
+
+    const select = (element: Element | null, keepTrail = false) => {
+      if (!element || overlay.contains(element)) return;
+      if (!keepTrail) trail = [];
+      selected = element;
+      render();
+    };
+
+    const finish = (element: Element | null) => {
+      registry.flush();
+      cancelActive = null;
+      const picked = element ? describeElement(element) : null;
+      if (picked && options.showResult) showPickerResult(picked);
+      resolve(picked);
+    };
+
+    const block = (event: Event) => {
+      event.preventDefault();
+      event.stopImmediatePropagation();
+    };
+
+    const handleKey = (event: KeyboardEvent) => {
+      switch (event.key) {
+        case 'Escape':
+          finish(null);
+          break;
+        case 'Enter':
+          if (!selected) return;
+          finish(selected);
+          break;
+        case 'ArrowUp': {
+          const parent = selected?.parentElement;
+          // Stop at <body>; the document element is never useful to pick
+          if (!selected || !parent || parent === document.documentElement) break;
+          trail.push(selected);
+          select(parent, true);
+          break;
+        }
+        case 'ArrowDown':
+          select(trail.pop() ?? selected?.firstElementChild ?? null, true);
+          break;
+        case 'ArrowLeft':
+          select(selected?.previousElementSibling ?? null);
+          break;
+        case 'ArrowRight':
+          select(selected?.nextElementSibling ?? null);
+          break;
+        default:
+          // Leave other keys to the page
+          return;
+      }
+      block(event);
+    };
+
+    // Listen in the capture phase so the page's own handlers never run
+    for (const type of BLOCKED_EVENTS) {
+      registry.listen(document, type, block, true);
+    }
+    registry.listen<MouseEvent>(
+      document,
+      'mousemove',
+      (event) => {
+        if (event.target instanceof Element) select(event.target);
+      },
+      true
+    );
+    registry.listen<MouseEvent>(
+      document,
+      'click',
+      (event) => {
+        block(event);
+        if (event.target instanceof Element) select(event.target);
+        finish(selected);
+      },
+      true
+    );
+    registry.listen<KeyboardEvent>(document, 'keydown', handleKey, true);
+    registry.listen(window, 'scroll', render, true);
+    registry.listen(window, 'resize', render);
+
+    cancelActive = () => finish(null);
+  });
+};
+
+/**
+ * Cancel the running picker, if any
+ */
+export const cancelPicker = (): void => {
+  cancelActive?.();
+};
@@ -0,0 +1,184 @@
+/**
+ * Selector generation
+ *
+ * Builds a CSS selector that matches exactly one element, preferring what is
+ * least likely to change when the page is updated: hand-written ids, test
+ * attributes and names, then tag names and classes, and sibling positions
+ * only as a last resort. The selector is kept minimal by growing it one
+ * ancestor at a time until it is unique. An XPath is built alongside as a
+ * fallback for tools that take one.
+ *
+ * Elements inside shadow roots are not supported: document-level queries do
+ * not reach them.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SelectorOptions {
+  /**
+   * Count the elements in the document matching a selector. Defaults to
+   * querySelectorAll on the element's document.
+   */
+  countMatches?: (selector: string) => number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Attributes added for tests, which are usually kept stable on purpose
+ */
+const TEST_ATTRIBUTES = ['data-testid', 'data-test-id', 'data-test', 'data-qa', 'data-cy'];
+
+/**
+ * Attributes that describe an element and rarely change
+ */
+const NAME_ATTRIBUTES = ['name', 'aria-label'];
+
+/**
+ * Prefixes of class names generated by CSS-in-JS libraries
+ */
+const GENERATED_PREFIXES = /^(css|sc|jsx|emotion|svelte|styled)-/;
+
+const HTML_NAMESPACE = 'http://www.w3.org/1999/xhtml';
+
+// ============================================================================
+// Names
+// ============================================================================
+
+/**
+ * Whether an id or class name looks hand-written rather than generated by a
+ * framework or build tool (hashes, counters, CSS modules, React ids, ...)
+ */
+export const isStableName = (name: string): boolean => {
+  if (!/^[A-Za-z_][\w-]*$/.test(name) || name.length > 40) return false;
+  if (GENERATED_PREFIXES.test(name) || /\d{3,}/.test(name)) return false;
+  // Hashes mix letters and digits, e.g. "button_primary__3Fk2a"
+  return !name
+    .split(/[-_]+/)
+    .some((part) => part.length >= 5 && /\d/.test(part) && /[A-Za-z]/.test(part));
+};
+
+/**
+ * Quote a value for use in an attribute selector
+ */
+const quote = (value: string): string => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+const getTag = (element: Element): string => element.tagName.toLowerCase();
+
+const getStableClasses = (element: Element): string[] =>
+  Array.from(element.classList).filter(isStableName);
+
+const getElementSiblings = (element: Element): Element[] =>
+  element.parentElement ? Array.from(element.parentElement.children) : [element];
+
+// ============================================================================
+// CSS Selectors
+// ============================================================================
+
+/**
+ * Selectors for an element on its own, most robust first
+ */
+export const getSelectorCandidates = (element: Element): string[] => {
+  const tag = getTag(element);
+  const candidates: string[] = [];
+
+  const id = element.getAttribute('id');
+  if (id && isStableName(id)) candidates.push(`#${id}`);
+
+  for (const attribute of TEST_ATTRIBUTES) {
+    const value = element.getAttribute(attribute);
+    if (value) candidates.push(`[${attribute}=${quote(value)}]`);
+  }
+  for (const attribute of NAME_ATTRIBUTES) {
+    const value = element.getAttribute(attribute);
+    if (value) candidates.push(`${tag}[${attribute}=${quote(value)}]`);
+  }
+
+  candidates.push(tag);
+  const classes = getStableClasses(element).slice(0, 3);
+  for (const className of classes) {
+    candidates.push(`${tag}.${className}`);
+  }
+  if (classes.length > 1) {
+    candidates.push(`${tag}.${classes.join('.')}`);
+  }
+  return candidates;
+};
+
+/**
+ * Selector that tells an element apart from its siblings, used for the steps
+ * between a selector's anchor and the target
+ */
+const getStepSelector = (element: Element): string => {
+  const tag = getTag(element);
+  const siblings = getElementSiblings(element).filter((sibling) => getTag(sibling) === tag);
+  if (siblings.length === 1) return tag;
+
+  const classes = getStableClasses(element);
+  const distinct = classes.find((className) =>
+    siblings.every((sibling) => sibling === element || !sibling.classList.contains(className))
+  );
+  if (distinct) return `${tag}.${distinct}`;
+
+  return `${tag}:nth-of-type(${siblings.indexOf(element) + 1})`;
+};
+
+/**
+ * Build the shortest robust CSS selector matching only this element
+ */
+export const getUniqueSelector = (element: Element, options: SelectorOptions = {}): string => {
+  const {
+    countMatches = (selector: string) => element.ownerDocument.querySelectorAll(selector).length,
+  } = options;
+  const isUnique = (selector: string): boolean => {
+    try {
+      return countMatches(selector) === 1;
+    } catch {
+      // Attribute values from the page can still make a selector invalid
+      return false;
+    }
+  };
+
+  const steps: string[] = [];
+  for (let current: Element | null = element; current; current = current.parentElement) {
+    for (const candidate of getSelectorCandidates(current)) {
+      const selector = [candidate, ...steps].join(' > ');
+      if (isUnique(selector)) return selector;
+    }
+    steps.unshift(getStepSelector(current));
+  }
+  return steps.join(' > ');
+};
+
+// ============================================================================
+// XPath
+// ============================================================================
+
+/**
+ * Build an XPath matching the element, anchored at the nearest ancestor with
+ * a unique, stable id
+ */
+export const getXPath = (element: Element, options: SelectorOptions = {}): string => {
+  const {
+    countMatches = (selector: string) => element.ownerDocument.querySelectorAll(selector).length,
+  } = options;
+  const steps: string[] = [];
+
+  for (let current: Element | null = element; current; current = current.parentElement) {
+    const id = current.getAttribute('id');
+    if (id && isStableName(id) && countMatches(`#${id}`) === 1) {
+      return [`//*[@id="${id}"]`, ...steps].join('/');
+    }
+
+    // Outside HTML (e.g. SVG), names only match with their namespace
+    const tag = getTag(current);
+    const name = current.namespaceURI === HTML_NAMESPACE ? tag : `*[local-name()="${tag}"]`;
+    const siblings = getElementSiblings(current).filter((sibling) => getTag(sibling) === tag);
+    steps.unshift(siblings.length > 1 ? `${name}[${siblings.indexOf(current) + 1}]` : name);
+  }
+  return `/${steps.join('/')}`;
+};
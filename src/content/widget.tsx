@@ -0,0 +1,373 @@
+/**
+ * Widget host
+ *
+ * Mounts React components into the page inside a closed shadow root, with the
+ * extension's compiled CSS injected there, so page styles cannot leak into
+ * widgets and widget styles cannot leak into the page. Widgets are anchored
+ * to a corner of the viewport, can be dragged elsewhere and remember where
+ * they were left on each site.
+ */
+
+import { ReactNode } from 'react';
+import { createRoot, Root } from 'react-dom/client';
+import { STORAGE_KEYS } from '../shared/types';
+import { getLocalStorageValue, setLocalStorageValue } from '../shared/storage';
+import widgetCss from '../styles/widget.css?inline';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type WidgetCorner = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+/**
+ * Widget position, relative to the corner it is anchored to so that it stays
+ * in place when the window is resized
+ */
+export interface WidgetPosition {
+  corner: WidgetCorner;
+  /** Distance from the corner's left or right edge (px) */
+  x: number;
+  /** Distance from the corner's top or bottom edge (px) */
+  y: number;
+}
+
+export interface WidgetSize {
+  width: number;
+  height: number;
+}
+
+export interface WidgetRect extends WidgetSize {
+  left: number;
+  top: number;
+}
+
+/**
+ * Passed to the widget's render function
+ */
+export interface WidgetControls {
+  /** Animate the widget out and unmount it */
+  close: () => void;
+  /** Spread onto the element that starts a drag, e.g. a title bar */
+  dragHandleProps: { onPointerDown: (event: React.PointerEvent<HTMLElement>) => void };
+}
+
+export interface WidgetOptions {
+  /** Unique widget id; positions are remembered under it */
+  id: string;
+  /** Corner to anchor to until the user drags the widget (default bottom-right) */
+  corner?: WidgetCorner;
+  /** Remember where the widget was dragged to on each site (default true) */
+  rememberPosition?: boolean;
+  render: (controls: WidgetControls) => ReactNode;
+  /** Called once the widget has closed and been unmounted */
+  onClose?: () => void;
+}
+
+export interface WidgetHost {
+  /** Mount the widget and animate it in */
+  open: () => void;
+  /** Animate the widget out, then unmount it */
+  close: () => Promise<void>;
+  toggle: () => void;
+  isOpen: () => boolean;
+  /** Remove the widget immediately; it cannot be opened again */
+  destroy: () => void;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const HOST_TAG = 'extension-widget';
+
+// Reset everything the page could style on the host element itself
+const HOST_STYLE = `
+  all: initial !important;
+  position: fixed !important;
+  z-index: 2147483647 !important;
+`;
+
+/**
+ * Default distance from the anchored corner (px)
+ */
+export const DEFAULT_OFFSET = 16;
+
+/**
+ * Must match the transition duration of .ext-widget in widget.css (ms)
+ */
+const ANIMATION_MS = 150;
+
+const CORNERS: readonly WidgetCorner[] = ['top-left', 'top-right', 'bottom-left', 'bottom-right'];
+
+// ============================================================================
+// Positioning
+// ============================================================================
+
+const clamp = (value: number, min: number, max: number): number =>
+  Math.min(Math.max(value, min), Math.max(min, max));
+
+/**
+ * Keep a widget of the given size fully inside the viewport
+ */
+export const clampPosition = (
+  position: WidgetPosition,
+  size: WidgetSize,
+  viewport: WidgetSize
+): WidgetPosition => ({
+  corner: position.corner,
+  x: clamp(position.x, 0, viewport.width - size.width),
+  y: clamp(position.y, 0, viewport.height - size.height),
+});
+
+/**
+ * Anchor a widget to the viewport corner nearest to its center
+ */
+export const snapToCorner = (rect: WidgetRect, viewport: WidgetSize): WidgetPosition => {
+  const right = rect.left + rect.width / 2 > viewport.width / 2;
+  const bottom = rect.top + rect.height / 2 > viewport.height / 2;
+  return clampPosition(
+    {
+      corner: `${bottom ? 'bottom' : 'top'}-${right ? 'right' : 'left'}`,
+      x: right ? viewport.width - rect.left - rect.width : rect.left,
+      y: bottom ? viewport.height - rect.top - rect.height : rect.top,
+    },
+    rect,
+    viewport
+  );
+};
+
+/**
+ * CSS inset properties for a position
+ */
+export const toPositionStyle = (
+  position: WidgetPosition
+): Record<'top' | 'right' | 'bottom' | 'left', string> => {
+  const [vertical, horizontal] = position.corner.split('-') as ['top' | 'bottom', 'left' | 'right'];
+  return {
+    top: 'auto',
+    right: 'auto',
+    bottom: 'auto',
+    left: 'auto',
+    [vertical]: `${Math.round(position.y)}px`,
+    [horizontal]: `${Math.round(position.x)}px`,
+  };
+};
+
+/**
+ * Check a remembered position read back from storage
+ */
+export const isWidgetPosition = (value: unknown): value is WidgetPosition => {
+  if (typeof value !== 'object' || value === null) return false;
+  const { corner, x, y } = value as Record<string, unknown>;
+  return (
+    CORNERS.includes(corner as WidgetCorner) &&
+    typeof x === 'number' &&
+    Number.isFinite(x) &&
+    typeof y === 'number' &&
+    Number.isFinite(y)
+  );
+};
+
+const getViewport = (): WidgetSize => ({
+  width: document.documentElement.clientWidth,
+  height: document.documentElement.clientHeight,
+});
+
+// ============================================================================
+// Remembered Positions
+// ============================================================================
+
+// Site hostname -> widget id -> position
+type PositionStore = Record<string, Record<string, WidgetPosition>>;
+
+const loadPositions = async (): Promise<PositionStore> => {
+  const store = await getLocalStorageValue<unknown>(STORAGE_KEYS.WIDGET_POSITIONS, {});
+  return typeof store === 'object' && store !== null ? (store as PositionStore) : {};
+};
+
+const loadPosition = async (id: string): Promise<WidgetPosition | null> => {
+  const position = (await loadPositions())[window.location.hostname]?.[id];
+  return isWidgetPosition(position) ? position : null;
+};
+
+const savePosition = async (id: string, position: WidgetPosition): Promise<void> => {
+  const store = await loadPositions();
+  const site = window.location.hostname;
+  await setLocalStorageValue(STORAGE_KEYS.WIDGET_POSITIONS, {
+    ...store,
+    [site]: { ...store[site], [id]: position },
+  });
+};
+
+// ============================================================================
+// Host
+// ============================================================================
+
+const liveHosts = new Set<WidgetHost>();
+
+/**
+ * Create a host for a widget. Nothing is added to the page until it is opened.
+ */
+export const createWidgetHost = (options: WidgetOptions): WidgetHost => {
+  const { id, corner = 'bottom-right', rememberPosition = true, render, onClose } = options;
+
+  let element: HTMLElement | null = null;
+  let frame: HTMLDivElement | null = null;
+  let root: Root | null = null;
+  let resizeObserver: ResizeObserver | null = null;
+  let position: WidgetPosition = { corner, x: DEFAULT_OFFSET, y: DEFAULT_OFFSET };
+  let open = false;
+  let destroyed = false;
+  // Bumped on every open/close so a stale close timer cannot unmount
+  let generation = 0;
+
+  const setPositionStyle = (next: WidgetPosition): void => {
+    if (!element) return;
+    for (const [property, value] of Object.entries(toPositionStyle(next))) {
+      element.style.setProperty(property, value, 'important');
+    }
+  };
+
+  const applyPosition = (): void => {
+    if (!element) return;
+    position = clampPosition(position, element.getBoundingClientRect(), getViewport());
+    setPositionStyle(position);
+  };
+
+  const startDrag = (event: React.PointerEvent<HTMLElement>): void => {
+    if (!element || event.button !== 0) return;
+    event.preventDefault();
+    const handle = event.currentTarget;
+    const rect = element.getBoundingClientRect();
+    const offsetX = event.clientX - rect.left;
+    const offsetY = event.clientY - rect.top;
+
+    const move = (moveEvent: PointerEvent) => {
+      setPositionStyle(
+        clampPosition(
+          { corner: 'top-left', x: moveEvent.clientX - offsetX, y: moveEvent.clientY - offsetY },
+          rect,
+          getViewport()
+        )
+      );
+    };
+    const end = () => {
+      handle.removeEventListener('pointermove', move);
+      handle.removeEventListener('pointerup', end);
+      handle.removeEventListener('pointercancel', end);
+      if (!element) return;
+      position = snapToCorner(element.getBoundingClientRect(), getViewport());
+      setPositionStyle(position);
+      if (rememberPosition) savePosition(id, position);
+    };
+
+    handle.setPointerCapture(event.pointerId);
+    handle.addEventListener('pointermove', move);
+    handle.addEventListener('pointerup', end);
+    handle.addEventListener('pointercancel', end);
+  };
+
+  const controls: WidgetControls = {
+    close: () => void host.close(),
+    dragHandleProps: { onPointerDown: startDrag },
+  };
+
+  const mount = (): void => {
+    // Replace a leftover element, e.g. from an orphaned content script
+    document.querySelector(`${HOST_TAG}[data-widget-id="${CSS.escape(id)}"]`)?.remove();
+
+    element = document.createElement(HOST_TAG);
+    element.dataset.widgetId = id;
+    element.style.cssText = HOST_STYLE;
+    setPositionStyle(position);
+
+    const shadow = element.attachShadow({ mode: 'closed' });
+    const style = document.createElement('style');
+    style.textContent = widgetCss;
+    frame = document.createElement('div');
+    frame.className = 'ext-widget';
+    frame.dataset.state = 'closed';
+    shadow.append(style, frame);
+    document.documentElement.appendChild(element);
+
+    root = createRoot(frame);
+    root.render(render(controls));
+
+    // Re-clamp whenever the widget or the viewport changes size
+    resizeObserver = new ResizeObserver(applyPosition);
+    resizeObserver.observe(frame);
+    window.addEventListener('resize', applyPosition);
+
+    if (rememberPosition) {
+      loadPosition(id).then((saved) => {
+        if (saved && element) {
+          position = saved;
+          applyPosition();
+        }
+      });
+    }
+  };
+
+  const unmount = (): void => {
+    window.removeEventListener('resize', applyPosition);
+    resizeObserver?.disconnect();
+    root?.unmount();
+    element?.remove();
+    element = frame = root = resizeObserver = null;
+  };
+
+  const host: WidgetHost = {
+    open: () => {
+      if (destroyed || open) return;
+      open = true;
+      generation++;
+      if (!element) mount();
+      // Let the closed state render first so the transition runs
+      requestAnimationFrame(() => {
+        if (open && frame) frame.dataset.state = 'open';
+      });
+    },
+
+    close: () => {
+      if (!open) return Promise.resolve();
+      open = false;
+      const current = ++generation;
+      if (frame) frame.dataset.state = 'closed';
+      return new Promise((resolve) => {
+        setTimeout(() => {
+          if (current === generation && element) {
+            unmount();
+            onClose?.();
+          }
+          resolve();
+        }, ANIMATION_MS);
+      });
+    },
+
+    toggle: () => {
+      if (open) host.close();
+      else host.open();
+    },
+
+    isOpen: () => open,
+
+    destroy: () => {
+      destroyed = true;
+      open = false;
+      generation++;
+      unmount();
+      liveHosts.delete(host);
+    },
+  };
+
+  liveHosts.add(host);
+  return host;
+};
+
+/**
+ * Remove every widget from the page, e.g. when the extension is disabled
+ */
+export const destroyAllWidgets = (): void => {
+  Array.from(liveHosts).forEach((host) => host.destroy());
+};
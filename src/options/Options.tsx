@@ -1,7 +1,32 @@
 import { useEffect, useState, useCallback } from 'react';
-import { UserSettings, DEFAULT_USER_SETTINGS, SubscriptionTier } from '../shared/types';
-import { requestSettings, requestUpdateSettings } from '../shared/messaging';
+import {
+  UserSettings,
+  DEFAULT_USER_SETTINGS,
+  DeepPartial,
+  LicenseInfo,
+  FEATURE_NAMES,
+  SUBSCRIPTION_TIERS,
+  SubscriptionTier,
+  TIER_CONFIG,
+  getTierRank,
+} from '../shared/types';
+import {
+  requestLicense,
+  requestLicenseActivation,
+  requestLicenseDeactivation,
+  requestSettings,
+  requestUpdateSettings,
+} from '../shared/messaging';
+import { getTierFeatures, onLicenseChange } from '../shared/license';
 import { onUserSettingsChange, resetUserSettings } from '../shared/storage';
+import {
+  ALL_SITES_ORIGIN,
+  getGrantedOrigins,
+  isAllSitesOrigin,
+  onHostPermissionsChange,
+  removeHostPermission,
+  requestHostPermission,
+} from '../shared/permissions';
 
 /**
  * Options/Settings Page Component
@@ -45,7 +70,7 @@ export const Options = () => {
 
   // Save settings
   const saveSettings = useCallback(
-    async (updates: Partial<UserSettings>) => {
+    async (updates: DeepPartial<UserSettings>) => {
       setSaving(true);
       try {
         const response = await requestUpdateSettings(updates);
@@ -75,24 +100,11 @@ export const Options = () => {
   // Handle notification toggle
   const handleNotificationToggle = useCallback(
     (key: keyof UserSettings['notifications']) => {
-      saveSettings({
-        notifications: {
-          ...settings.notifications,
-          [key]: !settings.notifications[key],
-        },
-      });
+      saveSettings({ notifications: { [key]: !settings.notifications[key] } });
     },
     [settings.notifications, saveSettings]
   );
 
-  // Handle tier change (for demo purposes)
-  const handleTierChange = useCallback(
-    (tier: SubscriptionTier) => {
-      saveSettings({ tier });
-    },
-    [saveSettings]
-  );
-
   // Reset to defaults
   const handleReset = useCallback(async () => {
     if (window.confirm('Are you sure you want to reset all settings to defaults?')) {
@@ -146,46 +158,19 @@ export const Options = () => {
         {/* Settings Sections */}
         <div className="space-y-6">
           {/* Subscription Section */}
-          <SettingsSection title="Subscription" description="Manage your subscription tier">
-            <div className="flex items-center justify-between">
-              <div>
-                <span className="font-medium text-gray-900">Current Plan: </span>
-                <span
-                  className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-sm font-medium ${
-                    settings.tier === 'pro'
-                      ? 'bg-yellow-100 text-yellow-800'
-                      : 'bg-gray-100 text-gray-800'
-                  }`}
-                >
-                  {settings.tier.toUpperCase()}
-                </span>
-              </div>
-              {/* Demo tier toggle */}
-              <div className="flex gap-2">
-                <button
-                  onClick={() => handleTierChange('free')}
-                  className={`px-3 py-1 rounded text-sm ${
-                    settings.tier === 'free'
-                      ? 'bg-primary-600 text-white'
-                      : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
-                  }`}
-                  disabled={saving}
-                >
-                  Free
-                </button>
-                <button
-                  onClick={() => handleTierChange('pro')}
-                  className={`px-3 py-1 rounded text-sm ${
-                    settings.tier === 'pro'
-                      ? 'bg-yellow-400 text-yellow-900'
-                      : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
-                  }`}
-                  disabled={saving}
-                >
-                  Pro
-                </button>
-              </div>
-            </div>
+          <SettingsSection
+            title="Subscription"
+            description="Compare plans and activate your license key"
+          >
+            <License onMessage={showMessage} />
+          </SettingsSection>
+
+          {/* Site Access Section */}
+          <SettingsSection
+            title="Site Access"
+            description="Sites the extension is allowed to read and run on"
+          >
+            <SiteAccess onMessage={showMessage} />
           </SettingsSection>
 
           {/* Appearance Section */}
@@ -291,6 +276,236 @@ const SettingsSection = ({ title, description, children }: SettingsSectionProps)
   );
 };
 
+/**
+ * License Component
+ *
+ * Shows the plan granted by the stored license key and lets the user
+ * activate a new key or remove the current one.
+ */
+interface LicenseProps {
+  onMessage: (type: 'success' | 'error', text: string) => void;
+}
+
+const License = ({ onMessage }: LicenseProps) => {
+  const [license, setLicense] = useState<LicenseInfo | null>(null);
+  const [token, setToken] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    requestLicense().then((response) => {
+      if (response.success && response.data) setLicense(response.data);
+    });
+    return onLicenseChange(setLicense);
+  }, []);
+
+  const activate = useCallback(async () => {
+    setBusy(true);
+    const response = await requestLicenseActivation(token);
+    setBusy(false);
+    if (response.success && response.data) {
+      setLicense(response.data);
+      setToken('');
+      onMessage('success', 'License activated');
+    } else {
+      onMessage('error', response.error || 'Failed to activate the license');
+    }
+  }, [token, onMessage]);
+
+  const deactivate = useCallback(async () => {
+    if (!window.confirm('Remove the license key from this browser profile?')) return;
+    setBusy(true);
+    const response = await requestLicenseDeactivation();
+    setBusy(false);
+    if (response.success && response.data) {
+      setLicense(response.data);
+      onMessage('success', 'License removed');
+    } else {
+      onMessage('error', response.error || 'Failed to remove the license');
+    }
+  }, [onMessage]);
+
+  if (!license) return null;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <span className="font-medium text-gray-900">Current Plan: </span>
+          <span
+            className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-sm font-medium ${
+              TIER_CONFIG[license.tier].badgeClassName.page
+            }`}
+          >
+            {license.tier.toUpperCase()}
+          </span>
+          {license.licensee && (
+            <p className="text-sm text-gray-500 mt-1">
+              Licensed to {license.licensee}
+              {license.expiresAt !== null &&
+                ` · ${license.status === 'active' ? 'expires' : 'expired'} ${new Date(
+                  license.expiresAt
+                ).toLocaleDateString()}`}
+            </p>
+          )}
+          {license.status === 'grace' && license.graceEndsAt !== null && (
+            <p className="text-sm text-yellow-700 mt-1">
+              Your plan stays active until {new Date(license.graceEndsAt).toLocaleDateString()}.
+              Activate a renewed key to keep it.
+            </p>
+          )}
+          {license.status === 'invalid' && (
+            <p className="text-sm text-red-600 mt-1">{license.error}</p>
+          )}
+        </div>
+        {license.status !== 'none' && (
+          <button
+            onClick={deactivate}
+            className="text-sm text-red-600 hover:text-red-700"
+            disabled={busy}
+          >
+            Remove License
+          </button>
+        )}
+      </div>
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={token}
+          onChange={(event) => setToken(event.target.value)}
+          placeholder="Paste your license key"
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono"
+          spellCheck={false}
+        />
+        <button
+          onClick={activate}
+          className="px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-lg transition-colors"
+          disabled={busy || token.trim() === ''}
+        >
+          Activate
+        </button>
+      </div>
+      <Plans key={license.tier} current={license.tier} />
+    </div>
+  );
+};
+
+/**
+ * Plans Component
+ *
+ * Lets the user pick a plan to see what it includes, starting from the
+ * current one.
+ */
+interface PlansProps {
+  current: SubscriptionTier;
+}
+
+const Plans = ({ current }: PlansProps) => {
+  const [selected, setSelected] = useState<SubscriptionTier>(current);
+
+  return (
+    <div className="border-t pt-4 space-y-3">
+      <div className="flex gap-2" role="radiogroup" aria-label="Plans">
+        {SUBSCRIPTION_TIERS.map((tier) => (
+          <button
+            key={tier}
+            role="radio"
+            aria-checked={tier === selected}
+            onClick={() => setSelected(tier)}
+            className={`px-3 py-1 rounded-full text-sm font-medium ${
+              TIER_CONFIG[tier].badgeClassName.page
+            } ${tier === selected ? 'ring-2 ring-primary-500' : 'opacity-70 hover:opacity-100'}`}
+          >
+            {TIER_CONFIG[tier].name}
+            {tier === current && ' (current)'}
+          </button>
+        ))}
+      </div>
+      <ul className="text-sm text-gray-700 space-y-1">
+        {getTierFeatures(selected).map((feature) => (
+          <li key={feature}>✓ {FEATURE_NAMES[feature]}</li>
+        ))}
+      </ul>
+      {getTierRank(selected) > getTierRank(current) && (
+        <p className="text-sm text-gray-500">
+          Activate a {TIER_CONFIG[selected].name} license key to switch to this plan.
+        </p>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Site Access Component
+ *
+ * Lists the granted host permissions and lets the user grant access to all
+ * sites or revoke access again.
+ */
+interface SiteAccessProps {
+  onMessage: (type: 'success' | 'error', text: string) => void;
+}
+
+const SiteAccess = ({ onMessage }: SiteAccessProps) => {
+  const [origins, setOrigins] = useState<string[] | null>(null);
+
+  useEffect(() => {
+    getGrantedOrigins().then(setOrigins);
+    return onHostPermissionsChange(setOrigins);
+  }, []);
+
+  const grantAllSites = useCallback(async () => {
+    if (!(await requestHostPermission([ALL_SITES_ORIGIN]))) {
+      onMessage('error', 'Access to all sites was not granted');
+    }
+  }, [onMessage]);
+
+  const revoke = useCallback(
+    async (origin: string) => {
+      if (await removeHostPermission([origin])) {
+        onMessage('success', 'Access revoked');
+      } else {
+        onMessage('error', 'Failed to revoke access');
+      }
+    },
+    [onMessage]
+  );
+
+  if (!origins) return null;
+
+  return (
+    <div className="space-y-3">
+      {origins.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          No sites yet. Allow a site from the popup while visiting it, or allow all sites.
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {origins.map((origin) => (
+            <li key={origin} className="flex items-center justify-between py-2">
+              <span className="text-sm text-gray-900 font-mono">
+                {isAllSitesOrigin(origin) ? 'All sites' : origin}
+              </span>
+              <button
+                onClick={() => revoke(origin)}
+                className="text-sm text-red-600 hover:text-red-700"
+              >
+                Revoke
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {!origins.some(isAllSitesOrigin) && (
+        <button
+          onClick={grantAllSites}
+          className="px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-lg transition-colors"
+        >
+          Allow on All Sites
+        </button>
+      )}
+    </div>
+  );
+};
+
 /**
  * Toggle Option Component
  */
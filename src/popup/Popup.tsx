@@ -4,33 +4,91 @@ import {
   DEFAULT_USER_SETTINGS,
   TabInfo,
   FeatureKey,
-  hasFeatureAccess,
+  HighlightQuery,
+  HighlightResult,
+  ExportFile,
+  ExportFormat,
+  ExportSource,
+  Entitlements,
+  ENTITLEMENT_CONFIG,
+  FEATURE_NAMES,
+  QuotaUsage,
+  SUBSCRIPTION_TIERS,
+  SubscriptionTier,
+  TIER_CONFIG,
+  TrialTarget,
+  getLowestTier,
+  getTierRank,
+  isSubscriptionTier,
 } from '../shared/types';
-import { requestSettings, requestUpdateSettings, requestTabInfo } from '../shared/messaging';
+import {
+  requestSettings,
+  requestUpdateSettings,
+  requestTabInfo,
+  requestAction,
+  requestExport,
+  requestContentScriptInjection,
+  requestEntitlements,
+  requestTrialStart,
+} from '../shared/messaging';
+import { FREE_LICENSE } from '../shared/license';
+import {
+  describeEntitlementEnd,
+  hasEntitlement,
+  resolveEntitlements,
+} from '../shared/entitlements';
+import { describeQuota } from '../shared/usage';
 import { onUserSettingsChange } from '../shared/storage';
+import { createRpcClient } from '../shared/rpc';
+import { getSiteHost, resolveSiteSettings, setSiteEnabled } from '../shared/sites';
+import {
+  ALL_SITES_ORIGIN,
+  getOriginPattern,
+  hasHostPermission,
+  onHostPermissionsChange,
+  requestHostPermission,
+} from '../shared/permissions';
 
 /**
  * Main Popup Component
  */
 export const Popup = () => {
   const [settings, setSettings] = useState<UserSettings>(DEFAULT_USER_SETTINGS);
+  const [entitlements, setEntitlements] = useState<Entitlements>(() =>
+    resolveEntitlements(FREE_LICENSE)
+  );
   const [tabInfo, setTabInfo] = useState<TabInfo | null>(null);
   const [loading, setLoading] = useState(true);
+  const [showExport, setShowExport] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [injectError, setInjectError] = useState<string | null>(null);
+  // Whether host access to the current site was granted (null while unknown)
+  const [siteAccess, setSiteAccess] = useState<boolean | null>(null);
 
   // Load initial data
   useEffect(() => {
     const loadData = async () => {
       try {
-        const [settingsRes, tabRes] = await Promise.all([requestSettings(), requestTabInfo()]);
+        // Retry while the service worker wakes up
+        const [settingsRes, tabRes, entitlementsRes] = await Promise.all([
+          requestSettings({ retries: 2 }),
+          requestTabInfo({ retries: 2 }),
+          requestEntitlements({ retries: 2 }),
+        ]);
 
         if (settingsRes.success && settingsRes.data) {
           setSettings(settingsRes.data);
+        } else if (settingsRes.code === 'NO_RECEIVER' || settingsRes.code === 'TIMEOUT') {
+          setError('The extension background is not responding. Try reopening the popup.');
         }
 
         if (tabRes.success && tabRes.data) {
           setTabInfo(tabRes.data);
         }
+
+        if (entitlementsRes.success && entitlementsRes.data) {
+          setEntitlements(entitlementsRes.data);
+        }
       } catch (err) {
         setError('Failed to load extension data');
       } finally {
@@ -45,7 +103,20 @@ export const Popup = () => {
       setSettings(newSettings);
     });
 
-    return () => unsubscribe();
+    // Follow the active tab as the user switches tabs or navigates. Events
+    // come for every window, but the popup acts on its own window's tab only.
+    const windowId = chrome.windows.getCurrent().then((window) => window.id);
+    const client = createRpcClient();
+    client.subscribe('TAB_STATE_CHANGED', async (tab) => {
+      if (tab.windowId === (await windowId)) setTabInfo(tab);
+    });
+    // Pushed when a license or trial changes, and when one runs out
+    client.subscribe('ENTITLEMENTS_CHANGED', setEntitlements);
+
+    return () => {
+      unsubscribe();
+      client.disconnect();
+    };
   }, []);
 
   // Toggle extension enabled state
@@ -56,19 +127,96 @@ export const Popup = () => {
     }
   }, [settings.enabled]);
 
+  // Turn the extension on or off for the current site, whichever rule or
+  // global setting decides it now
+  const siteHost = tabInfo ? getSiteHost(tabInfo.url) : null;
+  const siteEnabled = tabInfo ? resolveSiteSettings(settings, tabInfo.url).enabled : false;
+  const toggleSite = useCallback(async () => {
+    if (!tabInfo) return;
+    const siteRules = setSiteEnabled(settings, tabInfo.url, !siteEnabled);
+    const response = await requestUpdateSettings({ siteRules });
+    if (response.success && response.data) {
+      setSettings(response.data);
+    }
+  }, [settings, tabInfo, siteEnabled]);
+
+  // Run the content script in a tab that was open before it was registered.
+  // Opening the popup grants activeTab, so this works without host access.
+  // The background pushes the new tab state once the script is ready.
+  const contentScriptActive = tabInfo ? tabInfo.injected : null;
+  useEffect(() => setInjectError(null), [tabInfo?.id]);
+  const injectIntoTab = useCallback(async () => {
+    if (!tabInfo) return;
+    const response = await requestContentScriptInjection(tabInfo.id);
+    setInjectError(response.success ? null : 'The extension cannot run on this page.');
+  }, [tabInfo]);
+
+  // Track host access to the current site
+  const siteOrigin = tabInfo ? getOriginPattern(tabInfo.url) : null;
+  useEffect(() => {
+    setSiteAccess(null);
+    if (!siteOrigin) return;
+    let cancelled = false;
+    const check = () => {
+      hasHostPermission([siteOrigin]).then((granted) => {
+        if (!cancelled) setSiteAccess(granted);
+      });
+    };
+    check();
+    const unsubscribe = onHostPermissionsChange(check);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [siteOrigin]);
+
+  // Ask for access to the current site or every site, then start on this page
+  const grantAccess = useCallback(
+    async (allSites: boolean) => {
+      if (!siteOrigin) return;
+      const granted = await requestHostPermission([allSites ? ALL_SITES_ORIGIN : siteOrigin]);
+      if (granted) {
+        setSiteAccess(true);
+        if (!contentScriptActive) injectIntoTab();
+      }
+    },
+    [siteOrigin, contentScriptActive, injectIntoTab]
+  );
+
+  // The popup closes as soon as the user clicks into the page, so the page
+  // shows the picked selectors itself
+  const startPicker = useCallback(() => {
+    requestAction('pickElement', { showResult: true }, { tabId: tabInfo?.id, timeoutMs: 0 });
+  }, [tabInfo]);
+
   // Open options page
   const openOptions = useCallback(() => {
     chrome.runtime.openOptionsPage();
   }, []);
 
-  // Check if user can access a pro feature
+  // Check if the user's license or a running trial grants a feature
   const canAccessFeature = useCallback(
     (feature: FeatureKey) => {
-      return hasFeatureAccess(settings.tier, feature);
+      return hasEntitlement(entitlements, feature);
     },
-    [settings.tier]
+    [entitlements]
   );
 
+  // Start the trial of a tier or of a single feature
+  const startTrial = useCallback(async (target: TrialTarget) => {
+    const response = await requestTrialStart(target);
+    if (response.success && response.data) {
+      setEntitlements(response.data);
+    }
+  }, []);
+  const canTry = (target: TrialTarget) => entitlements.availableTrials.includes(target);
+  // Features switched off by a feature flag are hidden
+  const isShown = (feature: FeatureKey) => !entitlements.features[feature].disabled;
+  const tierTrials = entitlements.availableTrials.filter(isSubscriptionTier);
+  const nextTier: SubscriptionTier | undefined =
+    SUBSCRIPTION_TIERS[getTierRank(entitlements.tier) + 1];
+  const tierNotice = describeEntitlementEnd(entitlements);
+
   if (loading) {
     return (
       <div className="w-popup p-4 bg-white">
@@ -93,15 +241,24 @@ export const Popup = () => {
       <header className="bg-primary-600 text-white p-4">
         <div className="flex items-center justify-between">
           <h1 className="text-lg font-semibold">Extension Template</h1>
-          <span
-            className={`px-2 py-1 text-xs rounded-full ${
-              settings.tier === 'pro'
-                ? 'bg-yellow-400 text-yellow-900'
-                : 'bg-primary-500 text-white'
-            }`}
-          >
-            {settings.tier.toUpperCase()}
-          </span>
+          <div className="flex items-center gap-2">
+            {tierNotice && (
+              <span
+                className={`text-xs ${
+                  entitlements.state === 'grace' ? 'text-yellow-200' : 'text-primary-100'
+                }`}
+              >
+                {tierNotice}
+              </span>
+            )}
+            <span
+              className={`px-2 py-1 text-xs rounded-full ${
+                TIER_CONFIG[entitlements.tier].badgeClassName.popup
+              }`}
+            >
+              {entitlements.tier.toUpperCase()}
+            </span>
+          </div>
         </div>
       </header>
 
@@ -117,6 +274,62 @@ export const Popup = () => {
             <p className="text-xs text-gray-500 truncate" title={tabInfo.url}>
               {tabInfo.url}
             </p>
+            {siteHost && (
+              <div className="flex items-center justify-between mt-1 text-xs">
+                <span className="text-gray-500">
+                  {siteEnabled ? 'Enabled on this site' : 'Disabled on this site'}
+                </span>
+                <button onClick={toggleSite} className="text-primary-600 hover:text-primary-700">
+                  {siteEnabled ? 'Disable on this site' : 'Enable on this site'}
+                </button>
+              </div>
+            )}
+            {siteAccess !== null && (
+              <div className="flex items-center justify-between mt-1 text-xs">
+                <span className="text-gray-500">
+                  {siteAccess ? 'Allowed to read this site' : 'No access to this site'}
+                </span>
+                {siteAccess ? (
+                  <button onClick={openOptions} className="text-primary-600 hover:text-primary-700">
+                    Manage access
+                  </button>
+                ) : (
+                  <span className="flex gap-2">
+                    <button
+                      onClick={() => grantAccess(false)}
+                      className="text-primary-600 hover:text-primary-700"
+                    >
+                      Allow on this site
+                    </button>
+                    <button
+                      onClick={() => grantAccess(true)}
+                      className="text-primary-600 hover:text-primary-700"
+                    >
+                      All sites
+                    </button>
+                  </span>
+                )}
+              </div>
+            )}
+            {contentScriptActive !== null && (
+              <p className="text-xs mt-1 flex items-center gap-1 text-gray-500">
+                <span
+                  className={`inline-block h-2 w-2 rounded-full ${
+                    contentScriptActive ? 'bg-green-500' : 'bg-gray-300'
+                  }`}
+                />
+                {contentScriptActive ? 'Active on this page' : 'Not running on this page.'}
+                {!contentScriptActive && siteHost && (
+                  <button
+                    onClick={injectIntoTab}
+                    className="ml-auto text-primary-600 hover:text-primary-700"
+                  >
+                    Run on this page
+                  </button>
+                )}
+              </p>
+            )}
+            {injectError && <p className="text-xs text-red-600 mt-1">{injectError}</p>}
           </section>
         )}
 
@@ -139,42 +352,72 @@ export const Popup = () => {
           </button>
         </section>
 
+        {/* Highlight on Page */}
+        {contentScriptActive && <HighlightSearch />}
+
         {/* Free Features */}
         <section>
           <h2 className="text-sm font-medium text-gray-700 mb-2">Free Features</h2>
           <div className="space-y-2">
             <FeatureButton
-              label="Basic Feature"
+              label={FEATURE_NAMES.basic_feature}
               available={true}
               onClick={() => {
                 // Handle basic feature action
               }}
             />
+            {contentScriptActive && (
+              <FeatureButton label="Pick Element" available={true} onClick={startPicker} />
+            )}
           </div>
         </section>
 
-        {/* Pro Features */}
+        {/* Paid Features */}
         <section>
-          <h2 className="text-sm font-medium text-gray-700 mb-2">Pro Features</h2>
+          <h2 className="text-sm font-medium text-gray-700 mb-2">Premium Features</h2>
           <div className="space-y-2">
-            <FeatureButton
-              label="Advanced Analytics"
-              available={canAccessFeature('advanced_analytics')}
-              onClick={() => {
-                // Handle pro feature action
-              }}
-            />
-            <FeatureButton
-              label="Export Data"
-              available={canAccessFeature('export_data')}
-              onClick={() => {
-                // Handle pro feature action
-              }}
-            />
+            {isShown('advanced_analytics') && (
+              <FeatureButton
+                label={FEATURE_NAMES.advanced_analytics}
+                feature="advanced_analytics"
+                available={canAccessFeature('advanced_analytics')}
+                onClick={() => {
+                  // Handle pro feature action
+                }}
+                onTry={
+                  canTry('advanced_analytics') ? () => startTrial('advanced_analytics') : undefined
+                }
+              />
+            )}
+            {isShown('export_data') && (
+              <FeatureButton
+                label={FEATURE_NAMES.export_data}
+                feature="export_data"
+                available={canAccessFeature('export_data')}
+                quota={entitlements.features.export_data.quota}
+                onClick={() => setShowExport((shown) => !shown)}
+                onTry={canTry('export_data') ? () => startTrial('export_data') : undefined}
+              />
+            )}
+            {showExport && canAccessFeature('export_data') && (
+              <ExportPanel tabId={tabInfo?.id} canExtract={!!contentScriptActive} />
+            )}
           </div>
-          {settings.tier === 'free' && (
-            <button className="mt-2 w-full py-2 px-4 bg-yellow-400 hover:bg-yellow-500 text-yellow-900 rounded-lg text-sm font-medium transition-colors">
-              Upgrade to Pro
+          {tierTrials.map((tier) => (
+            <button
+              key={tier}
+              onClick={() => startTrial(tier)}
+              className="mt-2 w-full py-2 px-4 border border-yellow-400 hover:bg-yellow-50 text-yellow-900 rounded-lg text-sm font-medium transition-colors"
+            >
+              Try {TIER_CONFIG[tier].name} free for {TIER_CONFIG[tier].trialDays} days
+            </button>
+          ))}
+          {nextTier && (
+            <button
+              onClick={openOptions}
+              className="mt-2 w-full py-2 px-4 bg-yellow-400 hover:bg-yellow-500 text-yellow-900 rounded-lg text-sm font-medium transition-colors"
+            >
+              Upgrade to {TIER_CONFIG[nextTier].name}
             </button>
           )}
         </section>
@@ -194,21 +437,224 @@ export const Popup = () => {
   );
 };
 
+/**
+ * Highlight Search Component
+ */
+type HighlightMode = 'text' | 'pattern' | 'selector';
+
+const toHighlightQuery = (mode: HighlightMode, value: string): HighlightQuery => {
+  switch (mode) {
+    case 'pattern':
+      return { pattern: value, flags: 'i' };
+    case 'selector':
+      return { selector: value };
+    default:
+      return { text: value };
+  }
+};
+
+const HighlightSearch = () => {
+  const [mode, setMode] = useState<HighlightMode>('text');
+  const [value, setValue] = useState('');
+  const [result, setResult] = useState<HighlightResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleResponse = (response: {
+    success: boolean;
+    data?: HighlightResult;
+    error?: string;
+  }) => {
+    if (response.success && response.data) {
+      setResult(response.data);
+      setError(null);
+    } else {
+      setResult(null);
+      setError(response.error ?? 'Highlighting failed');
+    }
+  };
+
+  const search = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!value) return;
+    handleResponse(await requestAction('highlightElements', toHighlightQuery(mode, value)));
+  };
+
+  const step = async (direction: 'next' | 'previous') => {
+    handleResponse(await requestAction('stepHighlight', { direction }));
+  };
+
+  const clear = async () => {
+    await requestAction('clearHighlights');
+    setResult(null);
+    setError(null);
+  };
+
+  return (
+    <section>
+      <h2 className="text-sm font-medium text-gray-700 mb-2">Highlight on Page</h2>
+      <form onSubmit={search} className="flex gap-2">
+        <select
+          value={mode}
+          onChange={(e) => setMode(e.target.value as HighlightMode)}
+          className="text-sm border rounded-lg px-1"
+          aria-label="Match by"
+        >
+          <option value="text">Text</option>
+          <option value="pattern">Regex</option>
+          <option value="selector">CSS</option>
+        </select>
+        <input
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          className="flex-1 min-w-0 text-sm border rounded-lg px-2 py-1"
+          placeholder="Find on page"
+        />
+        <button
+          type="submit"
+          className="text-sm px-3 py-1 bg-primary-600 text-white rounded-lg hover:bg-primary-700"
+        >
+          Find
+        </button>
+      </form>
+      {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+      {result && (
+        <div className="flex items-center justify-between mt-2 text-xs text-gray-600">
+          <span>
+            {result.count === 0
+              ? 'No matches'
+              : `${result.index + 1} of ${result.count}${result.truncated ? '+' : ''}`}
+          </span>
+          <div className="flex gap-2">
+            <button onClick={() => step('previous')} disabled={result.count === 0}>
+              Previous
+            </button>
+            <button onClick={() => step('next')} disabled={result.count === 0}>
+              Next
+            </button>
+            <button onClick={clear} className="text-primary-600">
+              Clear
+            </button>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
+
+/**
+ * Export Panel Component
+ */
+const downloadFile = (file: ExportFile) => {
+  const url = URL.createObjectURL(new Blob([file.content], { type: file.mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = file.filename;
+  link.click();
+  // Give the browser a moment to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+interface ExportPanelProps {
+  tabId?: number;
+  /** Whether the current tab can be extracted (has a live content script) */
+  canExtract: boolean;
+}
+
+const ExportPanel = ({ tabId, canExtract }: ExportPanelProps) => {
+  const [source, setSource] = useState<ExportSource>(canExtract ? 'page' : 'history');
+  const [format, setFormat] = useState<ExportFormat>('json');
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const runExport = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setExporting(true);
+    setError(null);
+    // The background checks export_data access and builds the file
+    const response = await requestExport(source, format, { tabId, timeoutMs: 30000 });
+    setExporting(false);
+    if (response.success && response.data) {
+      downloadFile(response.data);
+    } else {
+      setError(response.error ?? 'Export failed');
+    }
+  };
+
+  return (
+    <form onSubmit={runExport} className="bg-gray-50 rounded-lg p-3 space-y-2">
+      <div className="flex gap-2">
+        <select
+          value={source}
+          onChange={(e) => setSource(e.target.value as ExportSource)}
+          className="flex-1 text-sm border rounded-lg px-1 py-1"
+          aria-label="Data to export"
+        >
+          <option value="page" disabled={!canExtract}>
+            This page
+          </option>
+          <option value="history">Extraction history</option>
+          <option value="settings">Settings</option>
+        </select>
+        <select
+          value={format}
+          onChange={(e) => setFormat(e.target.value as ExportFormat)}
+          className="text-sm border rounded-lg px-1 py-1"
+          aria-label="Format"
+        >
+          <option value="json">JSON</option>
+          <option value="csv">CSV</option>
+          <option value="markdown">Markdown</option>
+        </select>
+        <button
+          type="submit"
+          disabled={exporting}
+          className="text-sm px-3 py-1 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50"
+        >
+          {exporting ? 'Exporting…' : 'Export'}
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </form>
+  );
+};
+
 /**
  * Feature Button Component
  */
 interface FeatureButtonProps {
   label: string;
+  /** The feature behind the button, to show what unlocks it */
+  feature?: FeatureKey;
   available: boolean;
   onClick: () => void;
+  /** Uses left of a metered feature; unset for unlimited access */
+  quota?: QuotaUsage | null;
+  /** Start a trial of the feature; shown on locked features that have one */
+  onTry?: () => void;
 }
 
-const FeatureButton = ({ label, available, onClick }: FeatureButtonProps) => {
+const FeatureButton = ({
+  label,
+  feature,
+  available,
+  quota,
+  onClick,
+  onTry,
+}: FeatureButtonProps) => {
   if (!available) {
+    const tier = feature ? getLowestTier(feature) : null;
     return (
-      <div className="flex items-center justify-between py-2 px-3 bg-gray-100 rounded-lg opacity-60">
-        <span className="text-sm text-gray-600">{label}</span>
-        <span className="text-xs text-gray-500 flex items-center gap-1">
+      <div className="flex items-center justify-between py-2 px-3 bg-gray-100 rounded-lg">
+        <span className="text-sm text-gray-600 opacity-60">{label}</span>
+        <span className="ml-auto mr-3 flex items-center gap-3 text-xs">
+          {quota && <span className="text-gray-500">{describeQuota(quota)}</span>}
+          {onTry && (
+            <button onClick={onTry} className="text-primary-600 hover:text-primary-700 font-medium">
+              Try for {ENTITLEMENT_CONFIG.featureTrialDays} days
+            </button>
+          )}
+        </span>
+        <span className="text-xs text-gray-500 opacity-60 flex items-center gap-1">
           <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 20 20">
             <path
               fillRule="evenodd"
@@ -216,7 +662,7 @@ const FeatureButton = ({ label, available, onClick }: FeatureButtonProps) => {
               clipRule="evenodd"
             />
           </svg>
-          PRO
+          {tier ? TIER_CONFIG[tier].name.toUpperCase() : 'ADD-ON'}
         </span>
       </div>
     );
@@ -228,6 +674,9 @@ const FeatureButton = ({ label, available, onClick }: FeatureButtonProps) => {
       className="w-full flex items-center justify-between py-2 px-3 bg-primary-50 hover:bg-primary-100 rounded-lg transition-colors"
     >
       <span className="text-sm text-primary-700 font-medium">{label}</span>
+      {quota && (
+        <span className="ml-auto mr-2 text-xs text-primary-600">{describeQuota(quota)}</span>
+      )}
       <svg
         className="w-4 h-4 text-primary-600"
         fill="none"
@@ -0,0 +1,136 @@
+/**
+ * Action registry for PERFORM_ACTION
+ *
+ * Actions are declared once in ActionMap (types) and ACTION_DEFINITIONS
+ * (where they run and what they require). Each context then registers handlers
+ * for the actions it runs. The background receives every PERFORM_ACTION,
+ * checks feature access, and either runs the action itself or forwards it to
+ * the target tab's content script.
+ *
+ * To add an action: add it to ActionMap, declare it in ACTION_DEFINITIONS and
+ * register a handler in the context that runs it.
+ */
+
+import { ActionName, ActionPayload, ActionResult, FeatureKey, MessageResponse } from './types';
+import { toErrorResponse } from './errors';
+
+// ============================================================================
+// Definitions
+// ============================================================================
+
+/**
+ * Extension context an action runs in
+ */
+export type ActionContext = 'background' | 'content';
+
+/**
+ * Where an action runs and what it requires
+ */
+export interface ActionDefinition {
+  context: ActionContext;
+  /** Feature the user must be entitled to to run the action */
+  feature?: FeatureKey;
+  /**
+   * How long the background waits for a content action to finish (ms).
+   * Defaults to the messaging timeout; actions waiting on the user need longer.
+   */
+  timeoutMs?: number;
+}
+
+/**
+ * Declarations for every action in ActionMap
+ */
+export const ACTION_DEFINITIONS: { [A in ActionName]: ActionDefinition } = {
+  highlightElements: { context: 'content', feature: 'basic_feature' },
+  stepHighlight: { context: 'content', feature: 'basic_feature' },
+  clearHighlights: { context: 'content' },
+  extractData: { context: 'content', feature: 'basic_feature' },
+  pickElement: { context: 'content', feature: 'basic_feature', timeoutMs: 5 * 60 * 1000 },
+  extensionTrigger: { context: 'background' },
+};
+
+/**
+ * Look up an action by name. Names arrive in message payloads, so they are
+ * checked against the declarations rather than trusted.
+ */
+export const getActionDefinition = (name: string): ActionDefinition | undefined => {
+  return Object.prototype.hasOwnProperty.call(ACTION_DEFINITIONS, name)
+    ? ACTION_DEFINITIONS[name as ActionName]
+    : undefined;
+};
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+/**
+ * Handler for a single action
+ */
+export type ActionHandler<A extends ActionName = ActionName> = (
+  payload: ActionPayload<A>,
+  sender: chrome.runtime.MessageSender
+) => Promise<ActionResult<A>> | ActionResult<A>;
+
+/**
+ * Handlers for the actions run in one context
+ */
+export interface ActionRegistry {
+  /** Register the handler for an action; returns a function that unregisters it */
+  register: <A extends ActionName>(action: A, handler: ActionHandler<A>) => () => void;
+  /** Whether a handler is registered for an action */
+  has: (action: string) => boolean;
+  /** Run an action and wrap its result (or error) in a response */
+  run: (
+    action: string,
+    payload: unknown,
+    sender: chrome.runtime.MessageSender
+  ) => Promise<MessageResponse>;
+}
+
+/**
+ * Handler as stored by the registry, once its action's types are erased
+ */
+type UntypedActionHandler = (payload: unknown, sender: chrome.runtime.MessageSender) => unknown;
+
+const unknownAction = (action: string, context: ActionContext): MessageResponse => ({
+  success: false,
+  error: `Unknown action: ${action} (${context})`,
+  code: 'UNKNOWN_ACTION',
+});
+
+/**
+ * Create the action registry for a context.
+ * Only actions declared to run in that context can be registered or run.
+ */
+export const createActionRegistry = (context: ActionContext): ActionRegistry => {
+  const handlers = new Map<string, UntypedActionHandler>();
+
+  return {
+    register: (action, handler) => {
+      if (ACTION_DEFINITIONS[action].context !== context) {
+        throw new Error(`Action "${action}" runs in ${ACTION_DEFINITIONS[action].context}`);
+      }
+      const stored = handler as UntypedActionHandler;
+      handlers.set(action, stored);
+      return () => {
+        if (handlers.get(action) === stored) handlers.delete(action);
+      };
+    },
+
+    has: (action) => handlers.has(action),
+
+    run: async (action, payload, sender) => {
+      const definition = getActionDefinition(action);
+      const handler = handlers.get(action);
+      if (!definition || definition.context !== context || !handler) {
+        return unknownAction(action, context);
+      }
+      try {
+        const data = await handler(payload, sender);
+        return { success: true, data };
+      } catch (error) {
+        return toErrorResponse(error, 'HANDLER_ERROR');
+      }
+    },
+  };
+};
@@ -0,0 +1,235 @@
+/**
+ * Sender-aware authorization for extension messages
+ *
+ * Every message received by the background is attributed to the context that
+ * sent it. Content scripts run alongside untrusted page code, so they are only
+ * allowed to send the messages (and write the settings fields) they need, and
+ * to subscribe to the events they need.
+ */
+
+import {
+  EventType,
+  ExtensionMessage,
+  ExtensionMessageOf,
+  MessageType,
+  UserSettings,
+} from './types';
+
+// ============================================================================
+// Sender Contexts
+// ============================================================================
+
+/**
+ * Extension context a message was sent from
+ */
+export type SenderContext = 'content_script' | 'popup' | 'options' | 'extension_page' | 'unknown';
+
+/**
+ * Extension page paths mapped to their context
+ */
+const EXTENSION_PAGES: Record<string, SenderContext> = {
+  '/popup.html': 'popup',
+  '/options.html': 'options',
+};
+
+/**
+ * Get the origin of this extension's own pages, e.g. "chrome-extension://<id>".
+ * Derived from the URL string because URL#origin is "null" for non-web schemes
+ * outside of the browser.
+ */
+const getExtensionOrigin = (): string => chrome.runtime.getURL('/').replace(/\/$/, '');
+
+/**
+ * Determine which extension context sent a message
+ */
+export const getSenderContext = (sender: chrome.runtime.MessageSender): SenderContext => {
+  // Messages from other extensions are never trusted
+  if (sender.id !== chrome.runtime.id) return 'unknown';
+
+  const extensionOrigin = getExtensionOrigin();
+  const url = sender.url ?? '';
+  const isExtensionPage = sender.origin
+    ? sender.origin === extensionOrigin
+    : url.startsWith(`${extensionOrigin}/`);
+
+  if (isExtensionPage) {
+    const path = url.slice(extensionOrigin.length).split(/[?#]/)[0];
+    return EXTENSION_PAGES[path] ?? 'extension_page';
+  }
+
+  // Anything else running in a tab is a content script on a web page
+  if (sender.tab) return 'content_script';
+
+  return 'unknown';
+};
+
+// ============================================================================
+// Policies
+// ============================================================================
+
+/**
+ * Result of an authorization check
+ */
+export type AuthorizationResult = { allowed: true } | { allowed: false; reason: string };
+
+/**
+ * Authorization policy for a single message type
+ */
+export interface MessagePolicy<K extends MessageType = MessageType> {
+  /** Contexts allowed to send the message */
+  contexts: readonly SenderContext[];
+  /** Optional payload-level check, run after the context check */
+  authorize?: (message: ExtensionMessageOf<K>, context: SenderContext) => AuthorizationResult;
+}
+
+/**
+ * Authorization policies keyed by message type.
+ * Message types without a policy are denied.
+ */
+export type MessagePolicyMap = {
+  [K in MessageType]?: MessagePolicy<K>;
+};
+
+const ALLOWED: AuthorizationResult = { allowed: true };
+
+const ALL_CONTEXTS: readonly SenderContext[] = [
+  'content_script',
+  'popup',
+  'options',
+  'extension_page',
+];
+
+/**
+ * UserSettings fields each context may write through UPDATE_SETTINGS. The
+ * tier is not a setting: it comes from the verified license key.
+ */
+export const SETTINGS_WRITE_ACCESS: Partial<
+  Record<SenderContext, readonly (keyof UserSettings)[]>
+> = {
+  content_script: ['preferences'],
+  popup: ['enabled', 'theme', 'notifications', 'preferences', 'siteRules'],
+  options: ['enabled', 'theme', 'notifications', 'preferences', 'siteRules'],
+};
+
+/**
+ * Check that a settings update only touches fields the sender may write
+ */
+export const authorizeSettingsUpdate = (
+  updates: Partial<Record<keyof UserSettings, unknown>>,
+  context: SenderContext
+): AuthorizationResult => {
+  const writable = SETTINGS_WRITE_ACCESS[context] ?? [];
+  const denied = Object.keys(updates).filter(
+    (field) => !writable.includes(field as keyof UserSettings)
+  );
+  if (denied.length > 0) {
+    return {
+      allowed: false,
+      reason: `Context "${context}" may not write settings: ${denied.join(', ')}`,
+    };
+  }
+  return ALLOWED;
+};
+
+/**
+ * Default message policies used by the background service worker
+ */
+export const MESSAGE_POLICIES: MessagePolicyMap = {
+  GET_SETTINGS: { contexts: ALL_CONTEXTS },
+  UPDATE_SETTINGS: {
+    contexts: ['content_script', 'popup', 'options'],
+    authorize: (message, context) => authorizeSettingsUpdate(message.payload ?? {}, context),
+  },
+  GET_TAB_INFO: { contexts: ALL_CONTEXTS },
+  CONTENT_SCRIPT_READY: { contexts: ['content_script'] },
+  PERFORM_ACTION: { contexts: ALL_CONTEXTS },
+  CHECK_FEATURE_ACCESS: { contexts: ALL_CONTEXTS },
+  CONTENT_SCRIPT_HEARTBEAT: { contexts: ['content_script'] },
+  CONTENT_SCRIPT_NAVIGATED: { contexts: ['content_script'] },
+  // Sessions include other tabs' URLs, which pages must not learn about
+  GET_TAB_SESSIONS: { contexts: ['popup', 'options', 'extension_page'] },
+  // Pages must not make the extension inject itself into other tabs
+  INJECT_CONTENT_SCRIPT: { contexts: ['popup', 'options', 'extension_page'] },
+  // Exports can include settings and the history of visited pages
+  EXPORT_DATA: { contexts: ['popup', 'options', 'extension_page'] },
+  // The license key is the user's purchase; pages must not read or replace it
+  GET_LICENSE: { contexts: ['popup', 'options'] },
+  ACTIVATE_LICENSE: { contexts: ['popup', 'options'] },
+  DEACTIVATE_LICENSE: { contexts: ['popup', 'options'] },
+  // Entitlements include the license; content scripts use CHECK_FEATURE_ACCESS
+  GET_ENTITLEMENTS: { contexts: ['popup', 'options'] },
+  // Trials can only be started once; pages must not use them up
+  START_TRIAL: { contexts: ['popup', 'options'] },
+};
+
+/**
+ * Decide whether a sender may deliver a message
+ */
+export const authorizeMessage = (
+  message: ExtensionMessage,
+  sender: chrome.runtime.MessageSender,
+  policies: MessagePolicyMap
+): AuthorizationResult => {
+  const policy = policies[message.type] as MessagePolicy | undefined;
+  const context = getSenderContext(sender);
+
+  if (!policy) {
+    return { allowed: false, reason: `No authorization policy for ${message.type}` };
+  }
+  if (!policy.contexts.includes(context)) {
+    return { allowed: false, reason: `Context "${context}" may not send ${message.type}` };
+  }
+  return policy.authorize ? policy.authorize(message, context) : ALLOWED;
+};
+
+// ============================================================================
+// Event Subscriptions
+// ============================================================================
+
+/**
+ * Authorization policy for subscribing to an event
+ */
+export interface EventPolicy {
+  /** Contexts allowed to subscribe */
+  contexts: readonly SenderContext[];
+}
+
+/**
+ * Authorization policies keyed by event type.
+ * Event types without a policy cannot be subscribed to.
+ */
+export type EventPolicyMap = {
+  [E in EventType]?: EventPolicy;
+};
+
+/**
+ * Default event policies used by the background service worker
+ */
+export const EVENT_POLICIES: EventPolicyMap = {
+  // Tab states include other tabs' URLs, like GET_TAB_SESSIONS
+  TAB_STATE_CHANGED: { contexts: ['popup', 'options', 'extension_page'] },
+  SETTINGS_CHANGED: { contexts: ALL_CONTEXTS },
+  // Entitlements include the license and who it was issued to
+  ENTITLEMENTS_CHANGED: { contexts: ['popup', 'options', 'extension_page'] },
+};
+
+/**
+ * Decide whether a sender may subscribe to an event. The event name comes
+ * straight from the port, so names without a policy are denied.
+ */
+export const authorizeSubscription = (
+  event: string,
+  sender: chrome.runtime.MessageSender,
+  policies: EventPolicyMap
+): AuthorizationResult => {
+  const policy = Object.keys(policies).includes(event) ? policies[event as EventType] : undefined;
+  const context = getSenderContext(sender);
+
+  if (!policy) {
+    return { allowed: false, reason: `No authorization policy for event ${event}` };
+  }
+  if (!policy.contexts.includes(context)) {
+    return { allowed: false, reason: `Context "${context}" may not subscribe to ${event}` };
+  }
+  return ALLOWED;
+};
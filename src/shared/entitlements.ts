@@ -0,0 +1,300 @@
+/**
+ * Entitlements
+ *
+ * Combines the verified license key, the trials the user started and the
+ * uses of metered features into what the user has access to right now: the
+ * effective tier, each feature with where its access comes from and when it
+ * ends, and the trials that can still be started. Entitlements depend on the
+ * time, so they are resolved on every check; the service worker additionally
+ * schedules an alarm for the next time they change (see
+ * getNextEntitlementChange).
+ */
+
+import {
+  ENTITLEMENT_CONFIG,
+  Entitlements,
+  EntitlementSource,
+  FEATURE_ACCESS,
+  FeatureEntitlement,
+  FeatureKey,
+  FieldError,
+  LicenseInfo,
+  STORAGE_KEYS,
+  SUBSCRIPTION_TIERS,
+  TIER_CONFIG,
+  TrialRecord,
+  TrialRecords,
+  TrialTarget,
+  UsageRecords,
+  getTierRank,
+  hasFeatureAccess,
+  isSubscriptionTier,
+} from './types';
+import { getLicenseInfo } from './license';
+import { getQuotaUsage, getUsage } from './usage';
+import { applyFeatureFlags, getFeatureFlags, getInstallId, hasFlagDocumentChanged } from './flags';
+import {
+  StorageChangeCallback,
+  addStorageChangeListener,
+  getStorageValue,
+  removeStorageChangeListener,
+} from './storage';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const FEATURES = Object.keys(FEATURE_ACCESS) as FeatureKey[];
+
+/**
+ * Tiers that can be tried, lowest first
+ */
+const TRIAL_TIERS = SUBSCRIPTION_TIERS.filter((tier) => TIER_CONFIG[tier].trialDays !== undefined);
+
+/**
+ * A source of access to a feature, before the longest-lasting one is picked
+ */
+interface Grant {
+  source: EntitlementSource;
+  expiresAt: number | null;
+  inGracePeriod: boolean;
+}
+
+// ============================================================================
+// Trials
+// ============================================================================
+
+const isTrialTarget = (value: string): value is TrialTarget =>
+  (TRIAL_TIERS as string[]).includes(value) || (FEATURES as string[]).includes(value);
+
+const isTrialRecord = (value: unknown): value is TrialRecord =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as TrialRecord).startedAt === 'number' &&
+  typeof (value as TrialRecord).endsAt === 'number';
+
+/**
+ * Keep the well-formed records of stored trials
+ */
+const parseTrials = (value: unknown): TrialRecords => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return {};
+  const trials: TrialRecords = {};
+  for (const [target, record] of Object.entries(value)) {
+    if (isTrialTarget(target) && isTrialRecord(record)) trials[target] = record;
+  }
+  return trials;
+};
+
+/**
+ * Whether a trial is running at the given time
+ */
+export const isTrialRunning = (trial: TrialRecord | undefined, now: number): trial is TrialRecord =>
+  trial !== undefined && trial.startedAt <= now && now < trial.endsAt;
+
+/**
+ * Create the record of a trial starting now
+ */
+export const createTrialRecord = (target: TrialTarget, now: number = Date.now()): TrialRecord => {
+  const days = isSubscriptionTier(target)
+    ? (TIER_CONFIG[target].trialDays ?? 0)
+    : ENTITLEMENT_CONFIG.featureTrialDays;
+  return { startedAt: now, endsAt: now + days * DAY_MS };
+};
+
+/**
+ * Validate a START_TRIAL payload
+ */
+export const validateTrialRequest = (payload: unknown): FieldError[] => {
+  const target = (payload as { target?: unknown } | null)?.target;
+  return typeof target === 'string' && isTrialTarget(target)
+    ? []
+    : [{ path: 'target', message: 'Expected a tier with a trial or a feature key' }];
+};
+
+/**
+ * Get the trials the user started
+ */
+export const getTrials = async (): Promise<TrialRecords> => {
+  return parseTrials(await getStorageValue<unknown>(STORAGE_KEYS.TRIALS, {}));
+};
+
+// ============================================================================
+// Resolution
+// ============================================================================
+
+/**
+ * Days until a time, rounded up; null for times that never come
+ */
+export const getDaysLeft = (endsAt: number | null, now: number): number | null =>
+  endsAt === null ? null : Math.max(0, Math.ceil((endsAt - now) / DAY_MS));
+
+/**
+ * Pick the grant that lasts longest; grants that never end win
+ */
+const pickGrant = (grants: Grant[]): Grant | null =>
+  grants.reduce<Grant | null>((best, grant) => {
+    if (!best || best.expiresAt === null) return best ?? grant;
+    if (grant.expiresAt === null || grant.expiresAt > best.expiresAt) return grant;
+    return best;
+  }, null);
+
+/**
+ * Work out what a license, a set of trials and the uses of metered features
+ * grant at a given time
+ */
+export const resolveEntitlements = (
+  license: LicenseInfo,
+  trials: TrialRecords = {},
+  now: number = Date.now(),
+  usage: UsageRecords = {}
+): Entitlements => {
+  const licensed = license.status === 'active' || license.status === 'grace';
+  const inGracePeriod = license.status === 'grace';
+  const licenseEndsAt = inGracePeriod ? license.graceEndsAt : license.expiresAt;
+  // The highest tier being tried
+  const trialTier = [...TRIAL_TIERS].reverse().find((tier) => isTrialRunning(trials[tier], now));
+
+  const features = {} as Record<FeatureKey, FeatureEntitlement>;
+  for (const feature of FEATURES) {
+    const grants: Grant[] = [];
+    if (hasFeatureAccess('free', feature)) {
+      grants.push({ source: 'free', expiresAt: null, inGracePeriod: false });
+    }
+    if (licensed && license.features.includes(feature)) {
+      grants.push({ source: 'license', expiresAt: licenseEndsAt, inGracePeriod });
+    }
+    for (const trial of [
+      ...TRIAL_TIERS.filter((tier) => hasFeatureAccess(tier, feature)).map((tier) => trials[tier]),
+      trials[feature],
+    ]) {
+      if (isTrialRunning(trial, now)) {
+        grants.push({ source: 'trial', expiresAt: trial.endsAt, inGracePeriod: false });
+      }
+    }
+
+    let grant = pickGrant(grants);
+    // Metered features are used without limit when granted otherwise
+    const quota = grant ? null : getQuotaUsage(feature, usage, now);
+    if (quota && quota.remaining > 0) {
+      grant = { source: 'quota', expiresAt: null, inGracePeriod: false };
+    }
+
+    features[feature] = {
+      feature,
+      granted: grant !== null,
+      source: grant?.source ?? null,
+      expiresAt: grant?.expiresAt ?? null,
+      daysLeft: getDaysLeft(grant?.expiresAt ?? null, now),
+      inGracePeriod: grant?.inGracePeriod ?? false,
+      quota,
+      disabled: false,
+    };
+  }
+
+  // A license outranks the trial of the same or a lower tier
+  let base: Pick<Entitlements, 'tier' | 'state' | 'endsAt'>;
+  if (licensed && (!trialTier || getTierRank(license.tier) >= getTierRank(trialTier))) {
+    base = {
+      tier: license.tier,
+      state: inGracePeriod ? 'grace' : 'licensed',
+      endsAt: licenseEndsAt,
+    };
+  } else if (trialTier) {
+    base = { tier: trialTier, state: 'trial', endsAt: trials[trialTier]?.endsAt ?? null };
+  } else {
+    base = { tier: 'free', state: 'free', endsAt: null };
+  }
+
+  const availableTrials: TrialTarget[] = [];
+  for (const tier of TRIAL_TIERS) {
+    if (getTierRank(tier) > getTierRank(base.tier) && !trials[tier]) availableTrials.push(tier);
+  }
+  for (const feature of FEATURES) {
+    const { granted, source } = features[feature];
+    if ((!granted || source === 'quota') && !trials[feature]) availableTrials.push(feature);
+  }
+
+  return {
+    ...base,
+    daysLeft: getDaysLeft(base.endsAt, now),
+    features,
+    availableTrials,
+    license,
+  };
+};
+
+/**
+ * Whether the entitlements grant a feature
+ */
+export const hasEntitlement = (entitlements: Entitlements, feature: FeatureKey): boolean =>
+  entitlements.features[feature].granted;
+
+/**
+ * The next time the entitlements change by themselves, because a trial,
+ * license or grace period ends or a used quota resets; null if nothing ends
+ */
+export const getNextEntitlementChange = (entitlements: Entitlements): number | null => {
+  const times = [
+    entitlements.endsAt,
+    ...Object.values(entitlements.features).flatMap(({ expiresAt, quota }) => [
+      expiresAt,
+      quota && quota.used > 0 ? quota.resetsAt : null,
+    ]),
+  ].filter((time): time is number => time !== null);
+  return times.length > 0 ? Math.min(...times) : null;
+};
+
+/**
+ * Short description of a tier that ends, e.g. "Trial ends in 3 days"
+ */
+export const describeEntitlementEnd = (entitlements: Entitlements): string | null => {
+  const { state, daysLeft } = entitlements;
+  if (daysLeft === null || (state !== 'trial' && state !== 'grace')) return null;
+  const when = `in ${daysLeft} ${daysLeft === 1 ? 'day' : 'days'}`;
+  return state === 'trial' ? `Trial ends ${when}` : `License expired, access ends ${when}`;
+};
+
+// ============================================================================
+// Stored Entitlements
+// ============================================================================
+
+/**
+ * Resolve the entitlements from the stored license key, trials and usage,
+ * minus the features the feature flags switch off
+ */
+export const getEntitlements = async (now: number = Date.now()): Promise<Entitlements> => {
+  const [license, trials, usage, flags, installId] = await Promise.all([
+    getLicenseInfo({ now }),
+    getTrials(),
+    getUsage(),
+    getFeatureFlags(),
+    getInstallId(),
+  ]);
+  const entitlements = resolveEntitlements(license, trials, now, usage);
+  return applyFeatureFlags(entitlements, flags?.document ?? null, installId);
+};
+
+/**
+ * Call back with the new entitlements whenever the license key, trials,
+ * usage or feature flags change. Entitlements that change because time
+ * passed are not reported.
+ */
+export const onEntitlementsChange = (
+  callback: (entitlements: Entitlements) => void
+): (() => void) => {
+  const listener: StorageChangeCallback = (changes, areaName) => {
+    const flags = changes[STORAGE_KEYS.CACHE];
+    if (
+      (areaName === 'sync' && (changes[STORAGE_KEYS.LICENSE] || changes[STORAGE_KEYS.TRIALS])) ||
+      (areaName === 'local' &&
+        (changes[STORAGE_KEYS.USAGE] || (flags && hasFlagDocumentChanged(flags))))
+    ) {
+      getEntitlements().then(callback);
+    }
+  };
+
+  addStorageChangeListener(listener);
+  return () => removeStorageChangeListener(listener);
+};
@@ -0,0 +1,98 @@
+/**
+ * Error helpers shared by message senders, listeners and middleware
+ */
+
+import {
+  Entitlements,
+  FeatureKey,
+  MessageErrorCode,
+  MessageResponse,
+  QuotaUsage,
+  SubscriptionTier,
+} from './types';
+
+/**
+ * Error carrying a machine-readable message error code
+ */
+export class MessageError extends Error {
+  constructor(
+    public readonly code: MessageErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'MessageError';
+  }
+}
+
+/**
+ * Map an error thrown while messaging to an error code.
+ * Chrome reports delivery failures only through the error message text.
+ */
+export const getErrorCode = (error: unknown): MessageErrorCode => {
+  if (error instanceof MessageError) return error.code;
+  const message = error instanceof Error ? error.message : String(error);
+  if (/receiving end does not exist/i.test(message)) return 'NO_RECEIVER';
+  if (/message port closed/i.test(message)) return 'NO_RESPONSE';
+  if (/extension context invalidated/i.test(message)) return 'CONTEXT_INVALIDATED';
+  return 'UNKNOWN';
+};
+
+/**
+ * Build a failed response from a thrown error
+ */
+export const toErrorResponse = <T = never>(
+  error: unknown,
+  code: MessageErrorCode = getErrorCode(error)
+): MessageResponse<T> => ({
+  success: false,
+  error: error instanceof Error ? error.message : 'Unknown error',
+  code,
+});
+
+/**
+ * Build the response for a feature the user's tier does not include
+ */
+export const featureLockedResponse = <T = never>(
+  feature: FeatureKey,
+  tier: SubscriptionTier
+): MessageResponse<T> => ({
+  success: false,
+  error: `Feature "${feature}" is not available on the ${tier} plan`,
+  code: 'FEATURE_LOCKED',
+});
+
+/**
+ * Build the response for a metered feature whose quota is used up
+ */
+export const quotaExceededResponse = <T = never>(
+  feature: FeatureKey,
+  quota: Pick<QuotaUsage, 'limit' | 'period'>
+): MessageResponse<T> => ({
+  success: false,
+  error: `Feature "${feature}" can be used ${quota.limit} times per ${quota.period} on your plan`,
+  code: 'QUOTA_EXCEEDED',
+});
+
+/**
+ * Build the response for a feature a feature flag switched off
+ */
+export const featureDisabledResponse = <T = never>(feature: FeatureKey): MessageResponse<T> => ({
+  success: false,
+  error: `Feature "${feature}" is currently unavailable`,
+  code: 'FEATURE_DISABLED',
+});
+
+/**
+ * Build the response for a feature the entitlements do not grant: disabled
+ * by a flag, used up if it is metered, locked otherwise
+ */
+export const featureDeniedResponse = <T = never>(
+  entitlements: Entitlements,
+  feature: FeatureKey
+): MessageResponse<T> => {
+  const { quota, disabled } = entitlements.features[feature];
+  if (disabled) return featureDisabledResponse(feature);
+  return quota
+    ? quotaExceededResponse(feature, quota)
+    : featureLockedResponse(feature, entitlements.tier);
+};
@@ -0,0 +1,297 @@
+/**
+ * Data export
+ *
+ * Pure formatters that turn page extractions, the extraction history and user
+ * settings into JSON, CSV or Markdown files. The background builds the files
+ * (after checking the export_data feature) and the UI only downloads them.
+ */
+
+import {
+  ExportFile,
+  ExportFormat,
+  ExportRequest,
+  ExportSource,
+  FieldError,
+  PageData,
+  PageTable,
+  UserSettings,
+} from './types';
+import { ObjectSchema, validatePartial } from './schema';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * MIME type and file extension of each format
+ */
+export const EXPORT_FORMATS: Record<ExportFormat, { mimeType: string; extension: string }> = {
+  json: { mimeType: 'application/json', extension: 'json' },
+  csv: { mimeType: 'text/csv', extension: 'csv' },
+  markdown: { mimeType: 'text/markdown', extension: 'md' },
+};
+
+/**
+ * Columns of the page summary CSV, one row per extraction
+ */
+const PAGE_CSV_COLUMNS = [
+  'url',
+  'title',
+  'extractedAt',
+  'description',
+  'canonicalUrl',
+  'language',
+  'wordCount',
+  'headings',
+  'links',
+  'images',
+  'tables',
+] as const;
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+const EXPORT_REQUEST_SCHEMA: ObjectSchema<Required<ExportRequest>> = {
+  kind: 'object',
+  fields: {
+    source: { kind: 'enum', values: ['page', 'history', 'settings'] },
+    format: { kind: 'enum', values: ['json', 'csv', 'markdown'] },
+    tabId: { kind: 'number' },
+  },
+};
+
+/**
+ * Validate an EXPORT_DATA payload; only tabId may be omitted
+ */
+export const validateExportRequest = (request: unknown): FieldError[] => {
+  const errors = validatePartial(EXPORT_REQUEST_SCHEMA, request);
+  if (errors.length > 0) return errors;
+  for (const field of ['source', 'format'] as const) {
+    if (!(field in (request as ExportRequest))) {
+      errors.push({ path: field, message: 'Missing field' });
+    }
+  }
+  return errors;
+};
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+/**
+ * Escape a CSV cell per RFC 4180. Cells that a spreadsheet would evaluate as
+ * a formula are prefixed with a quote so exported page content cannot run.
+ */
+export const escapeCsvCell = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  let text = typeof value === 'string' ? value : String(value);
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Join rows into a CSV document with CRLF line endings
+ */
+export const toCsv = (rows: unknown[][]): string => {
+  return rows.map((row) => row.map(escapeCsvCell).join(',')).join('\r\n') + '\r\n';
+};
+
+/**
+ * Flatten nested settings into dot-separated paths
+ */
+export const flattenObject = (value: unknown, prefix = ''): [string, unknown][] => {
+  // Lists such as site rules are kept whole, as JSON
+  if (Array.isArray(value)) return [[prefix, JSON.stringify(value)]];
+  if (typeof value !== 'object' || value === null) return [[prefix, value]];
+  const entries = Object.entries(value);
+  if (entries.length === 0) return prefix ? [[prefix, '']] : [];
+  return entries.flatMap(([key, child]) => flattenObject(child, prefix ? `${prefix}.${key}` : key));
+};
+
+const pageRow = (page: PageData): unknown[] => [
+  page.url,
+  page.title,
+  new Date(page.extractedAt).toISOString(),
+  page.metadata?.description,
+  page.metadata?.canonicalUrl,
+  page.metadata?.language,
+  page.mainContent?.wordCount,
+  page.headings?.length,
+  page.links?.length,
+  page.images?.length,
+  page.tables?.length,
+];
+
+const pagesToCsv = (pages: PageData[]): string => {
+  return toCsv([[...PAGE_CSV_COLUMNS], ...pages.map(pageRow)]);
+};
+
+const settingsToCsv = (settings: UserSettings): string => {
+  return toCsv([['setting', 'value'], ...flattenObject(settings)]);
+};
+
+// ============================================================================
+// Markdown
+// ============================================================================
+
+/**
+ * Make text safe to use inside a Markdown table cell
+ */
+export const escapeMarkdownCell = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  return String(value).replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/\s+/g, ' ').trim();
+};
+
+/**
+ * Render a Markdown table
+ */
+export const toMarkdownTable = (headers: string[], rows: unknown[][]): string => {
+  const width = Math.max(headers.length, ...rows.map((row) => row.length), 1);
+  const pad = (cells: unknown[]) =>
+    Array.from({ length: width }, (_, i) => escapeMarkdownCell(cells[i]));
+  const line = (cells: string[]) => `| ${cells.join(' | ')} |`;
+  return [
+    line(pad(headers)),
+    line(Array.from({ length: width }, () => '---')),
+    ...rows.map((row) => line(pad(row))),
+  ].join('\n');
+};
+
+const tableToMarkdown = (table: PageTable): string => {
+  const headers = table.headers.length > 0 ? table.headers : (table.rows[0] ?? []);
+  const rows = table.headers.length > 0 ? table.rows : table.rows.slice(1);
+  const rendered = toMarkdownTable(headers, rows);
+  return table.caption ? `**${escapeMarkdownCell(table.caption)}**\n\n${rendered}` : rendered;
+};
+
+const pageToMarkdown = (page: PageData): string => {
+  const sections: string[] = [`# ${page.title || page.url}`, `<${page.url}>`];
+
+  if (page.metadata?.description) sections.push(`> ${page.metadata.description}`);
+
+  if (page.headings && page.headings.length > 0) {
+    const minLevel = Math.min(...page.headings.map((heading) => heading.level));
+    const outline = page.headings
+      .map((heading) => `${'  '.repeat(heading.level - minLevel)}- ${heading.text}`)
+      .join('\n');
+    sections.push(`## Outline\n\n${outline}`);
+  }
+
+  if (page.mainContent) {
+    sections.push(`## Content\n\n${page.mainContent.text}`);
+  }
+
+  if (page.tables && page.tables.length > 0) {
+    sections.push(`## Tables\n\n${page.tables.map(tableToMarkdown).join('\n\n')}`);
+  }
+
+  if (page.links && page.links.length > 0) {
+    const links = page.links
+      .map((link) => `- [${link.text.replace(/[[\]]/g, '\\$&') || link.href}](<${link.href}>)`)
+      .join('\n');
+    sections.push(`## Links\n\n${links}`);
+  }
+
+  if (page.images && page.images.length > 0) {
+    const images = page.images
+      .map((image) => `- <${image.src}>${image.alt ? ` — ${image.alt}` : ''}`)
+      .join('\n');
+    sections.push(`## Images\n\n${images}`);
+  }
+
+  const structured = (page.jsonLd?.length ?? 0) + (page.microdata?.length ?? 0);
+  if (structured > 0) {
+    sections.push(`_${structured} structured data item(s) are included in the JSON export._`);
+  }
+
+  return sections.join('\n\n') + '\n';
+};
+
+const historyToMarkdown = (pages: PageData[]): string => {
+  const rows = pages.map((page) => [
+    page.title,
+    page.url,
+    new Date(page.extractedAt).toISOString(),
+    page.mainContent?.wordCount,
+  ]);
+  return `# Extraction history\n\n${toMarkdownTable(['Title', 'URL', 'Extracted', 'Words'], rows)}\n`;
+};
+
+const settingsToMarkdown = (settings: UserSettings): string => {
+  const rows = flattenObject(settings).map(([path, value]) => [`\`${path}\``, value]);
+  return `# Settings\n\n${toMarkdownTable(['Setting', 'Value'], rows)}\n`;
+};
+
+// ============================================================================
+// Files
+// ============================================================================
+
+/**
+ * Data behind each export source
+ */
+export interface ExportData {
+  page: PageData;
+  history: PageData[];
+  settings: UserSettings;
+}
+
+const hostnameOf = (url: string): string => {
+  try {
+    return new URL(url).hostname.replace(/[^a-z0-9.-]/gi, '') || 'page';
+  } catch {
+    return 'page';
+  }
+};
+
+/**
+ * File name for an export, e.g. "page-example.com-2024-01-31.md"
+ */
+export const getExportFilename = <S extends ExportSource>(
+  source: S,
+  format: ExportFormat,
+  data: ExportData[S],
+  now: number = Date.now()
+): string => {
+  const date = new Date(now).toISOString().slice(0, 10);
+  const name =
+    source === 'page'
+      ? `page-${hostnameOf((data as PageData).url)}`
+      : source === 'history'
+        ? 'extraction-history'
+        : 'settings';
+  return `${name}-${date}.${EXPORT_FORMATS[format].extension}`;
+};
+
+const formatContent = <S extends ExportSource>(
+  source: S,
+  format: ExportFormat,
+  data: ExportData[S]
+): string => {
+  if (format === 'json') return JSON.stringify(data, null, 2) + '\n';
+
+  if (source === 'settings') {
+    const settings = data as UserSettings;
+    return format === 'csv' ? settingsToCsv(settings) : settingsToMarkdown(settings);
+  }
+  if (source === 'history') {
+    const pages = data as PageData[];
+    return format === 'csv' ? pagesToCsv(pages) : historyToMarkdown(pages);
+  }
+  const page = data as PageData;
+  return format === 'csv' ? pagesToCsv([page]) : pageToMarkdown(page);
+};
+
+/**
+ * Build an export file from the data of a source
+ */
+export const createExportFile = <S extends ExportSource>(
+  source: S,
+  format: ExportFormat,
+  data: ExportData[S],
+  now: number = Date.now()
+): ExportFile => ({
+  filename: getExportFilename(source, format, data, now),
+  mimeType: EXPORT_FORMATS[format].mimeType,
+  content: formatContent(source, format, data),
+});
@@ -0,0 +1,167 @@
+/**
+ * Feature flags
+ *
+ * Remote flags switch features off or roll them out to a percentage of
+ * installs without shipping a new build. The background fetches the flag
+ * document (see background/flags.ts) and keeps the last good copy in
+ * chrome.storage.local, so flags keep working offline. Flags only take access
+ * away: a feature that is on still needs the tier, license, trial or quota
+ * that grants it.
+ */
+
+import {
+  Entitlements,
+  FEATURE_ACCESS,
+  FeatureEntitlement,
+  FeatureFlag,
+  FeatureFlagCache,
+  FeatureFlagDocument,
+  FeatureKey,
+  STORAGE_KEYS,
+} from './types';
+import { getLocalStorageValue, setLocalStorageValue } from './storage';
+
+const FEATURES = Object.keys(FEATURE_ACCESS) as FeatureKey[];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// ============================================================================
+// Flag Documents
+// ============================================================================
+
+const isFeatureFlag = (value: unknown): value is FeatureFlag =>
+  isRecord(value) &&
+  typeof value.enabled === 'boolean' &&
+  (value.rollout === undefined ||
+    (typeof value.rollout === 'number' && value.rollout >= 0 && value.rollout <= 100));
+
+/**
+ * Check the shape of a flag document. Flags of features this version does
+ * not know are skipped; any malformed flag rejects the whole document, so a
+ * broken deploy cannot switch features on or off by accident.
+ */
+export const parseFlagDocument = (value: unknown): FeatureFlagDocument | null => {
+  if (!isRecord(value) || !isRecord(value.flags)) return null;
+  const flags: FeatureFlagDocument['flags'] = {};
+  for (const [feature, flag] of Object.entries(value.flags)) {
+    if (!(FEATURES as string[]).includes(feature)) continue;
+    if (!isFeatureFlag(flag)) return null;
+    flags[feature as FeatureKey] = { enabled: flag.enabled, rollout: flag.rollout };
+  }
+  return { flags };
+};
+
+/**
+ * Get the last good flag document, or null if none was fetched yet
+ */
+export const getFeatureFlags = async (): Promise<FeatureFlagCache | null> => {
+  const cache = await getLocalStorageValue<unknown>(STORAGE_KEYS.CACHE, null);
+  if (!isRecord(cache) || typeof cache.fetchedAt !== 'number') return null;
+  const document = parseFlagDocument(cache.document);
+  if (!document) return null;
+  return {
+    document,
+    etag: typeof cache.etag === 'string' ? cache.etag : null,
+    fetchedAt: cache.fetchedAt,
+  };
+};
+
+/**
+ * Whether a change of the flag cache changed the document. A refresh that
+ * found the document unchanged still stores the time it checked.
+ */
+export const hasFlagDocumentChanged = (change: chrome.storage.StorageChange): boolean => {
+  const document = (cache: unknown) => (isRecord(cache) ? cache.document : undefined);
+  return JSON.stringify(document(change.oldValue)) !== JSON.stringify(document(change.newValue));
+};
+
+// ============================================================================
+// Rollouts
+// ============================================================================
+
+let installId: Promise<string> | null = null;
+
+/**
+ * Get the random ID of this install, creating it on first use. It is only
+ * used to place the install in percentage rollouts.
+ */
+export const getInstallId = (): Promise<string> => {
+  installId ??= (async () => {
+    const stored = await getLocalStorageValue<unknown>(STORAGE_KEYS.INSTALL_ID, null);
+    if (typeof stored === 'string' && stored !== '') return stored;
+    const id = crypto.randomUUID();
+    await setLocalStorageValue(STORAGE_KEYS.INSTALL_ID, id);
+    return id;
+  })();
+  return installId;
+};
+
+/**
+ * 32-bit FNV-1a hash
+ */
+const hash = (value: string): number => {
+  let result = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    result ^= value.charCodeAt(i);
+    result = Math.imul(result, 0x01000193);
+  }
+  return result >>> 0;
+};
+
+/**
+ * Stable position of an install in the rollout of a feature, 0-99. The
+ * feature is part of the key, so different features reach different installs
+ * first.
+ */
+export const getRolloutBucket = (installId: string, feature: FeatureKey): number =>
+  hash(`${feature}:${installId}`) % 100;
+
+/**
+ * Whether a flag lets an install use a feature; features without a flag are on
+ */
+export const isFeatureEnabled = (
+  flag: FeatureFlag | undefined,
+  feature: FeatureKey,
+  installId: string
+): boolean => {
+  if (!flag) return true;
+  if (!flag.enabled) return false;
+  return getRolloutBucket(installId, feature) < (flag.rollout ?? 100);
+};
+
+/**
+ * Take away the features a flag document switches off for an install
+ */
+export const applyFeatureFlags = (
+  entitlements: Entitlements,
+  document: FeatureFlagDocument | null,
+  installId: string
+): Entitlements => {
+  if (!document) return entitlements;
+
+  const features = { ...entitlements.features };
+  for (const feature of FEATURES) {
+    if (isFeatureEnabled(document.flags[feature], feature, installId)) continue;
+    const disabled: FeatureEntitlement = {
+      feature,
+      granted: false,
+      source: null,
+      expiresAt: null,
+      daysLeft: null,
+      inGracePeriod: false,
+      quota: null,
+      disabled: true,
+    };
+    features[feature] = disabled;
+  }
+
+  return {
+    ...entitlements,
+    features,
+    // Trying a feature that is switched off would only waste the trial
+    availableTrials: entitlements.availableTrials.filter(
+      (target) => !features[target as FeatureKey]?.disabled
+    ),
+  };
+};
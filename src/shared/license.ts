@@ -0,0 +1,231 @@
+/**
+ * License keys
+ *
+ * A license key is a token of the form `<claims>.<signature>`: the claims are
+ * base64url-encoded JSON (see LicenseClaims) and the signature is the
+ * base64url-encoded ECDSA P-256 / SHA-256 signature of the claims part, in
+ * the raw r || s form WebCrypto produces. Keys are signed with a private key
+ * that never ships with the extension and are verified offline against the
+ * public key embedded below, so the tier they grant cannot be forged by
+ * editing storage.
+ */
+
+import {
+  ENTITLEMENT_CONFIG,
+  FEATURE_ACCESS,
+  FeatureKey,
+  FieldError,
+  LicenseClaims,
+  LicenseInfo,
+  STORAGE_KEYS,
+  SubscriptionTier,
+  hasFeatureAccess,
+  isSubscriptionTier,
+} from './types';
+import {
+  StorageChangeCallback,
+  addStorageChangeListener,
+  getStorageValue,
+  removeStorageChangeListener,
+} from './storage';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Public key license keys are verified against (SPKI, base64). Replace it
+ * with the public half of your own signing key.
+ */
+export const LICENSE_PUBLIC_KEY =
+  'MFkwEwYHKoZIzj0CAQYIKoZIzj0DAQcDQgAE5oCzh447Xmw2dy4gKvcH1a7sEHUwH9a7wBA14Wg7XKiaXjyHKEdrQ4w+m/CkUBLgaUSHY5NF7esAMldCLVTUxA==';
+
+const SIGNATURE_ALGORITHM: EcdsaParams = { name: 'ECDSA', hash: 'SHA-256' };
+const KEY_ALGORITHM: EcKeyImportParams = { name: 'ECDSA', namedCurve: 'P-256' };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface LicenseVerifyOptions {
+  /** Key to verify signatures with; defaults to LICENSE_PUBLIC_KEY */
+  publicKey?: CryptoKey;
+  /** Current time (ms since epoch), for expiry checks */
+  now?: number;
+  /** How long an expired license keeps granting its tier; defaults to ENTITLEMENT_CONFIG */
+  gracePeriodMs?: number;
+}
+
+// ============================================================================
+// Tiers & Features
+// ============================================================================
+
+/**
+ * Features included in a tier
+ */
+export const getTierFeatures = (tier: SubscriptionTier): FeatureKey[] =>
+  (Object.keys(FEATURE_ACCESS) as FeatureKey[]).filter((feature) =>
+    hasFeatureAccess(tier, feature)
+  );
+
+/**
+ * What the user gets without a license
+ */
+export const FREE_LICENSE: LicenseInfo = {
+  status: 'none',
+  tier: 'free',
+  features: getTierFeatures('free'),
+  licensee: null,
+  expiresAt: null,
+  graceEndsAt: null,
+};
+
+// ============================================================================
+// Verification
+// ============================================================================
+
+const decodeBase64 = (value: string): Uint8Array<ArrayBuffer> => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+};
+
+let defaultKey: Promise<CryptoKey> | null = null;
+
+const getDefaultKey = (): Promise<CryptoKey> => {
+  defaultKey ??= crypto.subtle.importKey(
+    'spki',
+    decodeBase64(LICENSE_PUBLIC_KEY),
+    KEY_ALGORITHM,
+    false,
+    ['verify']
+  );
+  return defaultKey;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Check the shape of decoded claims. Unknown features are dropped so that
+ * keys issued for newer versions still work.
+ */
+const parseClaims = (value: unknown): LicenseClaims | null => {
+  if (!isRecord(value)) return null;
+  const { id, licensee, tier, features = [], issuedAt, expiresAt = null } = value;
+  if (typeof id !== 'string' || typeof licensee !== 'string') return null;
+  if (!isSubscriptionTier(tier)) return null;
+  if (!Array.isArray(features) || typeof issuedAt !== 'number') return null;
+  if (expiresAt !== null && typeof expiresAt !== 'number') return null;
+  return {
+    id,
+    licensee,
+    tier,
+    features: features.filter((feature): feature is FeatureKey =>
+      Object.keys(FEATURE_ACCESS).includes(feature)
+    ),
+    issuedAt,
+    expiresAt,
+  };
+};
+
+const invalidLicense = (error: string): LicenseInfo => ({
+  ...FREE_LICENSE,
+  status: 'invalid',
+  error,
+});
+
+/**
+ * Verify a license key and work out what it grants
+ */
+export const verifyLicenseToken = async (
+  token: string,
+  options: LicenseVerifyOptions = {}
+): Promise<LicenseInfo> => {
+  const { now = Date.now(), gracePeriodMs = ENTITLEMENT_CONFIG.gracePeriodDays * DAY_MS } = options;
+  const parts = token.trim().split('.');
+  if (parts.length !== 2) return invalidLicense('Malformed license key');
+  const [encodedClaims, encodedSignature] = parts;
+
+  let claims: LicenseClaims | null;
+  try {
+    const publicKey = options.publicKey ?? (await getDefaultKey());
+    const valid = await crypto.subtle.verify(
+      SIGNATURE_ALGORITHM,
+      publicKey,
+      decodeBase64(encodedSignature),
+      new TextEncoder().encode(encodedClaims)
+    );
+    if (!valid) return invalidLicense('License key signature is not valid');
+    claims = parseClaims(JSON.parse(new TextDecoder().decode(decodeBase64(encodedClaims))));
+  } catch {
+    // Bad base64 or JSON
+    return invalidLicense('Malformed license key');
+  }
+  if (!claims) return invalidLicense('License key is missing required fields');
+
+  const { licensee, expiresAt } = claims;
+  const graceEndsAt = expiresAt === null ? null : expiresAt + gracePeriodMs;
+  if (graceEndsAt !== null && graceEndsAt <= now) {
+    return {
+      ...FREE_LICENSE,
+      status: 'expired',
+      licensee,
+      expiresAt,
+      graceEndsAt,
+      error: 'License expired',
+    };
+  }
+  const features = new Set([...getTierFeatures(claims.tier), ...claims.features]);
+  return {
+    status: expiresAt !== null && expiresAt <= now ? 'grace' : 'active',
+    tier: claims.tier,
+    features: [...features],
+    licensee,
+    expiresAt,
+    graceEndsAt,
+  };
+};
+
+/**
+ * Validate an ACTIVATE_LICENSE payload
+ */
+export const validateLicenseActivation = (payload: unknown): FieldError[] =>
+  isRecord(payload) && typeof payload.token === 'string' && payload.token.trim() !== ''
+    ? []
+    : [{ path: 'token', message: 'Expected a license key' }];
+
+// ============================================================================
+// Stored License
+// ============================================================================
+
+const toLicenseInfo = async (
+  token: unknown,
+  options: LicenseVerifyOptions = {}
+): Promise<LicenseInfo> =>
+  typeof token === 'string' ? verifyLicenseToken(token, options) : FREE_LICENSE;
+
+/**
+ * Get what the stored license key grants. The key is verified on every read,
+ * so a license that expires while the extension runs stops granting its tier.
+ */
+export const getLicenseInfo = async (options: LicenseVerifyOptions = {}): Promise<LicenseInfo> => {
+  const token = await getStorageValue<unknown>(STORAGE_KEYS.LICENSE, null);
+  return toLicenseInfo(token, options);
+};
+
+/**
+ * Call back with the verified license whenever the stored key changes
+ */
+export const onLicenseChange = (callback: (license: LicenseInfo) => void): (() => void) => {
+  const listener: StorageChangeCallback = (changes, areaName) => {
+    if (areaName === 'sync' && changes[STORAGE_KEYS.LICENSE]) {
+      toLicenseInfo(changes[STORAGE_KEYS.LICENSE].newValue).then(callback);
+    }
+  };
+
+  addStorageChangeListener(listener);
+  return () => removeStorageChangeListener(listener);
+};
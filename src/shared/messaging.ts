@@ -4,75 +4,166 @@
 
 import {
   ExtensionMessage,
+  MessageErrorCode,
   MessageResponse,
-  GetSettingsMessage,
-  UpdateSettingsMessage,
-  GetTabInfoMessage,
-  ContentScriptReadyMessage,
-  PerformActionMessage,
-  CheckFeatureAccessMessage,
+  MessageResult,
+  MessageType,
+  ExtensionMessageOf,
   UserSettings,
-  TabInfo,
+  DeepPartial,
   FeatureKey,
+  ActionName,
+  ActionPayload,
+  ActionResult,
+  ExportFormat,
+  ExportSource,
+  TrialTarget,
 } from './types';
+import { MessageError, toErrorResponse } from './errors';
+import { composeMiddleware, MessageContext, Middleware, MiddlewareConfig } from './middleware';
 
 // ============================================================================
-// Message Senders
+// Delivery Options
 // ============================================================================
 
 /**
- * Send a message to the background service worker
+ * Per-call delivery options for sendMessage and sendMessageToTab
  */
-export const sendMessage = async <T>(message: ExtensionMessage): Promise<MessageResponse<T>> => {
-  try {
-    const response = await chrome.runtime.sendMessage<ExtensionMessage, MessageResponse<T>>(
-      message
+export interface SendMessageOptions {
+  /** Milliseconds to wait for a response before failing with TIMEOUT (0 = wait forever) */
+  timeoutMs?: number;
+  /** Extra attempts after a NO_RECEIVER or TIMEOUT failure */
+  retries?: number;
+  /** Delay before the first retry, in milliseconds */
+  retryDelayMs?: number;
+  /** Multiplier applied to the delay after each retry */
+  backoffFactor?: number;
+}
+
+/**
+ * Defaults applied to every send
+ */
+export const DEFAULT_SEND_OPTIONS: Required<SendMessageOptions> = {
+  timeoutMs: 10000,
+  retries: 0,
+  retryDelayMs: 250,
+  backoffFactor: 2,
+};
+
+/**
+ * Failures that may succeed on a later attempt, e.g. while the service worker starts
+ */
+const RETRYABLE_CODES: readonly MessageErrorCode[] = ['NO_RECEIVER', 'TIMEOUT'];
+
+const delay = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+const withTimeout = async <T>(promise: Promise<T>, timeoutMs: number): Promise<T> => {
+  if (timeoutMs <= 0) return promise;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new MessageError('TIMEOUT', `No response within ${timeoutMs}ms`)),
+      timeoutMs
     );
-    return response;
-  } catch (error) {
-    console.error('Failed to send message:', error);
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error',
-    };
+  });
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
   }
 };
 
+/**
+ * Deliver a message with timeout and retry handling
+ */
+const deliver = async <R>(
+  send: () => Promise<MessageResponse<R> | undefined>,
+  options: SendMessageOptions | undefined,
+  description: string
+): Promise<MessageResponse<R>> => {
+  const { timeoutMs, retries, retryDelayMs, backoffFactor } = {
+    ...DEFAULT_SEND_OPTIONS,
+    ...options,
+  };
+  let wait = retryDelayMs;
+
+  for (let attempt = 0; ; attempt++) {
+    let response: MessageResponse<R>;
+    let failure: unknown = null;
+    try {
+      // A listener that never calls sendResponse resolves to undefined
+      response = (await withTimeout(send(), timeoutMs)) ?? {
+        success: false,
+        error: 'No response from receiver',
+        code: 'NO_RESPONSE',
+      };
+    } catch (error) {
+      failure = error;
+      response = toErrorResponse(error);
+    }
+
+    const retryable =
+      !response.success && response.code !== undefined && RETRYABLE_CODES.includes(response.code);
+    if (!retryable || attempt >= retries) {
+      if (failure) {
+        console.error(`Failed to send message ${description}:`, failure);
+      }
+      return response;
+    }
+
+    await delay(wait);
+    wait *= backoffFactor;
+  }
+};
+
+// ============================================================================
+// Message Senders
+// ============================================================================
+
+/**
+ * Send a message to the background service worker.
+ * The response type is derived from the message type via MessageMap.
+ */
+export const sendMessage = async <M extends ExtensionMessage>(
+  message: M,
+  options?: SendMessageOptions
+): Promise<MessageResponse<MessageResult<M['type']>>> => {
+  return deliver(
+    () => chrome.runtime.sendMessage<M, MessageResponse<MessageResult<M['type']>>>(message),
+    options,
+    message.type
+  );
+};
+
 /**
  * Send a message to a specific tab's content script
  */
-export const sendMessageToTab = async <T>(
+export const sendMessageToTab = async <M extends ExtensionMessage>(
   tabId: number,
-  message: ExtensionMessage
-): Promise<MessageResponse<T>> => {
-  try {
-    const response = await chrome.tabs.sendMessage<ExtensionMessage, MessageResponse<T>>(
-      tabId,
-      message
-    );
-    return response;
-  } catch (error) {
-    console.error(`Failed to send message to tab ${tabId}:`, error);
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error',
-    };
-  }
+  message: M,
+  options?: SendMessageOptions
+): Promise<MessageResponse<MessageResult<M['type']>>> => {
+  return deliver(
+    () => chrome.tabs.sendMessage<M, MessageResponse<MessageResult<M['type']>>>(tabId, message),
+    options,
+    `${message.type} to tab ${tabId}`
+  );
 };
 
 /**
  * Send a message to all tabs
  */
-export const broadcastToAllTabs = async <T>(
-  message: ExtensionMessage
-): Promise<Map<number, MessageResponse<T>>> => {
-  const results = new Map<number, MessageResponse<T>>();
+export const broadcastToAllTabs = async <M extends ExtensionMessage>(
+  message: M,
+  options?: SendMessageOptions
+): Promise<Map<number, MessageResponse<MessageResult<M['type']>>>> => {
+  const results = new Map<number, MessageResponse<MessageResult<M['type']>>>();
   try {
     const tabs = await chrome.tabs.query({});
     await Promise.all(
       tabs.map(async (tab) => {
         if (tab.id) {
-          const response = await sendMessageToTab<T>(tab.id, message);
+          const response = await sendMessageToTab(tab.id, message, options);
           results.set(tab.id, response);
         }
       })
@@ -90,30 +181,25 @@ export const broadcastToAllTabs = async <T>(
 /**
  * Request current user settings from background
  */
-export const requestSettings = async (): Promise<MessageResponse<UserSettings>> => {
-  const message: GetSettingsMessage = { type: 'GET_SETTINGS' };
-  return sendMessage<UserSettings>(message);
+export const requestSettings = async (options?: SendMessageOptions) => {
+  return sendMessage({ type: 'GET_SETTINGS' }, options);
 };
 
 /**
  * Request to update user settings
  */
 export const requestUpdateSettings = async (
-  updates: Partial<UserSettings>
-): Promise<MessageResponse<UserSettings>> => {
-  const message: UpdateSettingsMessage = {
-    type: 'UPDATE_SETTINGS',
-    payload: updates,
-  };
-  return sendMessage<UserSettings>(message);
+  updates: DeepPartial<UserSettings>,
+  options?: SendMessageOptions
+) => {
+  return sendMessage({ type: 'UPDATE_SETTINGS', payload: updates }, options);
 };
 
 /**
  * Request current tab information
  */
-export const requestTabInfo = async (): Promise<MessageResponse<TabInfo>> => {
-  const message: GetTabInfoMessage = { type: 'GET_TAB_INFO' };
-  return sendMessage<TabInfo>(message);
+export const requestTabInfo = async (options?: SendMessageOptions) => {
+  return sendMessage({ type: 'GET_TAB_INFO' }, options);
 };
 
 /**
@@ -121,40 +207,131 @@ export const requestTabInfo = async (): Promise<MessageResponse<TabInfo>> => {
  */
 export const notifyContentScriptReady = async (
   url: string,
-  title: string
-): Promise<MessageResponse<void>> => {
-  const message: ContentScriptReadyMessage = {
-    type: 'CONTENT_SCRIPT_READY',
-    payload: { url, title },
-  };
-  return sendMessage<void>(message);
+  title: string,
+  options?: SendMessageOptions
+) => {
+  return sendMessage({ type: 'CONTENT_SCRIPT_READY', payload: { url, title } }, options);
 };
 
 /**
- * Request to perform an action
+ * Options for requestAction
  */
-export const requestAction = async (
-  action: string,
-  data?: unknown
-): Promise<MessageResponse<unknown>> => {
-  const message: PerformActionMessage = {
-    type: 'PERFORM_ACTION',
-    payload: { action, data },
-  };
-  return sendMessage<unknown>(message);
+export interface ActionRequestOptions extends SendMessageOptions {
+  /**
+   * Tab to run a content action in. Defaults to the sender's own tab for
+   * content scripts and to the active tab for extension pages. Ignored for
+   * background actions.
+   */
+  tabId?: number;
+}
+
+/**
+ * Request to perform an action. The background routes it to wherever the
+ * action is declared to run; the payload is optional for actions without one.
+ */
+export const requestAction = async <A extends ActionName>(
+  action: A,
+  ...[data, options = {}]: undefined extends ActionPayload<A>
+    ? [data?: ActionPayload<A>, options?: ActionRequestOptions]
+    : [data: ActionPayload<A>, options?: ActionRequestOptions]
+): Promise<MessageResponse<ActionResult<A>>> => {
+  const { tabId, ...sendOptions } = options;
+  const response = await sendMessage(
+    { type: 'PERFORM_ACTION', payload: { action, data, tabId } },
+    sendOptions
+  );
+  return response as MessageResponse<ActionResult<A>>;
 };
 
 /**
- * Check if user has access to a feature
+ * Check if user has access to a feature, and until when
  */
-export const checkFeatureAccess = async (
-  feature: FeatureKey
-): Promise<MessageResponse<boolean>> => {
-  const message: CheckFeatureAccessMessage = {
-    type: 'CHECK_FEATURE_ACCESS',
-    payload: { feature },
-  };
-  return sendMessage<boolean>(message);
+export const checkFeatureAccess = async (feature: FeatureKey, options?: SendMessageOptions) => {
+  return sendMessage({ type: 'CHECK_FEATURE_ACCESS', payload: { feature } }, options);
+};
+
+/**
+ * Request the effective tier, trials and access to every feature
+ */
+export const requestEntitlements = async (options?: SendMessageOptions) => {
+  return sendMessage({ type: 'GET_ENTITLEMENTS' }, options);
+};
+
+/**
+ * Start the trial of a tier or of a single feature
+ */
+export const requestTrialStart = async (target: TrialTarget, options?: SendMessageOptions) => {
+  return sendMessage({ type: 'START_TRIAL', payload: { target } }, options);
+};
+
+/**
+ * Request the verified license and what it grants
+ */
+export const requestLicense = async (options?: SendMessageOptions) => {
+  return sendMessage({ type: 'GET_LICENSE' }, options);
+};
+
+/**
+ * Activate a license key; fails if the key is invalid or expired
+ */
+export const requestLicenseActivation = async (token: string, options?: SendMessageOptions) => {
+  return sendMessage({ type: 'ACTIVATE_LICENSE', payload: { token } }, options);
+};
+
+/**
+ * Remove the stored license key
+ */
+export const requestLicenseDeactivation = async (options?: SendMessageOptions) => {
+  return sendMessage({ type: 'DEACTIVATE_LICENSE' }, options);
+};
+
+/**
+ * Tell the background that the page navigated on the client side
+ */
+export const notifyNavigation = async (
+  url: string,
+  title: string,
+  options?: SendMessageOptions
+) => {
+  return sendMessage({ type: 'CONTENT_SCRIPT_NAVIGATED', payload: { url, title } }, options);
+};
+
+/**
+ * Tell the background that the content script is still alive
+ */
+export const sendHeartbeat = async (options?: SendMessageOptions) => {
+  return sendMessage({ type: 'CONTENT_SCRIPT_HEARTBEAT' }, options);
+};
+
+/**
+ * Request the live content-script sessions of a tab (defaults to the active tab)
+ */
+export const requestTabSessions = async (tabId?: number, options?: SendMessageOptions) => {
+  return sendMessage({ type: 'GET_TAB_SESSIONS', payload: { tabId } }, options);
+};
+
+/**
+ * Request the content script to be injected into a tab (defaults to the
+ * active tab). Resolves to false when it was already running there.
+ */
+export const requestContentScriptInjection = async (
+  tabId?: number,
+  options?: SendMessageOptions
+) => {
+  return sendMessage({ type: 'INJECT_CONTENT_SCRIPT', payload: { tabId } }, options);
+};
+
+/**
+ * Request an export file; "page" exports extract the given tab (defaults to the active tab)
+ */
+export const requestExport = async (
+  source: ExportSource,
+  format: ExportFormat,
+  options: SendMessageOptions & { tabId?: number } = {}
+) => {
+  const { tabId, ...sendOptions } = options;
+  const payload = tabId === undefined ? { source, format } : { source, format, tabId };
+  return sendMessage({ type: 'EXPORT_DATA', payload }, sendOptions);
 };
 
 // ============================================================================
@@ -162,54 +339,77 @@ export const checkFeatureAccess = async (
 // ============================================================================
 
 /**
- * Message handler function type
+ * Message handler function type for a single message type
  */
-export type MessageHandler<T extends ExtensionMessage = ExtensionMessage, R = unknown> = (
-  message: T,
+export type MessageHandler<K extends MessageType = MessageType> = (
+  message: ExtensionMessageOf<K>,
   sender: chrome.runtime.MessageSender
-) => Promise<MessageResponse<R>> | MessageResponse<R>;
+) => Promise<MessageResponse<MessageResult<K>>> | MessageResponse<MessageResult<K>>;
 
 /**
  * Message handler map type
  */
 export type MessageHandlerMap = {
-  [K in ExtensionMessage['type']]?: MessageHandler<
-    Extract<ExtensionMessage, { type: K }>,
-    unknown
-  >;
+  [K in MessageType]?: MessageHandler<K>;
 };
 
 /**
- * Create a message listener with typed handlers
+ * Create a dispatcher that runs a message through the global middleware, then
+ * the middleware declared for its type, then its handler.
+ * Shared by the one-off message listener and the port-based RPC server.
+ */
+export const createMessageDispatcher = (
+  handlers: MessageHandlerMap,
+  middleware: MiddlewareConfig = {}
+): ((
+  message: ExtensionMessage,
+  sender: chrome.runtime.MessageSender
+) => Promise<MessageResponse>) => {
+  const dispatch = (context: MessageContext): Promise<MessageResponse> => {
+    const type = context.message.type;
+    const handler = handlers[type] as MessageHandler | undefined;
+    const perType = (middleware.perType?.[type] ?? []) as Middleware[];
+
+    return composeMiddleware(perType, async ({ message, sender }) => {
+      if (!handler) {
+        return {
+          success: false,
+          error: `Unknown message type: ${type}`,
+          code: 'UNKNOWN_MESSAGE_TYPE',
+        };
+      }
+      return handler(message, sender);
+    })(context);
+  };
+  const pipeline = composeMiddleware(middleware.global ?? [], dispatch);
+
+  return async (message, sender) => {
+    try {
+      return await pipeline({ message, sender, state: {} });
+    } catch (error) {
+      return toErrorResponse(error, 'HANDLER_ERROR');
+    }
+  };
+};
+
+/**
+ * Create a message listener with typed handlers.
+ * Every message runs through the global middleware, then the middleware
+ * declared for its type, then its handler.
  */
 export const createMessageListener = (
-  handlers: MessageHandlerMap
+  handlers: MessageHandlerMap,
+  middleware: MiddlewareConfig = {}
 ): ((
   message: ExtensionMessage,
   sender: chrome.runtime.MessageSender,
   sendResponse: (response: MessageResponse) => void
 ) => boolean) => {
+  const dispatch = createMessageDispatcher(handlers, middleware);
+
   return (message, sender, sendResponse) => {
-    const handler = handlers[message.type];
-    if (handler) {
-      // Handle async handlers
-      const result = handler(message as never, sender);
-      if (result instanceof Promise) {
-        result.then(sendResponse).catch((error) => {
-          sendResponse({
-            success: false,
-            error: error instanceof Error ? error.message : 'Unknown error',
-          });
-        });
-        return true; // Keep the message channel open for async response
-      } else {
-        sendResponse(result);
-        return false;
-      }
-    }
-    // No handler found
-    sendResponse({ success: false, error: `Unknown message type: ${message.type}` });
-    return false;
+    dispatch(message, sender).then(sendResponse);
+    return true; // Keep the message channel open for async response
   };
 };
 
@@ -227,8 +427,6 @@ export const createConnection = (name: string): chrome.runtime.Port => {
 /**
  * Listen for connections from content scripts or popup
  */
-export const onConnect = (
-  callback: (port: chrome.runtime.Port) => void
-): void => {
+export const onConnect = (callback: (port: chrome.runtime.Port) => void): void => {
   chrome.runtime.onConnect.addListener(callback);
 };
@@ -0,0 +1,206 @@
+/**
+ * Middleware pipeline for background message handlers
+ *
+ * Middleware wraps handlers the same way for every message: each one receives
+ * the message context and a `next` function that runs the rest of the chain.
+ * Middleware can short-circuit by returning a response without calling `next`.
+ * Nothing here touches Chrome APIs directly, so pipelines can be unit tested.
+ */
+
+import {
+  ExtensionMessage,
+  ExtensionMessageOf,
+  FeatureKey,
+  FieldError,
+  MessagePayload,
+  MessageResponse,
+  MessageResult,
+  MessageType,
+  Entitlements,
+} from './types';
+import { authorizeMessage, MessagePolicyMap } from './authorization';
+import { featureDeniedResponse, toErrorResponse } from './errors';
+import { formatFieldErrors } from './schema';
+import { getEntitlements, hasEntitlement } from './entitlements';
+import { runMetered } from './usage';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Context passed through the middleware chain for a single message
+ */
+export interface MessageContext<K extends MessageType = MessageType> {
+  message: ExtensionMessageOf<K>;
+  sender: chrome.runtime.MessageSender;
+  /** Scratch space for middleware to pass data downstream */
+  state: Record<string, unknown>;
+}
+
+/**
+ * Message middleware
+ */
+export type Middleware<K extends MessageType = MessageType> = (
+  context: MessageContext<K>,
+  next: () => Promise<MessageResponse<MessageResult<K>>>
+) => Promise<MessageResponse<MessageResult<K>>>;
+
+/**
+ * Middleware declared globally and per message type
+ */
+export interface MiddlewareConfig {
+  /** Runs for every message, outermost first */
+  global?: Middleware[];
+  /** Runs for a single message type, inside the global middleware */
+  perType?: { [K in MessageType]?: Middleware<K>[] };
+}
+
+// ============================================================================
+// Composition
+// ============================================================================
+
+/**
+ * Compose middleware around a final handler.
+ * Middleware runs in array order; the first entry is the outermost.
+ */
+export const composeMiddleware = <K extends MessageType>(
+  middleware: Middleware<K>[],
+  handler: (context: MessageContext<K>) => Promise<MessageResponse<MessageResult<K>>>
+): ((context: MessageContext<K>) => Promise<MessageResponse<MessageResult<K>>>) => {
+  return (context) => {
+    const dispatch = async (index: number): Promise<MessageResponse<MessageResult<K>>> => {
+      if (index === middleware.length) return handler(context);
+      let called = false;
+      return middleware[index](context, () => {
+        if (called) throw new Error('next() called multiple times');
+        called = true;
+        return dispatch(index + 1);
+      });
+    };
+    return dispatch(0);
+  };
+};
+
+// ============================================================================
+// Built-in Middleware
+// ============================================================================
+
+/**
+ * Convert thrown errors into HANDLER_ERROR responses and make sure every
+ * failed response carries an error code
+ */
+export const normalizeErrors = <K extends MessageType = MessageType>(): Middleware<K> => {
+  return async (_context, next) => {
+    try {
+      const response = await next();
+      if (!response.success && !response.code) {
+        return { ...response, code: 'HANDLER_ERROR' };
+      }
+      return response;
+    } catch (error) {
+      return toErrorResponse(error, 'HANDLER_ERROR');
+    }
+  };
+};
+
+/**
+ * Log failed messages, and optionally every message
+ */
+export const logging = <K extends MessageType = MessageType>(
+  options: { verbose?: boolean; log?: (...args: unknown[]) => void } = {}
+): Middleware<K> => {
+  const { verbose = false, log = console.warn } = options;
+  return async ({ message, sender }, next) => {
+    const response = await next();
+    const origin =
+      sender.tab?.id !== undefined ? `tab ${sender.tab.id}` : (sender.url ?? 'unknown');
+    if (!response.success) {
+      log(`[Message] ${message.type} from ${origin} failed (${response.code}): ${response.error}`);
+    } else if (verbose) {
+      log(`[Message] ${message.type} from ${origin} succeeded`);
+    }
+    return response;
+  };
+};
+
+/**
+ * Measure how long the rest of the chain takes
+ */
+export const timing = <K extends MessageType = MessageType>(
+  options: {
+    /** Called with the duration of every message */
+    onTiming?: (type: MessageType, durationMs: number) => void;
+    /** Warn about messages slower than this (ms); 0 disables the warning */
+    slowThresholdMs?: number;
+    now?: () => number;
+  } = {}
+): Middleware<K> => {
+  const { onTiming, slowThresholdMs = 1000, now = () => performance.now() } = options;
+  return async ({ message }, next) => {
+    const start = now();
+    try {
+      return await next();
+    } finally {
+      const duration = now() - start;
+      onTiming?.(message.type, duration);
+      if (slowThresholdMs > 0 && duration > slowThresholdMs) {
+        console.warn(`[Message] ${message.type} took ${Math.round(duration)}ms`);
+      }
+    }
+  };
+};
+
+/**
+ * Reject messages whose sender is not allowed by the given policies
+ */
+export const authorize = <K extends MessageType = MessageType>(
+  policies: MessagePolicyMap
+): Middleware<K> => {
+  return async ({ message, sender }, next) => {
+    const authorization = authorizeMessage(message as ExtensionMessage, sender, policies);
+    if (!authorization.allowed) {
+      return { success: false, error: authorization.reason, code: 'UNAUTHORIZED' };
+    }
+    return next();
+  };
+};
+
+/**
+ * Validate the message payload before it reaches the handler
+ */
+export const validatePayload = <K extends MessageType>(
+  validate: (payload: MessagePayload<K>) => FieldError[]
+): Middleware<K> => {
+  return async ({ message }, next) => {
+    const payload = (message as { payload?: MessagePayload<K> }).payload as MessagePayload<K>;
+    const errors = validate(payload);
+    if (errors.length > 0) {
+      return {
+        success: false,
+        error: `Invalid payload: ${formatFieldErrors(errors)}`,
+        code: 'VALIDATION_FAILED',
+        fieldErrors: errors,
+      };
+    }
+    return next();
+  };
+};
+
+/**
+ * Only let the message through if the user is entitled to a feature, through
+ * their license, a running trial or the quota of a metered feature. Messages
+ * let through by the quota count against it unless they fail.
+ */
+export const requireFeature = <K extends MessageType = MessageType>(
+  feature: FeatureKey,
+  getUserEntitlements: () => Promise<Entitlements> = () => getEntitlements()
+): Middleware<K> => {
+  return async (_context, next) => {
+    const entitlements = await getUserEntitlements();
+    if (!hasEntitlement(entitlements, feature)) {
+      return featureDeniedResponse(entitlements, feature);
+    }
+    return runMetered(entitlements.features[feature], next);
+  };
+};
@@ -0,0 +1,118 @@
+/**
+ * Host permissions
+ *
+ * The extension declares host access as optional, so it only gets to read
+ * the sites the user chose to grant. Access is requested per site or for all
+ * sites from the popup or options page and can be revoked there again.
+ *
+ * chrome.permissions.request must be called in response to a user gesture
+ * (e.g. a click handler) in an extension page.
+ */
+
+// ============================================================================
+// Origins
+// ============================================================================
+
+/**
+ * Origin pattern granting access to every site
+ */
+export const ALL_SITES_ORIGIN = '<all_urls>';
+
+/**
+ * Whether an origin pattern covers web pages (http or https)
+ */
+export const isWebOrigin = (origin: string): boolean =>
+  origin === ALL_SITES_ORIGIN || /^(\*|https?):\/\//.test(origin);
+
+/**
+ * Origin pattern for the site of a web page, e.g. "https://example.com/*".
+ * Null for pages host access cannot be granted to (chrome://, file://, ...).
+ */
+export const getOriginPattern = (url: string): string | null => {
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return null;
+    return `${parsed.protocol}//${parsed.hostname}/*`;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Whether an origin pattern grants access to every site
+ */
+export const isAllSitesOrigin = (origin: string): boolean =>
+  origin === ALL_SITES_ORIGIN || origin === '*://*/*';
+
+// ============================================================================
+// Permissions API
+// ============================================================================
+
+/**
+ * Web origins the user has granted access to
+ */
+export const getGrantedOrigins = async (): Promise<string[]> => {
+  try {
+    const { origins = [] } = await chrome.permissions.getAll();
+    return origins.filter(isWebOrigin);
+  } catch (error) {
+    console.error('Failed to read host permissions:', error);
+    return [];
+  }
+};
+
+/**
+ * Whether access to the given origins has been granted
+ */
+export const hasHostPermission = async (origins: string[]): Promise<boolean> => {
+  try {
+    return await chrome.permissions.contains({ origins });
+  } catch (error) {
+    console.error('Failed to check host permissions:', error);
+    return false;
+  }
+};
+
+/**
+ * Ask the user for access to the given origins. Resolves to whether access
+ * was granted; must be called from a user gesture.
+ */
+export const requestHostPermission = async (origins: string[]): Promise<boolean> => {
+  try {
+    return await chrome.permissions.request({ origins });
+  } catch (error) {
+    console.error('Failed to request host permissions:', error);
+    return false;
+  }
+};
+
+/**
+ * Revoke access to the given origins. Resolves to whether it was removed.
+ */
+export const removeHostPermission = async (origins: string[]): Promise<boolean> => {
+  try {
+    return await chrome.permissions.remove({ origins });
+  } catch (error) {
+    console.error('Failed to remove host permissions:', error);
+    return false;
+  }
+};
+
+/**
+ * Subscribe to host permission changes. The callback gets the granted web
+ * origins after each change. Returns an unsubscribe function.
+ */
+export const onHostPermissionsChange = (callback: (origins: string[]) => void): (() => void) => {
+  const listener = async (permissions: chrome.permissions.Permissions) => {
+    // Changes to API permissions alone do not affect host access
+    if (!permissions.origins?.length) return;
+    callback(await getGrantedOrigins());
+  };
+
+  chrome.permissions.onAdded.addListener(listener);
+  chrome.permissions.onRemoved.addListener(listener);
+  return () => {
+    chrome.permissions.onAdded.removeListener(listener);
+    chrome.permissions.onRemoved.removeListener(listener);
+  };
+};
@@ -0,0 +1,373 @@
+/**
+ * Port-based RPC and event streaming
+ *
+ * A thin protocol over long-lived `chrome.runtime.Port` connections. Clients
+ * send requests tagged with an ID and receive the correlated response, and can
+ * subscribe to events the background pushes. The MV3 service worker may be
+ * stopped at any time, which disconnects every port, so clients reconnect on
+ * their own and restore their subscriptions. Subscriptions are authorized per
+ * event, like requests are per message type.
+ */
+
+import { EventMap, EventType, ExtensionMessage, MessageResponse, MessageResult } from './types';
+import { getErrorCode, toErrorResponse } from './errors';
+import {
+  DEFAULT_SEND_OPTIONS,
+  MessageHandlerMap,
+  createConnection,
+  createMessageDispatcher,
+  onConnect,
+} from './messaging';
+import { MiddlewareConfig } from './middleware';
+import { EVENT_POLICIES, EventPolicyMap, authorizeSubscription } from './authorization';
+
+// ============================================================================
+// Protocol
+// ============================================================================
+
+/**
+ * Default port name used by the RPC client and server
+ */
+export const RPC_PORT_NAME = 'rpc';
+
+/**
+ * Packets sent from a client to the server
+ */
+export type RpcClientPacket =
+  | { kind: 'request'; id: number; message: ExtensionMessage }
+  | { kind: 'subscribe'; event: EventType }
+  | { kind: 'unsubscribe'; event: EventType };
+
+/**
+ * Packets sent from the server to a client
+ */
+export type RpcServerPacket =
+  | { kind: 'response'; id: number; response: MessageResponse }
+  | { kind: 'event'; event: EventType; data: unknown };
+
+/**
+ * Check the shape of a packet received from a client; anything can be posted
+ * to an open port
+ */
+const isClientPacket = (value: unknown): value is RpcClientPacket => {
+  if (typeof value !== 'object' || value === null) return false;
+  const packet = value as Record<string, unknown>;
+  switch (packet.kind) {
+    case 'request':
+      return (
+        typeof packet.id === 'number' &&
+        typeof packet.message === 'object' &&
+        packet.message !== null &&
+        typeof (packet.message as Record<string, unknown>).type === 'string'
+      );
+    case 'subscribe':
+    case 'unsubscribe':
+      return typeof packet.event === 'string';
+    default:
+      return false;
+  }
+};
+
+/**
+ * Post a packet, ignoring ports that disconnected in the meantime
+ */
+const post = (port: chrome.runtime.Port, packet: RpcClientPacket | RpcServerPacket): boolean => {
+  try {
+    port.postMessage(packet);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// ============================================================================
+// Server (background)
+// ============================================================================
+
+/**
+ * Background side of the RPC protocol
+ */
+export interface RpcServer {
+  /** Push an event to every port subscribed to it */
+  emit: <E extends EventType>(event: E, data: EventMap[E]) => void;
+  /** Number of ports currently subscribed to an event */
+  getSubscriberCount: (event: EventType) => number;
+}
+
+/**
+ * Accept RPC connections and answer requests with the given handlers.
+ * Requests run through the same middleware pipeline as one-off messages,
+ * with the port's sender used for authorization. Subscriptions the event
+ * policies do not allow for the port's sender are dropped.
+ */
+export const createRpcServer = (
+  handlers: MessageHandlerMap,
+  middleware: MiddlewareConfig = {},
+  name: string = RPC_PORT_NAME,
+  eventPolicies: EventPolicyMap = EVENT_POLICIES
+): RpcServer => {
+  const dispatch = createMessageDispatcher(handlers, middleware);
+  const subscriptions = new Map<chrome.runtime.Port, Set<EventType>>();
+
+  onConnect((port) => {
+    if (port.name !== name) return;
+    const events = new Set<EventType>();
+    subscriptions.set(port, events);
+
+    port.onMessage.addListener((packet: unknown) => {
+      if (!isClientPacket(packet)) {
+        console.warn('Ignoring malformed RPC packet');
+        return;
+      }
+      switch (packet.kind) {
+        case 'request':
+          dispatch(packet.message, port.sender ?? {}).then((response) => {
+            post(port, { kind: 'response', id: packet.id, response });
+          });
+          break;
+        case 'subscribe': {
+          const authorization = authorizeSubscription(
+            packet.event,
+            port.sender ?? {},
+            eventPolicies
+          );
+          if (authorization.allowed) {
+            events.add(packet.event);
+          } else {
+            console.warn(`Subscription denied: ${authorization.reason}`);
+          }
+          break;
+        }
+        case 'unsubscribe':
+          events.delete(packet.event);
+          break;
+      }
+    });
+
+    port.onDisconnect.addListener(() => {
+      subscriptions.delete(port);
+    });
+  });
+
+  return {
+    emit: (event, data) => {
+      for (const [port, events] of subscriptions) {
+        if (events.has(event)) {
+          post(port, { kind: 'event', event, data });
+        }
+      }
+    },
+    getSubscriberCount: (event) =>
+      Array.from(subscriptions.values()).filter((events) => events.has(event)).length,
+  };
+};
+
+// ============================================================================
+// Client (popup, options, content scripts)
+// ============================================================================
+
+/**
+ * RPC client options
+ */
+export interface RpcClientOptions {
+  /** Port name, must match the server */
+  name?: string;
+  /** Milliseconds to wait for a response before failing with TIMEOUT (0 = wait forever) */
+  timeoutMs?: number;
+  /** Reconnect after the port drops while subscriptions are active */
+  reconnect?: boolean;
+  /** Delay before the first reconnect attempt, in milliseconds */
+  reconnectDelayMs?: number;
+  /** Upper bound for the reconnect delay, which doubles after each failed attempt */
+  maxReconnectDelayMs?: number;
+}
+
+/**
+ * Client side of the RPC protocol
+ */
+export interface RpcClient {
+  /** Send a request and wait for its response */
+  request: <M extends ExtensionMessage>(
+    message: M,
+    options?: { timeoutMs?: number }
+  ) => Promise<MessageResponse<MessageResult<M['type']>>>;
+  /** Listen for an event; returns an unsubscribe function */
+  subscribe: <E extends EventType>(event: E, listener: (data: EventMap[E]) => void) => () => void;
+  /** Close the connection and stop reconnecting */
+  disconnect: () => void;
+}
+
+interface PendingRequest {
+  resolve: (response: MessageResponse) => void;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Create an RPC client.
+ * The port is opened lazily on the first request or subscription. Requests in
+ * flight when the port drops fail with NO_RECEIVER rather than being resent,
+ * since they may not be safe to repeat.
+ */
+export const createRpcClient = (options: RpcClientOptions = {}): RpcClient => {
+  const {
+    name = RPC_PORT_NAME,
+    timeoutMs = DEFAULT_SEND_OPTIONS.timeoutMs,
+    reconnect = true,
+    reconnectDelayMs = 100,
+    maxReconnectDelayMs = 5000,
+  } = options;
+
+  let port: chrome.runtime.Port | null = null;
+  let closed = false;
+  let nextId = 1;
+  let reconnectDelay = reconnectDelayMs;
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  const pending = new Map<number, PendingRequest>();
+  const listeners = new Map<EventType, Set<(data: unknown) => void>>();
+
+  const settle = (id: number, response: MessageResponse): void => {
+    const request = pending.get(id);
+    if (!request) return;
+    pending.delete(id);
+    clearTimeout(request.timer);
+    request.resolve(response);
+  };
+
+  const failPending = (response: MessageResponse): void => {
+    for (const id of Array.from(pending.keys())) {
+      settle(id, response);
+    }
+  };
+
+  const handlePacket = (packet: RpcServerPacket): void => {
+    // Any packet proves the connection works, so reset the backoff
+    reconnectDelay = reconnectDelayMs;
+    if (packet.kind === 'response') {
+      settle(packet.id, packet.response);
+    } else {
+      listeners.get(packet.event)?.forEach((listener) => listener(packet.data));
+    }
+  };
+
+  const handleDisconnect = (): void => {
+    // Reading lastError marks it as checked so Chrome does not log it
+    const error = chrome.runtime.lastError;
+    port = null;
+    failPending({
+      success: false,
+      error: error?.message ?? 'Connection to the background was lost',
+      code: 'NO_RECEIVER',
+    });
+    if (!closed && reconnect && listeners.size > 0) {
+      scheduleReconnect();
+    }
+  };
+
+  const scheduleReconnect = (): void => {
+    if (reconnectTimer !== undefined) return;
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = undefined;
+      if (closed || port) return;
+      if (connect()) {
+        reconnectDelay = Math.min(reconnectDelay * 2, maxReconnectDelayMs);
+      }
+    }, reconnectDelay);
+  };
+
+  /**
+   * Open the port if needed and restore subscriptions. Returns null when the
+   * extension context is gone or the client was closed.
+   */
+  const connect = (): chrome.runtime.Port | null => {
+    if (port) return port;
+    if (closed) return null;
+    try {
+      port = createConnection(name);
+    } catch (error) {
+      if (getErrorCode(error) === 'CONTEXT_INVALIDATED') {
+        // The extension was reloaded; this context can never reconnect
+        closed = true;
+      } else {
+        scheduleReconnect();
+      }
+      return null;
+    }
+    port.onMessage.addListener(handlePacket);
+    port.onDisconnect.addListener(handleDisconnect);
+    for (const event of listeners.keys()) {
+      post(port, { kind: 'subscribe', event });
+    }
+    return port;
+  };
+
+  return {
+    request: (message, requestOptions = {}) => {
+      const id = nextId++;
+      const requestTimeout = requestOptions.timeoutMs ?? timeoutMs;
+
+      return new Promise((resolve) => {
+        const target = connect();
+        if (!target) {
+          resolve({
+            success: false,
+            error: 'Not connected to the background',
+            code: closed ? 'CONTEXT_INVALIDATED' : 'NO_RECEIVER',
+          });
+          return;
+        }
+
+        const request: PendingRequest = {
+          resolve: resolve as (response: MessageResponse) => void,
+        };
+        if (requestTimeout > 0) {
+          request.timer = setTimeout(
+            () =>
+              settle(id, {
+                success: false,
+                error: `No response within ${requestTimeout}ms`,
+                code: 'TIMEOUT',
+              }),
+            requestTimeout
+          );
+        }
+        pending.set(id, request);
+
+        try {
+          target.postMessage({ kind: 'request', id, message } satisfies RpcClientPacket);
+        } catch (error) {
+          settle(id, toErrorResponse(error));
+        }
+      });
+    },
+
+    subscribe: (event, listener) => {
+      let eventListeners = listeners.get(event);
+      if (!eventListeners) {
+        eventListeners = new Set();
+        listeners.set(event, eventListeners);
+        if (port) post(port, { kind: 'subscribe', event });
+      }
+      const wrapped = listener as (data: unknown) => void;
+      eventListeners.add(wrapped);
+      connect();
+
+      return () => {
+        const current = listeners.get(event);
+        if (!current?.delete(wrapped) || current.size > 0) return;
+        listeners.delete(event);
+        if (port) post(port, { kind: 'unsubscribe', event });
+      };
+    },
+
+    disconnect: () => {
+      closed = true;
+      clearTimeout(reconnectTimer);
+      reconnectTimer = undefined;
+      listeners.clear();
+      const current = port;
+      port = null;
+      failPending({ success: false, error: 'Client disconnected', code: 'NO_RECEIVER' });
+      current?.disconnect();
+    },
+  };
+};
@@ -0,0 +1,286 @@
+/**
+ * Declarative runtime schemas for persisted data
+ *
+ * Schemas describe the shape of stored objects so that writes can be
+ * validated, partial updates can be deep-merged and corrupted data can be
+ * repaired field by field on read.
+ */
+
+import { DEFAULT_USER_SETTINGS, DeepPartial, FieldError, UserSettings } from './types';
+
+// ============================================================================
+// Schema Types
+// ============================================================================
+
+export interface BooleanSchema {
+  kind: 'boolean';
+}
+
+export interface StringSchema {
+  kind: 'string';
+}
+
+export interface NumberSchema {
+  kind: 'number';
+}
+
+export interface EnumSchema<T extends string = string> {
+  kind: 'enum';
+  values: readonly T[];
+}
+
+/**
+ * Free-form object with arbitrary keys (e.g. extensible preferences)
+ */
+export interface RecordSchema {
+  kind: 'record';
+}
+
+/**
+ * List of items sharing a schema. Arrays are always validated and replaced
+ * as a whole; partial updates never merge into them.
+ */
+export interface ArraySchema<T = unknown> {
+  kind: 'array';
+  items: Schema<T>;
+}
+
+/**
+ * Object with a fixed set of known fields; unknown keys are rejected
+ */
+export interface ObjectSchema<T = Record<string, unknown>> {
+  kind: 'object';
+  fields: { [K in keyof T]-?: Schema<T[K]> };
+}
+
+/**
+ * Schema describing a value of type T
+ */
+export type Schema<T> = [T] extends [boolean]
+  ? BooleanSchema
+  : [T] extends [string]
+    ? EnumSchema<T & string> | StringSchema
+    : [T] extends [number]
+      ? NumberSchema
+      : [T] extends [(infer U)[]]
+        ? ArraySchema<U>
+        : [T] extends [object]
+          ? ObjectSchema<T> | RecordSchema
+          : never;
+
+type AnySchema =
+  | BooleanSchema
+  | StringSchema
+  | NumberSchema
+  | EnumSchema
+  | RecordSchema
+  | { kind: 'array'; items: AnySchema }
+  | { kind: 'object'; fields: Record<string, AnySchema> };
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const joinPath = (path: string, key: string): string => (path ? `${path}.${key}` : key);
+
+const typeName = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+const validateNode = (
+  node: AnySchema,
+  value: unknown,
+  path: string,
+  partial: boolean
+): FieldError[] => {
+  switch (node.kind) {
+    case 'boolean':
+    case 'string':
+    case 'number':
+      return typeof value === node.kind && !(node.kind === 'number' && !Number.isFinite(value))
+        ? []
+        : [{ path, message: `Expected ${node.kind}, got ${typeName(value)}` }];
+
+    case 'enum':
+      return typeof value === 'string' && node.values.includes(value)
+        ? []
+        : [{ path, message: `Expected one of ${node.values.join(', ')}` }];
+
+    case 'record':
+      return isRecord(value) ? [] : [{ path, message: `Expected object, got ${typeName(value)}` }];
+
+    case 'array':
+      if (!Array.isArray(value)) {
+        return [{ path, message: `Expected array, got ${typeName(value)}` }];
+      }
+      // Arrays are replaced as a whole, so items must always be complete
+      return value.flatMap((item, index) =>
+        validateNode(node.items, item, joinPath(path, String(index)), false)
+      );
+
+    case 'object': {
+      if (!isRecord(value)) {
+        return [{ path, message: `Expected object, got ${typeName(value)}` }];
+      }
+      const errors: FieldError[] = [];
+      for (const key of Object.keys(value)) {
+        if (!(key in node.fields)) {
+          errors.push({ path: joinPath(path, key), message: 'Unknown field' });
+        }
+      }
+      for (const [key, fieldNode] of Object.entries(node.fields)) {
+        const fieldPath = joinPath(path, key);
+        if (!(key in value)) {
+          if (!partial) errors.push({ path: fieldPath, message: 'Missing field' });
+          continue;
+        }
+        errors.push(...validateNode(fieldNode, value[key], fieldPath, partial));
+      }
+      return errors;
+    }
+  }
+};
+
+/**
+ * Validate a complete value against a schema
+ */
+export const validate = <T>(schema: Schema<T>, value: unknown): FieldError[] => {
+  return validateNode(schema as AnySchema, value, '', false);
+};
+
+/**
+ * Validate a deep-partial update against a schema.
+ * Missing fields are allowed; unknown fields and wrong types are not.
+ */
+export const validatePartial = <T>(schema: Schema<T>, value: unknown): FieldError[] => {
+  return validateNode(schema as AnySchema, value, '', true);
+};
+
+/**
+ * Format field errors as a single human-readable message
+ */
+export const formatFieldErrors = (errors: FieldError[]): string => {
+  return errors.map((e) => (e.path ? `${e.path}: ${e.message}` : e.message)).join('; ');
+};
+
+// ============================================================================
+// Merge & Repair
+// ============================================================================
+
+const mergeNode = (node: AnySchema, base: unknown, updates: unknown): unknown => {
+  if (updates === undefined) return base;
+  if (node.kind === 'object' && isRecord(base) && isRecord(updates)) {
+    const merged: Record<string, unknown> = { ...base };
+    for (const [key, fieldNode] of Object.entries(node.fields)) {
+      if (key in updates) {
+        merged[key] = mergeNode(fieldNode, base[key], updates[key]);
+      }
+    }
+    return merged;
+  }
+  if (node.kind === 'record' && isRecord(base) && isRecord(updates)) {
+    // Free-form records merge one level deep so individual keys can be set
+    return { ...base, ...updates };
+  }
+  return updates;
+};
+
+/**
+ * Deep-merge a validated partial update into a complete value.
+ * Nested objects are merged field by field instead of being replaced.
+ */
+export const deepMerge = <T>(schema: Schema<T>, base: T, updates: DeepPartial<T>): T => {
+  return mergeNode(schema as AnySchema, base, updates) as T;
+};
+
+const repairNode = (node: AnySchema, value: unknown, fallback: unknown): unknown => {
+  if (node.kind === 'object') {
+    const source = isRecord(value) ? value : {};
+    const defaults = isRecord(fallback) ? fallback : {};
+    const repaired: Record<string, unknown> = {};
+    for (const [key, fieldNode] of Object.entries(node.fields)) {
+      repaired[key] = repairNode(fieldNode, source[key], defaults[key]);
+    }
+    return repaired;
+  }
+  if (node.kind === 'array' && Array.isArray(value)) {
+    // Keep the valid items rather than losing the whole list
+    return value.filter((item) => validateNode(node.items, item, '', false).length === 0);
+  }
+  return validateNode(node, value, '', false).length === 0 ? value : fallback;
+};
+
+/**
+ * Repair a possibly corrupted value by replacing every invalid or missing
+ * field with the corresponding field from `fallback`. Unknown keys are dropped.
+ */
+export const repair = <T>(schema: Schema<T>, value: unknown, fallback: T): T => {
+  return repairNode(schema as AnySchema, value, fallback) as T;
+};
+
+// ============================================================================
+// User Settings Schema
+// ============================================================================
+
+/**
+ * Schema for UserSettings stored in chrome.storage.sync
+ */
+export const USER_SETTINGS_SCHEMA: ObjectSchema<UserSettings> = {
+  kind: 'object',
+  fields: {
+    enabled: { kind: 'boolean' },
+    theme: { kind: 'enum', values: ['light', 'dark', 'system'] },
+    notifications: {
+      kind: 'object',
+      fields: {
+        enabled: { kind: 'boolean' },
+        sound: { kind: 'boolean' },
+      },
+    },
+    preferences: { kind: 'record' },
+    siteRules: {
+      kind: 'array',
+      items: {
+        kind: 'object',
+        fields: {
+          pattern: { kind: 'string' },
+          mode: { kind: 'enum', values: ['default', 'enabled', 'disabled'] },
+          preferences: { kind: 'record' },
+        },
+      },
+    },
+  },
+};
+
+/**
+ * Validate a partial settings update
+ */
+export const validateSettingsUpdate = (updates: unknown): FieldError[] => {
+  return validatePartial(USER_SETTINGS_SCHEMA, updates);
+};
+
+/**
+ * Repair stored settings, falling back to defaults field by field
+ */
+export const repairUserSettings = (value: unknown): UserSettings => {
+  return repair(USER_SETTINGS_SCHEMA, value, DEFAULT_USER_SETTINGS);
+};
+
+/**
+ * Deep-merge a partial settings update into existing settings
+ */
+export const mergeUserSettings = (
+  settings: UserSettings,
+  updates: DeepPartial<UserSettings>
+): UserSettings => {
+  return deepMerge(USER_SETTINGS_SCHEMA, settings, updates);
+};
@@ -0,0 +1,168 @@
+/**
+ * Per-site rules
+ *
+ * Matches page URLs against the user's site rules and resolves the settings
+ * that apply on a page. Rules are applied from least to most specific, so a
+ * rule for "docs.example.com" overrides one for "example.com".
+ */
+
+import { SiteRule, SiteRuleMode, UserSettings } from './types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Settings in effect on a single page
+ */
+export interface SiteSettings {
+  /** Whether the extension runs on the page */
+  enabled: boolean;
+  /** Global preferences with the matching rules' overrides applied */
+  preferences: Record<string, unknown>;
+  /** Matching rules, least specific first */
+  rules: SiteRule[];
+}
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+const globToRegExp = (glob: string): RegExp => {
+  const source = glob
+    .split('*')
+    .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`, 'i');
+};
+
+const parseWebUrl = (url: string): URL | null => {
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:' ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Host name of a web page, or null for pages rules never apply to
+ * (chrome://, file://, extension pages, ...)
+ */
+export const getSiteHost = (url: string): string | null => {
+  return parseWebUrl(url)?.hostname ?? null;
+};
+
+/**
+ * Check whether a site pattern matches a URL. See SiteRule.pattern for the
+ * supported forms. The URL fragment is never matched.
+ */
+export const matchesSitePattern = (pattern: string, url: string): boolean => {
+  const normalized = pattern.trim().toLowerCase();
+  const parsed = parseWebUrl(url);
+  if (!normalized || !parsed) return false;
+
+  if (normalized.includes('://')) {
+    return globToRegExp(normalized).test(
+      `${parsed.protocol}//${parsed.host}${parsed.pathname}${parsed.search}`
+    );
+  }
+  if (normalized.includes('/')) {
+    return globToRegExp(normalized).test(`${parsed.host}${parsed.pathname}${parsed.search}`);
+  }
+
+  const host = parsed.hostname.toLowerCase();
+  if (normalized.includes('*')) {
+    return globToRegExp(normalized).test(host);
+  }
+  // A bare domain covers its subdomains
+  return host === normalized || host.endsWith(`.${normalized}`);
+};
+
+/**
+ * How specific a pattern is: the number of characters it matches literally
+ */
+export const getPatternSpecificity = (pattern: string): number => {
+  return pattern.trim().replace(/\*/g, '').length;
+};
+
+// ============================================================================
+// Resolution
+// ============================================================================
+
+/**
+ * Rules matching a URL, least specific first. Equally specific rules keep
+ * their order, so the later one wins.
+ */
+export const getMatchingRules = (rules: SiteRule[], url: string): SiteRule[] => {
+  return rules
+    .map((rule, index) => ({ rule, index }))
+    .filter(({ rule }) => matchesSitePattern(rule.pattern, url))
+    .sort(
+      (a, b) =>
+        getPatternSpecificity(a.rule.pattern) - getPatternSpecificity(b.rule.pattern) ||
+        a.index - b.index
+    )
+    .map(({ rule }) => rule);
+};
+
+/**
+ * Resolve the settings in effect on a page. A rule forcing the extension on
+ * or off takes precedence over the global enabled setting.
+ */
+export const resolveSiteSettings = (settings: UserSettings, url: string): SiteSettings => {
+  const rules = getMatchingRules(settings.siteRules, url);
+  let enabled = settings.enabled;
+  let preferences = { ...settings.preferences };
+
+  for (const rule of rules) {
+    if (rule.mode !== 'default') {
+      enabled = rule.mode === 'enabled';
+    }
+    preferences = { ...preferences, ...rule.preferences };
+  }
+
+  return { enabled, preferences, rules };
+};
+
+// ============================================================================
+// Editing
+// ============================================================================
+
+/**
+ * Set the mode of the rule with exactly this pattern, adding the rule if
+ * needed. Rules left with nothing to override are removed.
+ */
+export const setSiteRuleMode = (
+  rules: SiteRule[],
+  pattern: string,
+  mode: SiteRuleMode
+): SiteRule[] => {
+  const existing = rules.find((rule) => rule.pattern === pattern);
+  if (!existing) {
+    return mode === 'default' ? rules : [...rules, { pattern, mode, preferences: {} }];
+  }
+  if (mode === 'default' && Object.keys(existing.preferences).length === 0) {
+    return rules.filter((rule) => rule !== existing);
+  }
+  return rules.map((rule) => (rule === existing ? { ...rule, mode } : rule));
+};
+
+/**
+ * Turn the extension on or off for the host of a page through the rule for
+ * that host. The rule is only kept where the other rules and the global
+ * setting would not already give the wanted state.
+ */
+export const setSiteEnabled = (
+  settings: UserSettings,
+  url: string,
+  enabled: boolean
+): SiteRule[] => {
+  const host = getSiteHost(url);
+  if (!host) return settings.siteRules;
+  const siteRules = setSiteRuleMode(settings.siteRules, host, 'default');
+  if (resolveSiteSettings({ ...settings, siteRules }, url).enabled === enabled) {
+    return siteRules;
+  }
+  return setSiteRuleMode(settings.siteRules, host, enabled ? 'enabled' : 'disabled');
+};
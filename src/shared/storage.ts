@@ -5,9 +5,16 @@
 import {
   UserSettings,
   DEFAULT_USER_SETTINGS,
+  DeepPartial,
   STORAGE_KEYS,
   StorageKey,
 } from './types';
+import {
+  formatFieldErrors,
+  mergeUserSettings,
+  repairUserSettings,
+  validateSettingsUpdate,
+} from './schema';
 
 // ============================================================================
 // Generic Storage Helpers
@@ -70,15 +77,15 @@ export const clearStorage = async (): Promise<boolean> => {
 // ============================================================================
 
 /**
- * Get user settings from storage
+ * Get user settings from storage.
+ * Invalid or missing fields fall back to their defaults individually.
  */
 export const getUserSettings = async (): Promise<UserSettings> => {
-  const settings = await getStorageValue<UserSettings>(
+  const settings = await getStorageValue<unknown>(
     STORAGE_KEYS.USER_SETTINGS,
     DEFAULT_USER_SETTINGS
   );
-  // Merge with defaults to ensure all fields exist
-  return { ...DEFAULT_USER_SETTINGS, ...settings };
+  return repairUserSettings(settings);
 };
 
 /**
@@ -89,14 +96,24 @@ export const saveUserSettings = async (settings: UserSettings): Promise<boolean>
 };
 
 /**
- * Update partial user settings
+ * Update partial user settings.
+ * Nested objects are deep-merged; updates that fail schema validation are rejected.
  */
 export const updateUserSettings = async (
-  updates: Partial<UserSettings>
+  updates: DeepPartial<UserSettings>
 ): Promise<UserSettings | null> => {
+  const errors = validateSettingsUpdate(updates);
+  if (errors.length > 0) {
+    console.error(`Rejected invalid settings update: ${formatFieldErrors(errors)}`);
+    return null;
+  }
+
   try {
-    const currentSettings = await getUserSettings();
-    const newSettings = { ...currentSettings, ...updates };
+    // Read directly rather than through getUserSettings so that a failed read
+    // aborts the update instead of overwriting stored settings with defaults
+    const result = await chrome.storage.sync.get(STORAGE_KEYS.USER_SETTINGS);
+    const currentSettings = repairUserSettings(result[STORAGE_KEYS.USER_SETTINGS]);
+    const newSettings = mergeUserSettings(currentSettings, updates);
     const success = await saveUserSettings(newSettings);
     return success ? newSettings : null;
   } catch (error) {
@@ -148,8 +165,8 @@ export const onUserSettingsChange = (
     if (areaName === 'sync' && changes[STORAGE_KEYS.USER_SETTINGS]) {
       const { newValue, oldValue } = changes[STORAGE_KEYS.USER_SETTINGS];
       callback(
-        { ...DEFAULT_USER_SETTINGS, ...newValue } as UserSettings,
-        oldValue as UserSettings | undefined
+        repairUserSettings(newValue),
+        oldValue === undefined ? undefined : repairUserSettings(oldValue)
       );
     }
   };
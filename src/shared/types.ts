@@ -6,17 +6,73 @@
 // User & Subscription Types
 // ============================================================================
 
+/**
+ * Subscription tiers, lowest first. A tier includes the features of the tiers
+ * below it, except those limited to a set of tiers (see FEATURE_ACCESS).
+ */
+export const SUBSCRIPTION_TIERS = ['free', 'plus', 'pro', 'team'] as const;
+
 /**
  * User subscription tier for freemium gating
  */
-export type SubscriptionTier = 'free' | 'pro';
+export type SubscriptionTier = (typeof SUBSCRIPTION_TIERS)[number];
+
+/**
+ * How a tier is presented and tried
+ */
+export interface TierConfig {
+  /** Display name */
+  name: string;
+  /** Length of the free trial of the tier in days; tiers without one cannot be tried */
+  trialDays?: number;
+  /** Tailwind classes of the tier badge, on the popup header and on light backgrounds */
+  badgeClassName: { popup: string; page: string };
+}
+
+/**
+ * Presentation and trials of every tier
+ */
+export const TIER_CONFIG: Record<SubscriptionTier, TierConfig> = {
+  free: {
+    name: 'Free',
+    badgeClassName: { popup: 'bg-primary-500 text-white', page: 'bg-gray-100 text-gray-800' },
+  },
+  plus: {
+    name: 'Plus',
+    badgeClassName: { popup: 'bg-green-400 text-green-900', page: 'bg-green-100 text-green-800' },
+  },
+  pro: {
+    name: 'Pro',
+    trialDays: 14,
+    badgeClassName: {
+      popup: 'bg-yellow-400 text-yellow-900',
+      page: 'bg-yellow-100 text-yellow-800',
+    },
+  },
+  team: {
+    name: 'Team',
+    badgeClassName: {
+      popup: 'bg-purple-400 text-purple-900',
+      page: 'bg-purple-100 text-purple-800',
+    },
+  },
+};
+
+/**
+ * Check if a value is a known tier
+ */
+export const isSubscriptionTier = (value: unknown): value is SubscriptionTier =>
+  (SUBSCRIPTION_TIERS as readonly unknown[]).includes(value);
+
+/**
+ * Position of a tier in SUBSCRIPTION_TIERS; higher tiers rank higher
+ */
+export const getTierRank = (tier: SubscriptionTier): number => SUBSCRIPTION_TIERS.indexOf(tier);
 
 /**
  * User settings stored in chrome.storage.sync
  */
 export interface UserSettings {
-  /** User's subscription tier */
-  tier: SubscriptionTier;
   /** Whether the extension is enabled */
   enabled: boolean;
   /** User's preferred theme */
@@ -28,13 +84,44 @@ export interface UserSettings {
   };
   /** Custom user preferences (extensible) */
   preferences: Record<string, unknown>;
+  /** Per-site rules; the most specific matching rule wins */
+  siteRules: SiteRule[];
+}
+
+/**
+ * How a site rule affects the extension on matching sites
+ * - default: follow the global `enabled` setting
+ * - enabled: always run (allowlist)
+ * - disabled: never run (blocklist)
+ */
+export type SiteRuleMode = 'default' | 'enabled' | 'disabled';
+
+/**
+ * Rule applied to sites matching a pattern
+ */
+export interface SiteRule {
+  /**
+   * Domain or glob pattern: "example.com" matches the domain and its
+   * subdomains, "*.example.com" only subdomains, and patterns with a path
+   * such as "example.com/docs/*" or "https://example.com/*" match URLs
+   */
+  pattern: string;
+  mode: SiteRuleMode;
+  /** Preferences overridden on matching sites */
+  preferences: Record<string, unknown>;
 }
 
+/**
+ * Recursively optional version of T, used for partial settings updates
+ */
+export type DeepPartial<T> = {
+  [K in keyof T]?: T[K] extends unknown[] ? T[K] : T[K] extends object ? DeepPartial<T[K]> : T[K];
+};
+
 /**
  * Default user settings
  */
 export const DEFAULT_USER_SETTINGS: UserSettings = {
-  tier: 'free',
   enabled: true,
   theme: 'system',
   notifications: {
@@ -42,118 +129,518 @@ export const DEFAULT_USER_SETTINGS: UserSettings = {
     sound: false,
   },
   preferences: {},
+  siteRules: [],
 };
 
+/**
+ * Current version of the persisted storage schema.
+ * Bump this and register a migration in background/migrations.ts whenever the
+ * shape of stored data changes.
+ */
+export const SETTINGS_SCHEMA_VERSION = 3;
+
 // ============================================================================
 // Message Types
 // ============================================================================
 
 /**
- * Base message interface for type-safe messaging
+ * Central message map: every message type with its payload and response.
+ *
+ * This is the single place a message is declared. Message shapes, senders and
+ * handler signatures are all derived from it, so a handler returning the wrong
+ * data or a caller expecting the wrong response fails to compile. Omit
+ * `payload` for messages that carry no data.
  */
-export interface BaseMessage {
-  type: string;
+export interface MessageMap {
+  /** Get current settings */
+  GET_SETTINGS: {
+    response: UserSettings;
+  };
+  /** Update settings with a deep-partial patch */
+  UPDATE_SETTINGS: {
+    payload: DeepPartial<UserSettings>;
+    response: UserSettings;
+  };
+  /** Get information about the sender's tab, or the active tab */
+  GET_TAB_INFO: {
+    response: TabInfo;
+  };
+  /** Sent when a content script has initialized */
+  CONTENT_SCRIPT_READY: {
+    payload: { url: string; title: string };
+    response: void;
+  };
+  /**
+   * Perform a registered action. The background runs it or forwards it to a
+   * tab, depending on where the action is declared to run.
+   */
+  PERFORM_ACTION: {
+    payload: { action: ActionName; data?: unknown; tabId?: number };
+    response: unknown;
+  };
+  /**
+   * Check whether the user has access to a feature, until when, and how many
+   * uses are left of a metered one
+   */
+  CHECK_FEATURE_ACCESS: {
+    payload: { feature: FeatureKey };
+    response: FeatureEntitlement;
+  };
+  /** Get the effective tier, trials and access to every feature */
+  GET_ENTITLEMENTS: {
+    response: Entitlements;
+  };
+  /**
+   * Start the trial of a tier, or of a single feature. Each trial can only
+   * be started once.
+   */
+  START_TRIAL: {
+    payload: { target: TrialTarget };
+    response: Entitlements;
+  };
+  /** Get the verified license and the tier and features it grants */
+  GET_LICENSE: {
+    response: LicenseInfo;
+  };
+  /**
+   * Verify a license key and store it. Fails without storing anything when the
+   * key is invalid or expired.
+   */
+  ACTIVATE_LICENSE: {
+    payload: { token: string };
+    response: LicenseInfo;
+  };
+  /** Remove the stored license key, returning to the free tier */
+  DEACTIVATE_LICENSE: {
+    response: LicenseInfo;
+  };
+  /** Sent by a content script to show it is still alive */
+  CONTENT_SCRIPT_HEARTBEAT: {
+    response: void;
+  };
+  /** Sent by a content script after a client-side navigation or title change */
+  CONTENT_SCRIPT_NAVIGATED: {
+    payload: { url: string; title: string };
+    response: void;
+  };
+  /** Get the live content-script sessions of a tab (defaults to the active tab) */
+  GET_TAB_SESSIONS: {
+    payload: { tabId?: number };
+    response: TabSession[];
+  };
+  /**
+   * Inject the content script into a tab (defaults to the active tab).
+   * Responds false when it was already running there.
+   */
+  INJECT_CONTENT_SCRIPT: {
+    payload: { tabId?: number };
+    response: boolean;
+  };
+  /** Build an export file (requires the export_data feature) */
+  EXPORT_DATA: {
+    payload: ExportRequest;
+    response: ExportFile;
+  };
 }
 
 /**
  * Message types for communication between extension contexts
  */
-export type MessageType =
-  | 'GET_SETTINGS'
-  | 'UPDATE_SETTINGS'
-  | 'GET_TAB_INFO'
-  | 'CONTENT_SCRIPT_READY'
-  | 'PERFORM_ACTION'
-  | 'CHECK_FEATURE_ACCESS';
+export type MessageType = keyof MessageMap;
+
+/**
+ * Payload carried by a message type (undefined if it has none)
+ */
+export type MessagePayload<K extends MessageType> = MessageMap[K] extends { payload: infer P }
+  ? P
+  : undefined;
+
+/**
+ * Data returned in the response to a message type
+ */
+export type MessageResult<K extends MessageType> = MessageMap[K]['response'];
+
+/**
+ * Message object for a single message type
+ */
+export type ExtensionMessageOf<K extends MessageType> = { type: K } & Omit<
+  MessageMap[K],
+  'response'
+>;
+
+/**
+ * Union type of all messages
+ */
+export type ExtensionMessage = { [K in MessageType]: ExtensionMessageOf<K> }[MessageType];
+
+// ============================================================================
+// Response Types
+// ============================================================================
 
 /**
- * Message to get current settings
+ * Machine-readable error codes for failed responses
  */
-export interface GetSettingsMessage extends BaseMessage {
-  type: 'GET_SETTINGS';
+export type MessageErrorCode =
+  /** Nobody is listening, e.g. the service worker is down or no content script is injected */
+  | 'NO_RECEIVER'
+  /**
+   * A receiver got the message but closed the channel without responding. The
+   * handler may have run, so this is not retried.
+   */
+  | 'NO_RESPONSE'
+  /** The receiver did not respond in time */
+  | 'TIMEOUT'
+  /** The extension was reloaded or updated and this context is orphaned */
+  | 'CONTEXT_INVALIDATED'
+  /** The sender is not allowed to send the message */
+  | 'UNAUTHORIZED'
+  /** The payload failed validation */
+  | 'VALIDATION_FAILED'
+  /** The handler threw or failed while processing the message */
+  | 'HANDLER_ERROR'
+  /** The user's plan does not include the feature the message requires */
+  | 'FEATURE_LOCKED'
+  /** The user used up the quota of a metered feature for the current period */
+  | 'QUOTA_EXCEEDED'
+  /** A feature flag switched the feature off, or it is not rolled out to this install */
+  | 'FEATURE_DISABLED'
+  /** No handler is registered for the message type */
+  | 'UNKNOWN_MESSAGE_TYPE'
+  /** The action is not declared, or has no handler in the context that received it */
+  | 'UNKNOWN_ACTION'
+  /** Any other failure */
+  | 'UNKNOWN';
+
+/**
+ * Generic response wrapper
+ */
+export interface MessageResponse<T = unknown> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  /** Error code, set on failures the caller may want to handle specifically */
+  code?: MessageErrorCode;
+  /** Per-field validation errors, when the request payload was rejected */
+  fieldErrors?: FieldError[];
 }
 
 /**
- * Message to update settings
+ * Validation error for a single field
  */
-export interface UpdateSettingsMessage extends BaseMessage {
-  type: 'UPDATE_SETTINGS';
-  payload: Partial<UserSettings>;
+export interface FieldError {
+  /** Dot-separated path to the field, e.g. "notifications.sound" */
+  path: string;
+  message: string;
 }
 
 /**
- * Message to get current tab information
+ * Tab information response
  */
-export interface GetTabInfoMessage extends BaseMessage {
-  type: 'GET_TAB_INFO';
+export interface TabInfo {
+  id: number;
+  /** Window the tab belongs to */
+  windowId: number;
+  url: string;
+  title: string;
+  favIconUrl?: string;
+  /** Whether the content script is running in the tab's top frame */
+  injected: boolean;
 }
 
 /**
- * Message sent when content script is ready
+ * A content script running in a tab frame, as tracked by the background
  */
-export interface ContentScriptReadyMessage extends BaseMessage {
-  type: 'CONTENT_SCRIPT_READY';
-  payload: {
-    url: string;
-    title: string;
-  };
+export interface TabSession {
+  tabId: number;
+  /** 0 for the top frame */
+  frameId: number;
+  url: string;
+  title: string;
+  /** When the content script reported ready (ms since epoch) */
+  readyAt: number;
+  /** Last time the content script was heard from (ms since epoch) */
+  lastHeartbeat: number;
 }
 
+// ============================================================================
+// Action Types
+// ============================================================================
+
 /**
- * Message to perform an action (example for extending)
+ * Central action map: every action with its payload and result.
+ * Where an action runs and which feature it requires are declared alongside
+ * its handler registry in shared/actions.ts.
  */
-export interface PerformActionMessage extends BaseMessage {
-  type: 'PERFORM_ACTION';
-  payload: {
-    action: string;
-    data?: unknown;
+export interface ActionMap {
+  /** Highlight page content matching a selector, text or pattern */
+  highlightElements: {
+    payload: HighlightQuery;
+    result: HighlightResult;
+  };
+  /** Move the active highlight to the next or previous match */
+  stepHighlight: {
+    payload: { direction: 'next' | 'previous' };
+    result: HighlightResult;
+  };
+  /** Remove all highlights from the page */
+  clearHighlights: {
+    payload: undefined;
+    result: void;
+  };
+  /** Extract structured data from the page */
+  extractData: {
+    payload: ExtractionOptions | undefined;
+    result: PageData;
+  };
+  /**
+   * Let the user pick an element on the page. Resolves once an element is
+   * picked, or to null if the picker is cancelled.
+   */
+  pickElement: {
+    payload: PickElementOptions | undefined;
+    result: PickedElement | null;
+  };
+  /** Triggered by the in-page keyboard shortcut */
+  extensionTrigger: {
+    payload: undefined;
+    result: void;
   };
 }
 
 /**
- * Message to check if user has access to a feature
+ * Names of all actions
  */
-export interface CheckFeatureAccessMessage extends BaseMessage {
-  type: 'CHECK_FEATURE_ACCESS';
-  payload: {
-    feature: FeatureKey;
-  };
+export type ActionName = keyof ActionMap;
+
+/**
+ * Payload an action takes
+ */
+export type ActionPayload<A extends ActionName> = ActionMap[A]['payload'];
+
+/**
+ * Result an action produces
+ */
+export type ActionResult<A extends ActionName> = ActionMap[A]['result'];
+
+/**
+ * What to highlight: elements matching a CSS selector, a literal string, or a
+ * regular expression. Text and pattern matches may span several text nodes.
+ */
+export type HighlightQuery =
+  | { selector: string }
+  | { text: string; caseSensitive?: boolean }
+  | { pattern: string; flags?: string };
+
+/**
+ * Current highlight state on a page
+ */
+export interface HighlightResult {
+  /** Number of matches highlighted */
+  count: number;
+  /** Index of the active match, or -1 if there is none */
+  index: number;
+  /** True if matching stopped at the match limit */
+  truncated: boolean;
+}
+
+/**
+ * Options for the pickElement action
+ */
+export interface PickElementOptions {
+  /** Show the picked element's selectors in a panel on the page (default false) */
+  showResult?: boolean;
 }
 
 /**
- * Union type of all message types
+ * An element chosen with the element picker
  */
-export type ExtensionMessage =
-  | GetSettingsMessage
-  | UpdateSettingsMessage
-  | GetTabInfoMessage
-  | ContentScriptReadyMessage
-  | PerformActionMessage
-  | CheckFeatureAccessMessage;
+export interface PickedElement {
+  /** Minimal CSS selector matching only this element */
+  selector: string;
+  /** XPath to the element, for tools that do not take CSS selectors */
+  xpath: string;
+  tagName: string;
+  /** Start of the element's text content, whitespace collapsed */
+  text: string;
+}
 
-// ============================================================================
-// Response Types
-// ============================================================================
+/**
+ * Version of the PageData shape; bumped whenever it changes incompatibly
+ */
+export const PAGE_DATA_VERSION = 1;
 
 /**
- * Generic response wrapper
+ * Extractors that make up a PageData result
  */
-export interface MessageResponse<T = unknown> {
-  success: boolean;
-  data?: T;
-  error?: string;
+export type ExtractorName =
+  | 'metadata'
+  | 'headings'
+  | 'jsonLd'
+  | 'microdata'
+  | 'tables'
+  | 'links'
+  | 'images'
+  | 'mainContent';
+
+/**
+ * Options for the extractData action
+ */
+export interface ExtractionOptions {
+  /** Turn individual extractors on or off; all are on by default */
+  extractors?: Partial<Record<ExtractorName, boolean>>;
+  /** Maximum number of links, images and tables returned */
+  maxItems?: number;
 }
 
 /**
- * Tab information response
+ * Document-level metadata
  */
-export interface TabInfo {
-  id: number;
+export interface PageMetadata {
+  description: string | null;
+  canonicalUrl: string | null;
+  language: string | null;
+  /** OpenGraph properties without the "og:" prefix, e.g. { title, image } */
+  openGraph: Record<string, string>;
+  /** Twitter card properties without the "twitter:" prefix, e.g. { card, site } */
+  twitter: Record<string, string>;
+}
+
+/**
+ * A heading (h1-h6)
+ */
+export interface PageHeading {
+  level: number;
+  text: string;
+}
+
+/**
+ * A schema.org microdata item; nested items appear as property values
+ */
+export interface MicrodataItem {
+  type: string | null;
+  id: string | null;
+  properties: Record<string, (string | MicrodataItem)[]>;
+}
+
+/**
+ * An HTML table as rows and columns of cell text
+ */
+export interface PageTable {
+  caption: string | null;
+  headers: string[];
+  rows: string[][];
+}
+
+/**
+ * A hyperlink
+ */
+export interface PageLink {
+  href: string;
+  text: string;
+  rel: string | null;
+}
+
+/**
+ * An image
+ */
+export interface PageImage {
+  src: string;
+  alt: string;
+  width: number | null;
+  height: number | null;
+}
+
+/**
+ * Main article text, found readability-style
+ */
+export interface MainContent {
+  text: string;
+  wordCount: number;
+  excerpt: string;
+}
+
+/**
+ * Structured data extracted from a page.
+ * Fields of disabled or failed extractors are omitted.
+ */
+export interface PageData {
+  version: typeof PAGE_DATA_VERSION;
   url: string;
   title: string;
-  favIconUrl?: string;
+  /** When the data was extracted (ms since epoch) */
+  extractedAt: number;
+  metadata?: PageMetadata;
+  headings?: PageHeading[];
+  /** Parsed JSON-LD blocks; top-level arrays are flattened */
+  jsonLd?: unknown[];
+  microdata?: MicrodataItem[];
+  tables?: PageTable[];
+  links?: PageLink[];
+  images?: PageImage[];
+  /** Null when no main content could be identified */
+  mainContent?: MainContent | null;
+  /** Extractors that failed, with their error messages */
+  errors?: Partial<Record<ExtractorName, string>>;
 }
 
+// ============================================================================
+// Export Types
+// ============================================================================
+
+/**
+ * File formats data can be exported as
+ */
+export type ExportFormat = 'json' | 'csv' | 'markdown';
+
+/**
+ * What to export: a fresh extraction of a tab, the stored extraction
+ * history, or the user's settings
+ */
+export type ExportSource = 'page' | 'history' | 'settings';
+
+/**
+ * Export request sent to the background
+ */
+export interface ExportRequest {
+  source: ExportSource;
+  format: ExportFormat;
+  /** Tab to extract for the "page" source; defaults to the active tab */
+  tabId?: number;
+}
+
+/**
+ * A generated export, ready to be downloaded
+ */
+export interface ExportFile {
+  filename: string;
+  mimeType: string;
+  content: string;
+}
+
+// ============================================================================
+// Event Types
+// ============================================================================
+
+/**
+ * Events pushed by the background to subscribed ports, with their data
+ */
+export interface EventMap {
+  /** The active tab of a window changed, navigated or finished loading */
+  TAB_STATE_CHANGED: TabInfo;
+  /** User settings changed in storage */
+  SETTINGS_CHANGED: UserSettings;
+  /**
+   * A license key was activated or removed, a trial started, or a trial,
+   * license or grace period ended
+   */
+  ENTITLEMENTS_CHANGED: Entitlements;
+}
+
+/**
+ * Event types that can be subscribed to over a port
+ */
+export type EventType = keyof EventMap;
+
 // ============================================================================
 // Feature Gating Types
 // ============================================================================
@@ -168,6 +655,17 @@ export type FeatureKey =
   | 'custom_themes'
   | 'priority_support';
 
+/**
+ * What a feature requires
+ * - minTier: the tier and every tier above it include the feature
+ * - tiers: only the listed tiers include the feature
+ * - addOn: no tier includes the feature; a license key or trial must grant it
+ */
+export type FeatureRequirement =
+  | { minTier: SubscriptionTier }
+  | { tiers: SubscriptionTier[] }
+  | { addOn: true };
+
 /**
  * Feature configuration
  */
@@ -175,28 +673,296 @@ export interface FeatureConfig {
   key: FeatureKey;
   name: string;
   description: string;
-  requiredTier: SubscriptionTier;
+  requires: FeatureRequirement;
 }
 
+/**
+ * Display names of the features
+ */
+export const FEATURE_NAMES: Record<FeatureKey, string> = {
+  basic_feature: 'Basic Feature',
+  advanced_analytics: 'Advanced Analytics',
+  export_data: 'Export Data',
+  custom_themes: 'Custom Themes',
+  priority_support: 'Priority Support',
+};
+
 /**
  * Feature access configuration
- * Maps features to their required subscription tier
- */
-export const FEATURE_ACCESS: Record<FeatureKey, SubscriptionTier> = {
-  basic_feature: 'free',
-  advanced_analytics: 'pro',
-  export_data: 'pro',
-  custom_themes: 'pro',
-  priority_support: 'pro',
+ * Maps features to what they require
+ */
+export const FEATURE_ACCESS: Record<FeatureKey, FeatureRequirement> = {
+  basic_feature: { minTier: 'free' },
+  advanced_analytics: { minTier: 'pro' },
+  export_data: { minTier: 'plus' },
+  custom_themes: { minTier: 'pro' },
+  priority_support: { tiers: ['pro', 'team'] },
+};
+
+/**
+ * Check if a tier meets a feature requirement
+ */
+export const meetsRequirement = (
+  tier: SubscriptionTier,
+  requirement: FeatureRequirement
+): boolean => {
+  if ('minTier' in requirement) return getTierRank(tier) >= getTierRank(requirement.minTier);
+  if ('tiers' in requirement) return requirement.tiers.includes(tier);
+  return false;
+};
+
+/**
+ * Check if a tier has access to a feature. Trials and license expiry are
+ * taken into account by the entitlements built on top of this.
+ */
+export const hasFeatureAccess = (tier: SubscriptionTier, feature: FeatureKey): boolean =>
+  meetsRequirement(tier, FEATURE_ACCESS[feature]);
+
+/**
+ * The lowest tier that includes a feature; null for add-ons
+ */
+export const getLowestTier = (feature: FeatureKey): SubscriptionTier | null =>
+  SUBSCRIPTION_TIERS.find((tier) => hasFeatureAccess(tier, feature)) ?? null;
+
+/**
+ * Length of feature trials and the grace period after a license expires, in
+ * days. Tier trials are configured in TIER_CONFIG.
+ */
+export const ENTITLEMENT_CONFIG = {
+  /** Length of the trial of a single feature */
+  featureTrialDays: 7,
+  /**
+   * How long an expired license keeps granting its tier. License keys are
+   * verified offline, so this gives the user time to get a renewed key.
+   */
+  gracePeriodDays: 3,
+};
+
+/**
+ * Period a usage quota covers. Quotas reset at the start of the next period,
+ * in the user's local time.
+ */
+export type QuotaPeriod = 'day' | 'month';
+
+/**
+ * Allowance of a metered feature
+ */
+export interface FeatureQuota {
+  /** Uses allowed per period */
+  limit: number;
+  period: QuotaPeriod;
+}
+
+/**
+ * Metered features. Users who are not entitled to one through their license
+ * or a trial may still use it a limited number of times per period.
+ */
+export const FEATURE_QUOTAS: Partial<Record<FeatureKey, FeatureQuota>> = {
+  export_data: { limit: 5, period: 'day' },
 };
 
+// ============================================================================
+// Entitlement Types
+// ============================================================================
+
+/**
+ * What a trial is for: a whole tier (one with trialDays) or a single feature
+ */
+export type TrialTarget = SubscriptionTier | FeatureKey;
+
+/**
+ * A trial the user started. Each trial can be started once.
+ */
+export interface TrialRecord {
+  /** When the trial started (ms since epoch) */
+  startedAt: number;
+  /** When the trial ends (ms since epoch) */
+  endsAt: number;
+}
+
+/**
+ * Trials the user started, kept in chrome.storage.sync
+ */
+export type TrialRecords = Partial<Record<TrialTarget, TrialRecord>>;
+
+/**
+ * Where access to a feature comes from
+ * - free: the feature is part of the free tier
+ * - license: the license key grants it
+ * - trial: a running tier or feature trial grants it
+ * - quota: the feature is metered and uses are left this period
+ */
+export type EntitlementSource = 'free' | 'license' | 'trial' | 'quota';
+
+/**
+ * Uses of a metered feature in one period, kept in chrome.storage.local
+ */
+export interface UsageRecord {
+  /** Period the uses were counted in, e.g. "2024-01-31" or "2024-01" */
+  period: string;
+  count: number;
+}
+
+/**
+ * Uses of every metered feature in its current period
+ */
+export type UsageRecords = Partial<Record<FeatureKey, UsageRecord>>;
+
+/**
+ * What is left of the quota of a metered feature
+ */
+export interface QuotaUsage {
+  limit: number;
+  used: number;
+  remaining: number;
+  period: QuotaPeriod;
+  /** When the quota resets (ms since epoch) */
+  resetsAt: number;
+}
+
+/**
+ * Access to a single feature
+ */
+export interface FeatureEntitlement {
+  feature: FeatureKey;
+  granted: boolean;
+  /** Null when the feature is not granted */
+  source: EntitlementSource | null;
+  /** When access ends (ms since epoch), or null if it does not */
+  expiresAt: number | null;
+  /** Days until access ends, rounded up; null if it does not end */
+  daysLeft: number | null;
+  /** Access only continues because of the grace period of an expired license */
+  inGracePeriod: boolean;
+  /** Set for metered features the user has no unlimited access to */
+  quota: QuotaUsage | null;
+  /**
+   * A feature flag switched the feature off, or it is not rolled out to this
+   * install yet. Disabled features are not granted, whatever the tier.
+   */
+  disabled: boolean;
+}
+
+/**
+ * Where the effective tier comes from
+ * - free: no license or trial grants a tier
+ * - licensed: an active license key
+ * - grace: an expired license key within its grace period
+ * - trial: a running tier trial
+ */
+export type EntitlementState = 'free' | 'licensed' | 'grace' | 'trial';
+
+/**
+ * Everything the user currently has access to
+ */
+export interface Entitlements {
+  /** Effective tier, taking trials and the grace period into account */
+  tier: SubscriptionTier;
+  state: EntitlementState;
+  /** When the effective tier ends (ms since epoch), or null if it does not */
+  endsAt: number | null;
+  /** Days until the effective tier ends, rounded up; null if it does not end */
+  daysLeft: number | null;
+  features: Record<FeatureKey, FeatureEntitlement>;
+  /** Trials that can still be started */
+  availableTrials: TrialTarget[];
+  /** The verified license the entitlements are based on */
+  license: LicenseInfo;
+}
+
+// ============================================================================
+// License Types
+// ============================================================================
+
+/**
+ * Claims carried by a signed license key
+ */
+export interface LicenseClaims {
+  /** License identifier, e.g. the order number */
+  id: string;
+  /** Who the license was issued to */
+  licensee: string;
+  tier: SubscriptionTier;
+  /** Features granted on top of those of the tier */
+  features: FeatureKey[];
+  /** When the license was issued (ms since epoch) */
+  issuedAt: number;
+  /** When the license expires (ms since epoch), or null if it never does */
+  expiresAt: number | null;
+}
+
+/**
+ * State of the stored license key
+ * - none: no key was activated
+ * - active: the key is valid and grants its tier
+ * - grace: the key expired, but still grants its tier during the grace period
+ * - expired: the key is genuine but past its expiry date and grace period
+ * - invalid: the key is malformed or its signature does not verify
+ */
+export type LicenseStatus = 'none' | 'active' | 'grace' | 'expired' | 'invalid';
+
+/**
+ * What the stored license grants. Licenses that are not active or in their
+ * grace period grant the free tier.
+ */
+export interface LicenseInfo {
+  status: LicenseStatus;
+  tier: SubscriptionTier;
+  /** All features the user has access to, including those of the tier */
+  features: FeatureKey[];
+  /** Set for genuine licenses, whether expired or not */
+  licensee: string | null;
+  expiresAt: number | null;
+  /** When the grace period after expiry ends, for licenses that expire */
+  graceEndsAt: number | null;
+  /** Why the license is not active, for expired and invalid licenses */
+  error?: string;
+}
+
+// ============================================================================
+// Feature Flag Types
+// ============================================================================
+
+/**
+ * Remote switch for a feature
+ */
+export interface FeatureFlag {
+  /** Kill switch: when false, nobody gets the feature */
+  enabled: boolean;
+  /** Percentage of installs the feature is rolled out to, 0-100; defaults to 100 */
+  rollout?: number;
+}
+
+/**
+ * Document served by the flag endpoint. Features without a flag are on.
+ */
+export interface FeatureFlagDocument {
+  flags: Partial<Record<FeatureKey, FeatureFlag>>;
+}
+
+/**
+ * Last good flag document, kept in chrome.storage.local
+ */
+export interface FeatureFlagCache {
+  document: FeatureFlagDocument;
+  /** ETag the endpoint sent with the document, to only download changes */
+  etag: string | null;
+  /** When the document was last fetched or confirmed unchanged (ms since epoch) */
+  fetchedAt: number;
+}
+
 /**
- * Check if a tier has access to a feature
+ * Where and how often feature flags are fetched
  */
-export const hasFeatureAccess = (tier: SubscriptionTier, feature: FeatureKey): boolean => {
-  const requiredTier = FEATURE_ACCESS[feature];
-  if (requiredTier === 'free') return true;
-  return tier === 'pro';
+export const FEATURE_FLAG_CONFIG = {
+  /**
+   * URL of the flag document. Relative URLs point into the extension, which
+   * bundles a stand-in document; replace it with the URL of your flag server,
+   * which must allow requests from the extension (CORS or host permissions).
+   */
+  url: 'feature-flags.json',
+  /** How often the document is fetched again */
+  refreshMinutes: 60,
 };
 
 // ============================================================================
@@ -208,8 +974,24 @@ export const hasFeatureAccess = (tier: SubscriptionTier, feature: FeatureKey): b
  */
 export const STORAGE_KEYS = {
   USER_SETTINGS: 'userSettings',
+  /** Signed license key, kept in chrome.storage.sync */
+  LICENSE: 'license',
+  /** Trials the user started, kept in chrome.storage.sync */
+  TRIALS: 'trials',
+  SCHEMA_VERSION: 'schemaVersion',
   LAST_SYNC: 'lastSync',
+  /** Last good feature flag document, kept in chrome.storage.local */
   CACHE: 'cache',
+  /** Random ID of this install for percentage rollouts, kept in chrome.storage.local */
+  INSTALL_ID: 'installId',
+  /** Live content-script sessions, kept in chrome.storage.session */
+  TAB_SESSIONS: 'tabSessions',
+  /** Uses of metered features this period, kept in chrome.storage.local */
+  USAGE: 'usage',
+  /** Recent page extractions, kept in chrome.storage.local */
+  EXTRACTION_HISTORY: 'extractionHistory',
+  /** Remembered widget positions per site, kept in chrome.storage.local */
+  WIDGET_POSITIONS: 'widgetPositions',
 } as const;
 
 export type StorageKey = (typeof STORAGE_KEYS)[keyof typeof STORAGE_KEYS];
@@ -0,0 +1,180 @@
+/**
+ * Usage quotas
+ *
+ * Counts uses of metered features (see FEATURE_QUOTAS) in chrome.storage.local.
+ * Each feature keeps a single record for its current period; a record left
+ * from an earlier period counts as no uses, so quotas roll over without any
+ * cleanup. Only uses granted by the quota are counted: users entitled to a
+ * feature through their license or a trial use it without limit.
+ */
+
+import {
+  FEATURE_QUOTAS,
+  FeatureEntitlement,
+  FeatureKey,
+  MessageResponse,
+  QuotaPeriod,
+  QuotaUsage,
+  STORAGE_KEYS,
+  UsageRecord,
+  UsageRecords,
+} from './types';
+import { getLocalStorageValue, setLocalStorageValue } from './storage';
+import { quotaExceededResponse } from './errors';
+
+// ============================================================================
+// Periods
+// ============================================================================
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+/**
+ * Key of the period a time falls in, in local time: "2024-01-31" for days
+ * and "2024-01" for months
+ */
+export const getPeriodKey = (period: QuotaPeriod, now: number): string => {
+  const date = new Date(now);
+  const month = `${date.getFullYear()}-${pad(date.getMonth() + 1)}`;
+  return period === 'month' ? month : `${month}-${pad(date.getDate())}`;
+};
+
+/**
+ * When the period a time falls in ends (ms since epoch)
+ */
+export const getPeriodEnd = (period: QuotaPeriod, now: number): number => {
+  const date = new Date(now);
+  return period === 'month'
+    ? new Date(date.getFullYear(), date.getMonth() + 1, 1).getTime()
+    : new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1).getTime();
+};
+
+// ============================================================================
+// Usage
+// ============================================================================
+
+// Writes are serialized so concurrent requests cannot exceed a quota
+let queue: Promise<unknown> = Promise.resolve();
+
+const isUsageRecord = (value: unknown): value is UsageRecord =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as UsageRecord).period === 'string' &&
+  typeof (value as UsageRecord).count === 'number';
+
+const readUsage = async (): Promise<UsageRecords> => {
+  const value = await getLocalStorageValue<unknown>(STORAGE_KEYS.USAGE, {});
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return {};
+  const usage: UsageRecords = {};
+  for (const [feature, record] of Object.entries(value)) {
+    if (Object.keys(FEATURE_QUOTAS).includes(feature) && isUsageRecord(record)) {
+      usage[feature as FeatureKey] = record;
+    }
+  }
+  return usage;
+};
+
+/**
+ * Get the counted uses of metered features
+ */
+export const getUsage = async (): Promise<UsageRecords> => {
+  await queue;
+  return readUsage();
+};
+
+/**
+ * What is left of a feature's quota at a given time; null for features that
+ * are not metered
+ */
+export const getQuotaUsage = (
+  feature: FeatureKey,
+  usage: UsageRecords,
+  now: number = Date.now()
+): QuotaUsage | null => {
+  const quota = FEATURE_QUOTAS[feature];
+  if (!quota) return null;
+  const record = usage[feature];
+  const used = record && record.period === getPeriodKey(quota.period, now) ? record.count : 0;
+  return {
+    limit: quota.limit,
+    used,
+    remaining: Math.max(0, quota.limit - used),
+    period: quota.period,
+    resetsAt: getPeriodEnd(quota.period, now),
+  };
+};
+
+/**
+ * Short description of a quota, e.g. "3 of 5 left today"
+ */
+export const describeQuota = (quota: QuotaUsage): string =>
+  `${quota.remaining} of ${quota.limit} left ${quota.period === 'day' ? 'today' : 'this month'}`;
+
+// ============================================================================
+// Metering
+// ============================================================================
+
+/**
+ * Count a use of a metered feature if its quota allows it. Resolves to the
+ * period the use was counted in, for refundQuota, or null if the quota is
+ * used up or the feature is not metered.
+ */
+export const consumeQuota = (
+  feature: FeatureKey,
+  now: number = Date.now()
+): Promise<string | null> => {
+  const run = queue.then(async () => {
+    const usage = await readUsage();
+    const quota = getQuotaUsage(feature, usage, now);
+    if (!quota || quota.remaining === 0) return null;
+    const period = getPeriodKey(quota.period, now);
+    await setLocalStorageValue(STORAGE_KEYS.USAGE, {
+      ...usage,
+      [feature]: { period, count: quota.used + 1 },
+    });
+    return period;
+  });
+  queue = run.catch(() => undefined);
+  return run;
+};
+
+/**
+ * Give back a use counted by consumeQuota. Uses counted in an earlier period
+ * were reset already and are not given back.
+ */
+export const refundQuota = (feature: FeatureKey, period: string): Promise<boolean> => {
+  const run = queue.then(async () => {
+    const usage = await readUsage();
+    const record = usage[feature];
+    if (!record || record.period !== period || record.count === 0) return false;
+    return setLocalStorageValue(STORAGE_KEYS.USAGE, {
+      ...usage,
+      [feature]: { period, count: record.count - 1 },
+    });
+  });
+  queue = run.catch(() => undefined);
+  return run;
+};
+
+/**
+ * Run a request that uses a feature. When access comes from the feature's
+ * quota, the use is counted before the request runs and given back if it
+ * fails.
+ */
+export const runMetered = async <T>(
+  entitlement: FeatureEntitlement,
+  run: () => Promise<MessageResponse<T>>
+): Promise<MessageResponse<T>> => {
+  const { feature, quota } = entitlement;
+  if (entitlement.source !== 'quota' || !quota) return run();
+
+  const period = await consumeQuota(feature);
+  if (period === null) return quotaExceededResponse(feature, quota);
+
+  let response: MessageResponse<T> | undefined;
+  try {
+    response = await run();
+    return response;
+  } finally {
+    if (!response?.success) await refundQuota(feature, period);
+  }
+};
@@ -0,0 +1,8 @@
+/**
+ * CSS imported with the "?inline" query is bundled as a string of compiled
+ * CSS instead of being extracted to a stylesheet (see webpack.config.js)
+ */
+declare module '*.css?inline' {
+  const css: string;
+  export default css;
+}
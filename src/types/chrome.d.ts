@@ -0,0 +1,13 @@
+/**
+ * The typings only declare addListener for the permission events, but they
+ * are regular Chrome events and can be removed as well
+ */
+declare namespace chrome.permissions {
+  interface PermissionsAddedEvent {
+    removeListener(callback: (permissions: Permissions) => void): void;
+  }
+
+  interface PermissionsRemovedEvent {
+    removeListener(callback: (permissions: Permissions) => void): void;
+  }
+}
@@ -0,0 +1,201 @@
+/**
+ * Unit tests for the action registry and PERFORM_ACTION routing
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createActionRegistry } from '../src/shared/actions';
+import { createActionRouter } from '../src/background/actions';
+import { requestAction } from '../src/shared/messaging';
+import { FREE_LICENSE, getTierFeatures } from '../src/shared/license';
+import { resolveEntitlements } from '../src/shared/entitlements';
+
+const EXTENSION_ID = 'abcdefghijklmnop';
+const EXTENSION_ORIGIN = `chrome-extension://${EXTENSION_ID}`;
+
+const FREE_ENTITLEMENTS = resolveEntitlements(FREE_LICENSE);
+const PRO_ENTITLEMENTS = resolveEntitlements({
+  ...FREE_LICENSE,
+  status: 'active',
+  tier: 'pro',
+  features: getTierFeatures('pro'),
+});
+
+const createChromeMock = () => ({
+  runtime: {
+    id: EXTENSION_ID,
+    getURL: vi.fn((path: string) => `${EXTENSION_ORIGIN}${path}`),
+    sendMessage: vi.fn(),
+  },
+  tabs: {
+    query: vi.fn(async () => [{ id: 11 }]),
+    sendMessage: vi.fn(async () => ({ success: true, data: { count: 1, index: 0 } })),
+  },
+});
+
+// Chrome mock type for testing
+type ChromeMock = ReturnType<typeof createChromeMock>;
+
+const popupSender: chrome.runtime.MessageSender = {
+  id: EXTENSION_ID,
+  url: `${EXTENSION_ORIGIN}/popup.html`,
+  origin: EXTENSION_ORIGIN,
+};
+
+const contentSender: chrome.runtime.MessageSender = {
+  id: EXTENSION_ID,
+  url: 'https://example.com/',
+  tab: { id: 3 } as chrome.tabs.Tab,
+  frameId: 0,
+};
+
+describe('Actions', () => {
+  let chromeMock: ChromeMock;
+
+  beforeEach(() => {
+    chromeMock = createChromeMock();
+    (globalThis as unknown as { chrome: ChromeMock }).chrome = chromeMock;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('createActionRegistry', () => {
+    it('should run registered actions', async () => {
+      const registry = createActionRegistry('content');
+      const result = { count: 2, index: 0, truncated: false };
+      registry.register('highlightElements', () => result);
+
+      const response = await registry.run('highlightElements', { text: 'a' }, contentSender);
+
+      expect(response).toEqual({ success: true, data: result });
+    });
+
+    it('should refuse to register actions declared for another context', () => {
+      const registry = createActionRegistry('background');
+
+      expect(() => registry.register('extractData', vi.fn())).toThrow(
+        'Action "extractData" runs in content'
+      );
+    });
+
+    it('should report unknown and unregistered actions', async () => {
+      const registry = createActionRegistry('content');
+
+      expect((await registry.run('toString', undefined, contentSender)).code).toBe(
+        'UNKNOWN_ACTION'
+      );
+      expect((await registry.run('extractData', undefined, contentSender)).code).toBe(
+        'UNKNOWN_ACTION'
+      );
+    });
+
+    it('should unregister handlers', async () => {
+      const registry = createActionRegistry('content');
+      const unregister = registry.register('extractData', vi.fn());
+
+      unregister();
+
+      expect(registry.has('extractData')).toBe(false);
+    });
+
+    it('should turn handler errors into HANDLER_ERROR responses', async () => {
+      const registry = createActionRegistry('content');
+      registry.register('extractData', () => {
+        throw new Error('no document');
+      });
+
+      expect(await registry.run('extractData', undefined, contentSender)).toEqual({
+        success: false,
+        error: 'no document',
+        code: 'HANDLER_ERROR',
+      });
+    });
+  });
+
+  describe('createActionRouter', () => {
+    it('should run background actions locally', async () => {
+      const registry = createActionRegistry('background');
+      const handler = vi.fn();
+      registry.register('extensionTrigger', handler);
+      const route = createActionRouter({
+        registry,
+        getEntitlements: async () => FREE_ENTITLEMENTS,
+      });
+
+      const response = await route({ action: 'extensionTrigger' }, contentSender);
+
+      expect(handler).toHaveBeenCalledWith(undefined, contentSender);
+      expect(response.success).toBe(true);
+      expect(chromeMock.tabs.sendMessage).not.toHaveBeenCalled();
+    });
+
+    it('should forward content actions to the active tab by default', async () => {
+      const route = createActionRouter({ getEntitlements: async () => FREE_ENTITLEMENTS });
+
+      const response = await route(
+        { action: 'highlightElements', data: { text: 'a' } },
+        popupSender
+      );
+
+      expect(chromeMock.tabs.sendMessage).toHaveBeenCalledWith(11, {
+        type: 'PERFORM_ACTION',
+        payload: { action: 'highlightElements', data: { text: 'a' } },
+      });
+      expect(response.data).toEqual({ count: 1, index: 0 });
+    });
+
+    it('should forward content actions to a specific tab', async () => {
+      const route = createActionRouter({ getEntitlements: async () => FREE_ENTITLEMENTS });
+
+      await route({ action: 'extractData', tabId: 5 }, popupSender);
+
+      expect(chromeMock.tabs.query).not.toHaveBeenCalled();
+      expect(chromeMock.tabs.sendMessage).toHaveBeenCalledWith(5, expect.anything());
+    });
+
+    it('should keep content scripts to their own tab', async () => {
+      const route = createActionRouter({ getEntitlements: async () => FREE_ENTITLEMENTS });
+
+      const own = await route({ action: 'extractData' }, contentSender);
+      const other = await route({ action: 'extractData', tabId: 5 }, contentSender);
+
+      expect(own.success).toBe(true);
+      expect(chromeMock.tabs.sendMessage).toHaveBeenCalledTimes(1);
+      expect(chromeMock.tabs.sendMessage).toHaveBeenCalledWith(3, expect.anything());
+      expect(other.code).toBe('UNAUTHORIZED');
+    });
+
+    it('should reject unknown actions', async () => {
+      const route = createActionRouter({ getEntitlements: async () => PRO_ENTITLEMENTS });
+
+      const response = await route({ action: '__proto__' as 'extractData' }, popupSender);
+
+      expect(response).toEqual({
+        success: false,
+        error: 'Unknown action: __proto__',
+        code: 'UNKNOWN_ACTION',
+      });
+    });
+  });
+
+  describe('requestAction', () => {
+    it('should send the action, payload and target tab to the background', async () => {
+      chromeMock.runtime.sendMessage.mockResolvedValue({ success: true });
+
+      await requestAction('extractData', undefined, { tabId: 4 });
+
+      expect(chromeMock.runtime.sendMessage).toHaveBeenCalledWith({
+        type: 'PERFORM_ACTION',
+        payload: { action: 'extractData', data: undefined, tabId: 4 },
+      });
+    });
+
+    it('should only accept declared action names', () => {
+      // @ts-expect-error unknownAction is not declared in ActionMap
+      const invalid = () => requestAction('unknownAction');
+
+      expect(invalid).toBeTypeOf('function');
+    });
+  });
+});
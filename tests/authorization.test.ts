@@ -0,0 +1,217 @@
+/**
+ * Unit tests for sender-aware message authorization
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { MESSAGE_POLICIES, authorizeMessage, getSenderContext } from '../src/shared/authorization';
+import { createMessageListener } from '../src/shared/messaging';
+import { authorize } from '../src/shared/middleware';
+import { DEFAULT_USER_SETTINGS, ExtensionMessage } from '../src/shared/types';
+
+const EXTENSION_ID = 'abcdefghijklmnop';
+const EXTENSION_ORIGIN = `chrome-extension://${EXTENSION_ID}`;
+
+const createChromeMock = () => ({
+  runtime: {
+    id: EXTENSION_ID,
+    getURL: vi.fn((path: string) => `${EXTENSION_ORIGIN}${path}`),
+  },
+});
+
+// Chrome mock type for testing
+type ChromeMock = ReturnType<typeof createChromeMock>;
+
+const popupSender: chrome.runtime.MessageSender = {
+  id: EXTENSION_ID,
+  url: `${EXTENSION_ORIGIN}/popup.html`,
+  origin: EXTENSION_ORIGIN,
+};
+
+const optionsSender: chrome.runtime.MessageSender = {
+  id: EXTENSION_ID,
+  url: `${EXTENSION_ORIGIN}/options.html`,
+  origin: EXTENSION_ORIGIN,
+  tab: { id: 7 } as chrome.tabs.Tab,
+};
+
+const contentSender: chrome.runtime.MessageSender = {
+  id: EXTENSION_ID,
+  url: 'https://example.com/page',
+  origin: 'https://example.com',
+  tab: { id: 3 } as chrome.tabs.Tab,
+  frameId: 0,
+};
+
+describe('Authorization', () => {
+  beforeEach(() => {
+    (globalThis as unknown as { chrome: ChromeMock }).chrome = createChromeMock();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('getSenderContext', () => {
+    it('should identify extension pages by path', () => {
+      expect(getSenderContext(popupSender)).toBe('popup');
+      expect(getSenderContext(optionsSender)).toBe('options');
+      expect(getSenderContext({ id: EXTENSION_ID, url: `${EXTENSION_ORIGIN}/welcome.html` })).toBe(
+        'extension_page'
+      );
+    });
+
+    it('should identify content scripts running in web pages', () => {
+      expect(getSenderContext(contentSender)).toBe('content_script');
+    });
+
+    it('should not trust senders from other extensions', () => {
+      expect(getSenderContext({ ...popupSender, id: 'other-extension' })).toBe('unknown');
+    });
+
+    it('should not treat web pages that spoof extension paths as extension pages', () => {
+      expect(getSenderContext({ ...contentSender, url: 'https://evil.example/popup.html' })).toBe(
+        'content_script'
+      );
+    });
+  });
+
+  describe('authorizeMessage', () => {
+    it('should allow content scripts to read settings', () => {
+      const result = authorizeMessage({ type: 'GET_SETTINGS' }, contentSender, MESSAGE_POLICIES);
+
+      expect(result.allowed).toBe(true);
+    });
+
+    it('should block content scripts from turning the extension off', () => {
+      const result = authorizeMessage(
+        { type: 'UPDATE_SETTINGS', payload: { enabled: false } },
+        contentSender,
+        MESSAGE_POLICIES
+      );
+
+      expect(result).toEqual({
+        allowed: false,
+        reason: 'Context "content_script" may not write settings: enabled',
+      });
+    });
+
+    it('should allow content scripts to write preferences only', () => {
+      const allowed = authorizeMessage(
+        { type: 'UPDATE_SETTINGS', payload: { preferences: { widget: 'left' } } },
+        contentSender,
+        MESSAGE_POLICIES
+      );
+      const denied = authorizeMessage(
+        { type: 'UPDATE_SETTINGS', payload: { enabled: false, preferences: {} } },
+        contentSender,
+        MESSAGE_POLICIES
+      );
+
+      expect(allowed.allowed).toBe(true);
+      expect(denied.allowed).toBe(false);
+    });
+
+    it('should not let any context set the subscription tier', () => {
+      // The tier comes from the license key and is not a setting
+      const message = {
+        type: 'UPDATE_SETTINGS',
+        payload: { tier: 'pro' },
+      } as unknown as ExtensionMessage;
+
+      for (const sender of [contentSender, popupSender, optionsSender]) {
+        expect(authorizeMessage(message, sender, MESSAGE_POLICIES).allowed).toBe(false);
+      }
+    });
+
+    it('should only accept license keys from the popup and options page', () => {
+      const message: ExtensionMessage = { type: 'ACTIVATE_LICENSE', payload: { token: 'a.b' } };
+
+      expect(authorizeMessage(message, optionsSender, MESSAGE_POLICIES).allowed).toBe(true);
+      expect(authorizeMessage(message, contentSender, MESSAGE_POLICIES).allowed).toBe(false);
+    });
+
+    it('should not let content scripts read the license', () => {
+      const message: ExtensionMessage = { type: 'GET_LICENSE' };
+
+      expect(authorizeMessage(message, popupSender, MESSAGE_POLICIES).allowed).toBe(true);
+      expect(authorizeMessage(message, contentSender, MESSAGE_POLICIES)).toEqual({
+        allowed: false,
+        reason: 'Context "content_script" may not send GET_LICENSE',
+      });
+    });
+
+    it('should only give content scripts access checks without the license', () => {
+      const entitlements: ExtensionMessage = { type: 'GET_ENTITLEMENTS' };
+      const access: ExtensionMessage = {
+        type: 'CHECK_FEATURE_ACCESS',
+        payload: { feature: 'export_data' },
+      };
+
+      expect(authorizeMessage(entitlements, popupSender, MESSAGE_POLICIES).allowed).toBe(true);
+      expect(authorizeMessage(entitlements, contentSender, MESSAGE_POLICIES)).toEqual({
+        allowed: false,
+        reason: 'Context "content_script" may not send GET_ENTITLEMENTS',
+      });
+      expect(authorizeMessage(access, contentSender, MESSAGE_POLICIES).allowed).toBe(true);
+    });
+
+    it('should only accept CONTENT_SCRIPT_READY from content scripts', () => {
+      const message: ExtensionMessage = {
+        type: 'CONTENT_SCRIPT_READY',
+        payload: { url: 'https://example.com', title: 'Example' },
+      };
+
+      expect(authorizeMessage(message, contentSender, MESSAGE_POLICIES).allowed).toBe(true);
+      expect(authorizeMessage(message, popupSender, MESSAGE_POLICIES).allowed).toBe(false);
+    });
+
+    it('should deny message types without a policy', () => {
+      const result = authorizeMessage({ type: 'GET_SETTINGS' }, popupSender, {});
+
+      expect(result).toEqual({
+        allowed: false,
+        reason: 'No authorization policy for GET_SETTINGS',
+      });
+    });
+  });
+
+  describe('createMessageListener', () => {
+    it('should reject unauthorized messages with a typed error before dispatch', async () => {
+      const handler = vi.fn();
+      const sendResponse = vi.fn();
+      const listener = createMessageListener(
+        { UPDATE_SETTINGS: handler },
+        { global: [authorize(MESSAGE_POLICIES)] }
+      );
+
+      listener(
+        { type: 'UPDATE_SETTINGS', payload: { enabled: false } },
+        contentSender,
+        sendResponse
+      );
+      await vi.waitFor(() => expect(sendResponse).toHaveBeenCalled());
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(sendResponse).toHaveBeenCalledWith({
+        success: false,
+        error: 'Context "content_script" may not write settings: enabled',
+        code: 'UNAUTHORIZED',
+      });
+    });
+
+    it('should dispatch authorized messages to their handler', async () => {
+      const handler = vi.fn(() => ({ success: true, data: DEFAULT_USER_SETTINGS }));
+      const sendResponse = vi.fn();
+      const listener = createMessageListener(
+        { GET_SETTINGS: handler },
+        { global: [authorize(MESSAGE_POLICIES)] }
+      );
+
+      listener({ type: 'GET_SETTINGS' }, popupSender, sendResponse);
+      await vi.waitFor(() => expect(sendResponse).toHaveBeenCalled());
+
+      expect(handler).toHaveBeenCalled();
+      expect(sendResponse).toHaveBeenCalledWith({ success: true, data: DEFAULT_USER_SETTINGS });
+    });
+  });
+});
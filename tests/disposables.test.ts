@@ -0,0 +1,185 @@
+/**
+ * Unit tests for the content-script disposable registry
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  createDisposableRegistry,
+  isExtensionContextValid,
+  watchContextInvalidation,
+} from '../src/content/disposables';
+
+const createChromeMock = () => ({
+  runtime: {
+    id: 'abcdefghijklmnop' as string | undefined,
+  },
+});
+
+// Chrome mock type for testing
+type ChromeMock = ReturnType<typeof createChromeMock>;
+
+/**
+ * Minimal document with a head that styles can be injected into
+ */
+const createDocumentMock = () => {
+  const children = new Set<unknown>();
+  const createElement = () => {
+    const element: { textContent: string; remove: () => void } = {
+      textContent: '',
+      remove: vi.fn(() => children.delete(element)),
+    };
+    return element;
+  };
+  return {
+    children,
+    createElement: vi.fn(createElement),
+    head: { appendChild: vi.fn((element: unknown) => children.add(element)) },
+  };
+};
+
+describe('Disposables', () => {
+  let chromeMock: ChromeMock;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    chromeMock = createChromeMock();
+    (globalThis as unknown as { chrome: ChromeMock }).chrome = chromeMock;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  describe('createDisposableRegistry', () => {
+    it('should remove listeners on flush', () => {
+      const registry = createDisposableRegistry();
+      const target = new EventTarget();
+      const listener = vi.fn();
+      registry.listen(target, 'ping', listener);
+
+      target.dispatchEvent(new Event('ping'));
+      registry.flush();
+      target.dispatchEvent(new Event('ping'));
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(registry.size()).toBe(0);
+    });
+
+    it('should clear intervals and pending timeouts on flush', () => {
+      const registry = createDisposableRegistry();
+      const tick = vi.fn();
+      const later = vi.fn();
+      registry.interval(tick, 100);
+      registry.timeout(later, 500);
+
+      vi.advanceTimersByTime(250);
+      registry.flush();
+      vi.advanceTimersByTime(1000);
+
+      expect(tick).toHaveBeenCalledTimes(2);
+      expect(later).not.toHaveBeenCalled();
+      expect(vi.getTimerCount()).toBe(0);
+    });
+
+    it('should drop timeouts from the registry once they fire', () => {
+      const registry = createDisposableRegistry();
+      const callback = vi.fn();
+      registry.timeout(callback, 100);
+
+      vi.advanceTimersByTime(100);
+
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(registry.size()).toBe(0);
+    });
+
+    it('should disconnect observers and remove styles and elements', () => {
+      const documentMock = createDocumentMock();
+      vi.stubGlobal('document', documentMock);
+      const registry = createDisposableRegistry();
+      const observer = { disconnect: vi.fn() };
+      const element = registry.element({ remove: vi.fn() } as unknown as Element);
+      registry.observer(observer);
+      registry.style('.a { color: red; }');
+
+      expect(documentMock.children.size).toBe(1);
+      registry.flush();
+
+      expect(observer.disconnect).toHaveBeenCalledTimes(1);
+      expect(element.remove).toHaveBeenCalledTimes(1);
+      expect(documentMock.children.size).toBe(0);
+    });
+
+    it('should dispose in reverse order and keep going after errors', () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const registry = createDisposableRegistry();
+      const order: string[] = [];
+      registry.add(() => order.push('first'));
+      registry.add(() => {
+        throw new Error('broken');
+      });
+      registry.add(() => order.push('last'));
+
+      registry.flush();
+
+      expect(order).toEqual(['last', 'first']);
+      expect(console.error).toHaveBeenCalledTimes(1);
+      expect(registry.size()).toBe(0);
+    });
+
+    it('should run each disposer at most once', () => {
+      const registry = createDisposableRegistry();
+      const dispose = vi.fn();
+      const disposer = registry.add(dispose);
+
+      disposer();
+      disposer();
+      registry.flush();
+
+      expect(dispose).toHaveBeenCalledTimes(1);
+    });
+
+    it('should flush children with their parent', () => {
+      const parent = createDisposableRegistry();
+      const child = parent.child();
+      const dispose = vi.fn();
+      child.add(dispose);
+
+      parent.flush();
+
+      expect(dispose).toHaveBeenCalledTimes(1);
+      expect(parent.size()).toBe(0);
+    });
+
+    it('should detach children flushed on their own', () => {
+      const parent = createDisposableRegistry();
+
+      for (let i = 0; i < 3; i++) {
+        const child = parent.child();
+        child.add(vi.fn());
+        child.flush();
+      }
+
+      expect(parent.size()).toBe(0);
+    });
+  });
+
+  describe('watchContextInvalidation', () => {
+    it('should call back once the extension context is gone', () => {
+      const registry = createDisposableRegistry();
+      const onInvalidated = vi.fn();
+      watchContextInvalidation(registry, onInvalidated, 1000);
+
+      vi.advanceTimersByTime(3000);
+      expect(onInvalidated).not.toHaveBeenCalled();
+
+      chromeMock.runtime.id = undefined;
+      vi.advanceTimersByTime(3000);
+
+      expect(isExtensionContextValid()).toBe(false);
+      expect(onInvalidated).toHaveBeenCalledTimes(1);
+      expect(registry.size()).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,278 @@
+/**
+ * Unit tests for entitlements, trials, quotas and the expiry alarm
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  createTrialRecord,
+  describeEntitlementEnd,
+  getNextEntitlementChange,
+  resolveEntitlements,
+  validateTrialRequest,
+} from '../src/shared/entitlements';
+import { FREE_LICENSE, getTierFeatures } from '../src/shared/license';
+import {
+  ENTITLEMENT_ALARM,
+  scheduleEntitlementExpiry,
+  startTrial,
+} from '../src/background/entitlements';
+import { getPeriodEnd, getPeriodKey } from '../src/shared/usage';
+import {
+  LicenseInfo,
+  STORAGE_KEYS,
+  getLowestTier,
+  hasFeatureAccess,
+  meetsRequirement,
+} from '../src/shared/types';
+
+const NOW = Date.UTC(2024, 0, 31);
+const DAY = 24 * 60 * 60 * 1000;
+
+const createLicense = (overrides: Partial<LicenseInfo> = {}): LicenseInfo => ({
+  status: 'active',
+  tier: 'pro',
+  features: getTierFeatures('pro'),
+  licensee: 'jane@example.com',
+  expiresAt: NOW + 30 * DAY,
+  graceEndsAt: NOW + 33 * DAY,
+  ...overrides,
+});
+
+const createChromeMock = () => {
+  const syncStore: Record<string, unknown> = {};
+  return {
+    syncStore,
+    storage: {
+      sync: {
+        get: vi.fn(async (key: string) => (key in syncStore ? { [key]: syncStore[key] } : {})),
+        set: vi.fn(async (items: Record<string, unknown>) => {
+          Object.assign(syncStore, items);
+        }),
+      },
+    },
+    alarms: {
+      create: vi.fn(async () => {}),
+      clear: vi.fn(async () => true),
+    },
+  };
+};
+
+// Chrome mock type for testing
+type ChromeMock = ReturnType<typeof createChromeMock>;
+
+describe('Entitlements', () => {
+  let chromeMock: ChromeMock;
+
+  beforeEach(() => {
+    chromeMock = createChromeMock();
+    (globalThis as unknown as { chrome: ChromeMock }).chrome = chromeMock;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('tiers', () => {
+    it('should meet minimum tier, tier set and add-on requirements', () => {
+      expect(meetsRequirement('pro', { minTier: 'plus' })).toBe(true);
+      expect(meetsRequirement('free', { minTier: 'plus' })).toBe(false);
+      expect(meetsRequirement('team', { tiers: ['pro'] })).toBe(false);
+      expect(meetsRequirement('pro', { tiers: ['pro'] })).toBe(true);
+      expect(meetsRequirement('team', { addOn: true })).toBe(false);
+    });
+
+    it('should include the features of lower tiers', () => {
+      expect(hasFeatureAccess('plus', 'export_data')).toBe(true);
+      expect(hasFeatureAccess('plus', 'custom_themes')).toBe(false);
+      expect(hasFeatureAccess('team', 'custom_themes')).toBe(true);
+      expect(getLowestTier('basic_feature')).toBe('free');
+      expect(getLowestTier('custom_themes')).toBe('pro');
+    });
+  });
+
+  describe('resolveEntitlements', () => {
+    it('should grant only free and metered features without a license or trial', () => {
+      const entitlements = resolveEntitlements(FREE_LICENSE, {}, NOW);
+
+      expect(entitlements).toMatchObject({ tier: 'free', state: 'free', endsAt: null });
+      expect(entitlements.features.basic_feature).toMatchObject({ granted: true, source: 'free' });
+      expect(entitlements.features.export_data).toMatchObject({ granted: true, source: 'quota' });
+      expect(entitlements.features.custom_themes).toMatchObject({ granted: false, source: null });
+      expect(entitlements.availableTrials).toEqual([
+        'pro',
+        'advanced_analytics',
+        'export_data',
+        'custom_themes',
+        'priority_support',
+      ]);
+    });
+
+    it('should grant the pro tier during a pro trial', () => {
+      const trials = { pro: createTrialRecord('pro', NOW - DAY) };
+
+      const entitlements = resolveEntitlements(FREE_LICENSE, trials, NOW);
+
+      expect(entitlements).toMatchObject({ tier: 'pro', state: 'trial', daysLeft: 13 });
+      expect(entitlements.features.export_data).toMatchObject({
+        granted: true,
+        source: 'trial',
+        expiresAt: NOW + 13 * DAY,
+      });
+      expect(entitlements.availableTrials).toEqual([]);
+      expect(describeEntitlementEnd(entitlements)).toBe('Trial ends in 13 days');
+    });
+
+    it('should grant a single feature during a feature trial', () => {
+      const trials = { export_data: createTrialRecord('export_data', NOW) };
+
+      const entitlements = resolveEntitlements(FREE_LICENSE, trials, NOW);
+
+      expect(entitlements.tier).toBe('free');
+      expect(entitlements.features.export_data).toMatchObject({ granted: true, daysLeft: 7 });
+      expect(entitlements.features.custom_themes.granted).toBe(false);
+      expect(entitlements.availableTrials).not.toContain('export_data');
+    });
+
+    it('should stop granting a metered feature once its quota is used up', () => {
+      const usage = { export_data: { period: getPeriodKey('day', NOW), count: 5 } };
+
+      const entitlements = resolveEntitlements(FREE_LICENSE, {}, NOW, usage);
+
+      expect(entitlements.features.export_data).toMatchObject({
+        granted: false,
+        source: null,
+        quota: { limit: 5, used: 5, remaining: 0, period: 'day' },
+      });
+      expect(entitlements.availableTrials).toContain('export_data');
+      expect(getNextEntitlementChange(entitlements)).toBe(getPeriodEnd('day', NOW));
+    });
+
+    it('should not meter features granted otherwise', () => {
+      const usage = { export_data: { period: getPeriodKey('day', NOW), count: 5 } };
+
+      const entitlements = resolveEntitlements(createLicense(), {}, NOW, usage);
+
+      expect(entitlements.features.export_data).toMatchObject({ source: 'license', quota: null });
+    });
+
+    it('should let the trial of a higher tier outrank a license', () => {
+      const license = createLicense({ tier: 'plus', features: getTierFeatures('plus') });
+      const trials = { pro: createTrialRecord('pro', NOW) };
+
+      expect(resolveEntitlements(license, {}, NOW)).toMatchObject({
+        tier: 'plus',
+        state: 'licensed',
+        availableTrials: ['pro', 'advanced_analytics', 'custom_themes', 'priority_support'],
+      });
+      expect(resolveEntitlements(license, trials, NOW)).toMatchObject({
+        tier: 'pro',
+        state: 'trial',
+      });
+    });
+
+    it('should not offer trials of tiers below the license', () => {
+      const license = createLicense({ tier: 'team', features: getTierFeatures('team') });
+
+      expect(resolveEntitlements(license, {}, NOW).availableTrials).toEqual([]);
+    });
+
+    it('should not offer a trial again once it ended', () => {
+      const trials = { pro: createTrialRecord('pro', NOW - 20 * DAY) };
+
+      const entitlements = resolveEntitlements(FREE_LICENSE, trials, NOW);
+
+      expect(entitlements).toMatchObject({ tier: 'free', state: 'free' });
+      expect(entitlements.availableTrials).not.toContain('pro');
+    });
+
+    it('should keep an expired license during its grace period', () => {
+      const license = createLicense({
+        status: 'grace',
+        expiresAt: NOW - DAY,
+        graceEndsAt: NOW + 2 * DAY,
+      });
+
+      const entitlements = resolveEntitlements(license, {}, NOW);
+
+      expect(entitlements).toMatchObject({ tier: 'pro', state: 'grace', endsAt: NOW + 2 * DAY });
+      expect(entitlements.features.export_data).toMatchObject({
+        source: 'license',
+        inGracePeriod: true,
+      });
+      expect(describeEntitlementEnd(entitlements)).toBe('License expired, access ends in 2 days');
+    });
+
+    it('should use whichever grant of a feature lasts longest', () => {
+      const license = createLicense({ expiresAt: NOW + DAY });
+      const trials = { export_data: createTrialRecord('export_data', NOW) };
+
+      const entitlements = resolveEntitlements(license, trials, NOW);
+
+      expect(entitlements.state).toBe('licensed');
+      expect(entitlements.features.export_data.source).toBe('trial');
+      expect(entitlements.features.custom_themes.source).toBe('license');
+    });
+  });
+
+  describe('getNextEntitlementChange', () => {
+    it('should return the earliest end of the tier or a feature', () => {
+      const trials = {
+        export_data: createTrialRecord('export_data', NOW),
+        custom_themes: createTrialRecord('custom_themes', NOW - 2 * DAY),
+      };
+
+      expect(getNextEntitlementChange(resolveEntitlements(FREE_LICENSE, trials, NOW))).toBe(
+        NOW + 5 * DAY
+      );
+      expect(getNextEntitlementChange(resolveEntitlements(createLicense(), {}, NOW))).toBe(
+        NOW + 30 * DAY
+      );
+      expect(getNextEntitlementChange(resolveEntitlements(FREE_LICENSE, {}, NOW))).toBeNull();
+    });
+  });
+
+  describe('validateTrialRequest', () => {
+    it('should accept tiers with a trial and feature keys only', () => {
+      expect(validateTrialRequest({ target: 'pro' })).toEqual([]);
+      expect(validateTrialRequest({ target: 'export_data' })).toEqual([]);
+      expect(validateTrialRequest({ target: 'toString' })).toHaveLength(1);
+      // Only tiers with a trial can be tried
+      expect(validateTrialRequest({ target: 'team' })).toHaveLength(1);
+      expect(validateTrialRequest(null)).toHaveLength(1);
+    });
+  });
+
+  describe('startTrial', () => {
+    it('should add the trial to the ones already used', async () => {
+      const pro = createTrialRecord('pro', NOW - 20 * DAY);
+      chromeMock.syncStore[STORAGE_KEYS.TRIALS] = { pro };
+
+      const trials = await startTrial('export_data', NOW);
+
+      expect(trials).toEqual({ pro, export_data: createTrialRecord('export_data', NOW) });
+      expect(chromeMock.syncStore[STORAGE_KEYS.TRIALS]).toEqual(trials);
+    });
+
+    it('should not write when the used trials cannot be read', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      chromeMock.storage.sync.get.mockRejectedValue(new Error('Storage error'));
+
+      expect(await startTrial('pro', NOW)).toBeNull();
+      expect(chromeMock.storage.sync.set).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('scheduleEntitlementExpiry', () => {
+    it('should set the alarm for the next change, or clear it', async () => {
+      const trials = { pro: createTrialRecord('pro', NOW) };
+
+      await scheduleEntitlementExpiry(resolveEntitlements(FREE_LICENSE, trials, NOW));
+      await scheduleEntitlementExpiry(resolveEntitlements(FREE_LICENSE, {}, NOW));
+
+      expect(chromeMock.alarms.create).toHaveBeenCalledWith(ENTITLEMENT_ALARM, {
+        when: NOW + 14 * DAY,
+      });
+      expect(chromeMock.alarms.clear).toHaveBeenCalledWith(ENTITLEMENT_ALARM);
+    });
+  });
+});
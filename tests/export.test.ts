@@ -0,0 +1,199 @@
+/**
+ * Unit tests for data export and the extraction history
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  createExportFile,
+  escapeCsvCell,
+  flattenObject,
+  toMarkdownTable,
+  validateExportRequest,
+} from '../src/shared/export';
+import {
+  MAX_HISTORY_ENTRIES,
+  addToExtractionHistory,
+  getExtractionHistory,
+} from '../src/background/history';
+import { requireFeature } from '../src/shared/middleware';
+import { FREE_LICENSE } from '../src/shared/license';
+import { resolveEntitlements } from '../src/shared/entitlements';
+import { getPeriodKey } from '../src/shared/usage';
+import { DEFAULT_USER_SETTINGS, PAGE_DATA_VERSION, PageData } from '../src/shared/types';
+
+const NOW = Date.UTC(2024, 0, 31, 12);
+
+const createPage = (overrides: Partial<PageData> = {}): PageData => ({
+  version: PAGE_DATA_VERSION,
+  url: 'https://example.com/article',
+  title: 'An Article',
+  extractedAt: NOW,
+  metadata: {
+    description: 'About "things", mostly',
+    canonicalUrl: null,
+    language: 'en',
+    openGraph: {},
+    twitter: {},
+  },
+  headings: [
+    { level: 1, text: 'Intro' },
+    { level: 2, text: 'Details' },
+  ],
+  tables: [{ caption: null, headers: ['Name', 'Value'], rows: [['a|b', '=1+1']] }],
+  ...overrides,
+});
+
+const createChromeMock = () => {
+  const local: Record<string, unknown> = {};
+  return {
+    storage: {
+      local: {
+        get: vi.fn(async (key: string) => ({ [key]: local[key] })),
+        set: vi.fn(async (items: Record<string, unknown>) => {
+          Object.assign(local, items);
+        }),
+      },
+    },
+  };
+};
+
+// Chrome mock type for testing
+type ChromeMock = ReturnType<typeof createChromeMock>;
+
+describe('Export', () => {
+  describe('helpers', () => {
+    it('should escape CSV cells and neutralize formulas', () => {
+      expect(escapeCsvCell('plain')).toBe('plain');
+      expect(escapeCsvCell('a,"b"')).toBe('"a,""b"""');
+      expect(escapeCsvCell('=HYPERLINK("x")')).toBe('"\'=HYPERLINK(""x"")"');
+      expect(escapeCsvCell(null)).toBe('');
+      expect(escapeCsvCell(3)).toBe('3');
+    });
+
+    it('should flatten nested objects into dot paths', () => {
+      expect(flattenObject({ a: 1, b: { c: true, d: {} }, e: [{ f: 1 }] })).toEqual([
+        ['a', 1],
+        ['b.c', true],
+        ['b.d', ''],
+        ['e', '[{"f":1}]'],
+      ]);
+    });
+
+    it('should escape pipes and newlines in Markdown tables', () => {
+      expect(toMarkdownTable(['A', 'B'], [['x|y', 'line\nbreak']])).toBe(
+        '| A | B |\n| --- | --- |\n| x\\|y | line break |'
+      );
+    });
+
+    it('should validate export requests', () => {
+      expect(validateExportRequest({ source: 'page', format: 'csv' })).toEqual([]);
+      expect(validateExportRequest({ source: 'page', format: 'pdf', tabId: 1 })).toEqual([
+        { path: 'format', message: 'Expected one of json, csv, markdown' },
+      ]);
+      expect(validateExportRequest({ format: 'json' })).toEqual([
+        { path: 'source', message: 'Missing field' },
+      ]);
+    });
+  });
+
+  describe('createExportFile', () => {
+    it('should export a page as pretty-printed JSON', () => {
+      const page = createPage();
+
+      const file = createExportFile('page', 'json', page, NOW);
+
+      expect(file.filename).toBe('page-example.com-2024-01-31.json');
+      expect(file.mimeType).toBe('application/json');
+      expect(JSON.parse(file.content)).toEqual(page);
+    });
+
+    it('should export pages as one CSV row each', () => {
+      const file = createExportFile('history', 'csv', [createPage(), createPage()], NOW);
+      const lines = file.content.trimEnd().split('\r\n');
+
+      expect(file.filename).toBe('extraction-history-2024-01-31.csv');
+      expect(lines).toHaveLength(3);
+      expect(lines[0]).toBe(
+        'url,title,extractedAt,description,canonicalUrl,language,wordCount,headings,links,images,tables'
+      );
+      expect(lines[1]).toBe(
+        'https://example.com/article,An Article,2024-01-31T12:00:00.000Z,' +
+          '"About ""things"", mostly",,en,,2,,,1'
+      );
+    });
+
+    it('should export a page as Markdown', () => {
+      const file = createExportFile('page', 'markdown', createPage(), NOW);
+
+      expect(file.filename).toBe('page-example.com-2024-01-31.md');
+      expect(file.content).toContain('# An Article\n\n<https://example.com/article>');
+      expect(file.content).toContain('## Outline\n\n- Intro\n  - Details');
+      expect(file.content).toContain('| a\\|b | =1+1 |');
+    });
+
+    it('should export settings as key/value rows', () => {
+      const file = createExportFile('settings', 'csv', DEFAULT_USER_SETTINGS, NOW);
+
+      expect(file.content).toContain('setting,value\r\nenabled,true\r\n');
+      expect(file.content).toContain('notifications.sound,false');
+    });
+  });
+
+  describe('gating', () => {
+    it('should refuse exports once the free quota is used up', async () => {
+      const next = vi.fn();
+      const usage = { export_data: { period: getPeriodKey('day', NOW), count: 5 } };
+      const middleware = requireFeature<'EXPORT_DATA'>('export_data', async () =>
+        resolveEntitlements(FREE_LICENSE, {}, NOW, usage)
+      );
+
+      const response = await middleware(
+        {
+          message: { type: 'EXPORT_DATA', payload: { source: 'settings', format: 'json' } },
+          sender: {},
+          state: {},
+        },
+        next
+      );
+
+      expect(next).not.toHaveBeenCalled();
+      expect(response.code).toBe('QUOTA_EXCEEDED');
+    });
+  });
+
+  describe('history', () => {
+    let chromeMock: ChromeMock;
+
+    beforeEach(() => {
+      chromeMock = createChromeMock();
+      (globalThis as unknown as { chrome: ChromeMock }).chrome = chromeMock;
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should keep the newest extraction of each URL first', async () => {
+      await addToExtractionHistory(createPage({ url: 'https://a.test/', extractedAt: 1 }));
+      await addToExtractionHistory(createPage({ url: 'https://b.test/', extractedAt: 2 }));
+      await addToExtractionHistory(createPage({ url: 'https://a.test/', extractedAt: 3 }));
+
+      const history = await getExtractionHistory();
+
+      expect(history.map((page) => page.extractedAt)).toEqual([3, 2]);
+    });
+
+    it('should cap the number of entries', async () => {
+      await Promise.all(
+        Array.from({ length: MAX_HISTORY_ENTRIES + 5 }, (_, i) =>
+          addToExtractionHistory(createPage({ url: `https://example.com/${i}` }))
+        )
+      );
+
+      const history = await getExtractionHistory();
+
+      expect(history).toHaveLength(MAX_HISTORY_ENTRIES);
+      expect(history[0].url).toBe(`https://example.com/${MAX_HISTORY_ENTRIES + 4}`);
+    });
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Unit tests for structured page extraction
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  extractPageData,
+  normalizeWhitespace,
+  parseJsonLd,
+  resolveExtractors,
+  scoreClassAndId,
+  scoreParagraph,
+} from '../src/content/extraction';
+import { PAGE_DATA_VERSION } from '../src/shared/types';
+
+/**
+ * Minimal stand-in for an empty document
+ */
+const createDocument = (querySelectorAll: (selector: string) => unknown[] = () => []) =>
+  ({
+    location: { href: 'https://example.com/article' },
+    URL: 'https://example.com/article',
+    title: '  An   Article ',
+    documentElement: { lang: 'en' },
+    images: [],
+    querySelector: () => null,
+    querySelectorAll,
+  }) as unknown as Document;
+
+describe('Extraction', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('helpers', () => {
+    it('should normalize whitespace', () => {
+      expect(normalizeWhitespace('  a \n\t b  ')).toBe('a b');
+      expect(normalizeWhitespace(null)).toBe('');
+    });
+
+    it('should parse JSON-LD blocks and skip invalid ones', () => {
+      const blocks = parseJsonLd([
+        '{"@type": "Article", "headline": "Hi"}',
+        '[{"@type": "Person"}, {"@type": "Organization"}]',
+        '{ not json',
+        'null',
+      ]);
+
+      expect(blocks).toEqual([
+        { '@type': 'Article', headline: 'Hi' },
+        { '@type': 'Person' },
+        { '@type': 'Organization' },
+      ]);
+    });
+
+    it('should enable every extractor unless switched off', () => {
+      expect(resolveExtractors()).toHaveLength(8);
+      expect(resolveExtractors({ extractors: { links: false, images: false } })).not.toContain(
+        'links'
+      );
+    });
+
+    it('should score content-like and boilerplate containers', () => {
+      expect(scoreClassAndId('post-body', '')).toBe(25);
+      expect(scoreClassAndId('sidebar', 'comments')).toBe(-50);
+      expect(scoreClassAndId('', '')).toBe(0);
+    });
+
+    it('should only score paragraphs with real prose', () => {
+      expect(scoreParagraph('Too short')).toBe(0);
+      expect(scoreParagraph('A sentence, with two commas, that is long enough.')).toBe(4);
+    });
+  });
+
+  describe('extractPageData', () => {
+    it('should return a versioned result with only the enabled extractors', () => {
+      const data = extractPageData(
+        { extractors: { metadata: true, headings: true, mainContent: false } },
+        createDocument()
+      );
+
+      expect(data).toMatchObject({
+        version: PAGE_DATA_VERSION,
+        url: 'https://example.com/article',
+        title: 'An Article',
+        metadata: {
+          description: null,
+          canonicalUrl: null,
+          language: 'en',
+          openGraph: {},
+          twitter: {},
+        },
+        headings: [],
+        tables: [],
+      });
+      expect(data).not.toHaveProperty('mainContent');
+      expect(data).not.toHaveProperty('errors');
+    });
+
+    it('should report failing extractors without losing the others', () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const doc = createDocument((selector) => {
+        if (selector === 'table') throw new Error('tables unavailable');
+        return [];
+      });
+
+      const data = extractPageData({}, doc);
+
+      expect(data.errors).toEqual({ tables: 'tables unavailable' });
+      expect(data).not.toHaveProperty('tables');
+      expect(data.links).toEqual([]);
+      expect(data.mainContent).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,283 @@
+/**
+ * Unit tests for feature flags, rollouts and the flag refresh
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { createServer, IncomingHttpHeaders, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import {
+  applyFeatureFlags,
+  getFeatureFlags,
+  getInstallId,
+  getRolloutBucket,
+  hasFlagDocumentChanged,
+  isFeatureEnabled,
+  parseFlagDocument,
+} from '../src/shared/flags';
+import {
+  FLAG_ALARM,
+  refreshFeatureFlags,
+  scheduleFeatureFlagRefresh,
+} from '../src/background/flags';
+import { resolveEntitlements } from '../src/shared/entitlements';
+import { FREE_LICENSE, getTierFeatures } from '../src/shared/license';
+import { composeMiddleware, requireFeature } from '../src/shared/middleware';
+import { FeatureFlagDocument, LicenseInfo, STORAGE_KEYS } from '../src/shared/types';
+
+const NOW = Date.UTC(2024, 0, 31);
+
+const PRO_LICENSE: LicenseInfo = {
+  ...FREE_LICENSE,
+  status: 'active',
+  tier: 'pro',
+  features: getTierFeatures('pro'),
+};
+
+/**
+ * Local stand-in for the flag endpoint
+ */
+const createFlagServer = () => {
+  const state = {
+    document: { flags: { export_data: { enabled: false } } } as unknown,
+    etag: '"v1"',
+    requests: [] as IncomingHttpHeaders[],
+  };
+  const server = createServer((request, response) => {
+    state.requests.push(request.headers);
+    if (request.url === '/error') {
+      response.writeHead(500).end();
+    } else if (request.url === '/broken') {
+      response.writeHead(200, { 'Content-Type': 'application/json' }).end('{"flags":');
+    } else if (request.headers['if-none-match'] === state.etag) {
+      response.writeHead(304, { ETag: state.etag }).end();
+    } else {
+      response
+        .writeHead(200, { 'Content-Type': 'application/json', ETag: state.etag })
+        .end(JSON.stringify(state.document));
+    }
+  });
+  return { server, state };
+};
+
+const createChromeMock = (baseUrl: string) => {
+  const localStore: Record<string, unknown> = {};
+  return {
+    localStore,
+    storage: {
+      local: {
+        get: vi.fn(async (key: string) => ({ [key]: localStore[key] })),
+        set: vi.fn(async (items: Record<string, unknown>) => {
+          Object.assign(localStore, items);
+        }),
+      },
+    },
+    runtime: {
+      getURL: vi.fn((path: string) => `${baseUrl}/${path}`),
+    },
+    alarms: {
+      create: vi.fn(async () => {}),
+    },
+  };
+};
+
+// Chrome mock type for testing
+type ChromeMock = ReturnType<typeof createChromeMock>;
+
+describe('Feature Flags', () => {
+  let flagServer: ReturnType<typeof createFlagServer>;
+  let server: Server;
+  let baseUrl: string;
+  let chromeMock: ChromeMock;
+
+  beforeAll(async () => {
+    flagServer = createFlagServer();
+    server = flagServer.server;
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    flagServer.state.requests = [];
+    chromeMock = createChromeMock(baseUrl);
+    (globalThis as unknown as { chrome: ChromeMock }).chrome = chromeMock;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('parseFlagDocument', () => {
+    it('should keep the flags of known features', () => {
+      expect(
+        parseFlagDocument({
+          flags: { export_data: { enabled: true, rollout: 25 }, time_travel: { enabled: true } },
+        })
+      ).toEqual({ flags: { export_data: { enabled: true, rollout: 25 } } });
+    });
+
+    it('should reject documents with a malformed flag', () => {
+      expect(parseFlagDocument({ flags: { export_data: { enabled: 'yes' } } })).toBeNull();
+      expect(parseFlagDocument({ flags: { export_data: { enabled: true, rollout: 101 } } })).toBe(
+        null
+      );
+      expect(parseFlagDocument([])).toBeNull();
+    });
+  });
+
+  describe('hasFlagDocumentChanged', () => {
+    it('should ignore refreshes that only checked the document', () => {
+      const document = { flags: { export_data: { enabled: false } } };
+      const cached = { document, etag: '"v1"', fetchedAt: NOW };
+
+      expect(
+        hasFlagDocumentChanged({ oldValue: cached, newValue: { ...cached, fetchedAt: NOW + 1 } })
+      ).toBe(false);
+      expect(
+        hasFlagDocumentChanged({
+          oldValue: cached,
+          newValue: { ...cached, document: { flags: {} }, etag: '"v2"' },
+        })
+      ).toBe(true);
+      expect(hasFlagDocumentChanged({ newValue: cached })).toBe(true);
+    });
+  });
+
+  describe('rollouts', () => {
+    it('should place installs in stable buckets', () => {
+      const buckets = Array.from({ length: 1000 }, (_, i) =>
+        getRolloutBucket(`install-${i}`, 'export_data')
+      );
+
+      expect(getRolloutBucket('install-1', 'export_data')).toBe(buckets[1]);
+      expect(buckets.every((bucket) => bucket >= 0 && bucket < 100)).toBe(true);
+      // Roughly half of the installs get a 50% rollout
+      const included = buckets.filter((bucket) => bucket < 50).length;
+      expect(included).toBeGreaterThan(400);
+      expect(included).toBeLessThan(600);
+    });
+
+    it('should turn features on for installs inside the rollout only', () => {
+      const bucket = getRolloutBucket('install-1', 'export_data');
+
+      expect(isFeatureEnabled(undefined, 'export_data', 'install-1')).toBe(true);
+      expect(isFeatureEnabled({ enabled: false }, 'export_data', 'install-1')).toBe(false);
+      expect(
+        isFeatureEnabled({ enabled: true, rollout: bucket + 1 }, 'export_data', 'install-1')
+      ).toBe(true);
+      expect(isFeatureEnabled({ enabled: true, rollout: bucket }, 'export_data', 'install-1')).toBe(
+        false
+      );
+    });
+
+    it('should keep the install ID it created', async () => {
+      const id = await getInstallId();
+
+      expect(chromeMock.localStore[STORAGE_KEYS.INSTALL_ID]).toBe(id);
+      expect(await getInstallId()).toBe(id);
+    });
+  });
+
+  describe('applyFeatureFlags', () => {
+    const killExport: FeatureFlagDocument = { flags: { export_data: { enabled: false } } };
+
+    it('should take switched off features away whatever the tier', () => {
+      const entitlements = applyFeatureFlags(
+        resolveEntitlements(PRO_LICENSE, {}, NOW),
+        killExport,
+        'install-1'
+      );
+
+      expect(entitlements.tier).toBe('pro');
+      expect(entitlements.features.export_data).toMatchObject({
+        granted: false,
+        source: null,
+        disabled: true,
+      });
+      expect(entitlements.features.custom_themes).toMatchObject({
+        granted: true,
+        disabled: false,
+      });
+    });
+
+    it('should not offer trials of switched off features', () => {
+      const entitlements = applyFeatureFlags(
+        resolveEntitlements(FREE_LICENSE, {}, NOW),
+        killExport,
+        'install-1'
+      );
+
+      expect(entitlements.availableTrials).toContain('pro');
+      expect(entitlements.availableTrials).not.toContain('export_data');
+    });
+
+    it('should refuse messages for switched off features', async () => {
+      const entitlements = applyFeatureFlags(
+        resolveEntitlements(PRO_LICENSE, {}, NOW),
+        killExport,
+        'install-1'
+      );
+
+      const response = await composeMiddleware(
+        [requireFeature('export_data', async () => entitlements)],
+        async () => ({ success: true })
+      )({ message: { type: 'GET_SETTINGS' }, sender: {}, state: {} });
+
+      expect(response).toEqual({
+        success: false,
+        error: 'Feature "export_data" is currently unavailable',
+        code: 'FEATURE_DISABLED',
+      });
+    });
+  });
+
+  describe('refreshFeatureFlags', () => {
+    it('should cache the document with its ETag', async () => {
+      expect(await refreshFeatureFlags(`${baseUrl}/flags.json`, NOW)).toBe(true);
+
+      expect(await getFeatureFlags()).toEqual({
+        document: { flags: { export_data: { enabled: false, rollout: undefined } } },
+        etag: '"v1"',
+        fetchedAt: NOW,
+      });
+    });
+
+    it('should only download documents that changed', async () => {
+      await refreshFeatureFlags(`${baseUrl}/flags.json`, NOW);
+      await refreshFeatureFlags(`${baseUrl}/flags.json`, NOW + 1000);
+
+      expect(flagServer.state.requests[1]['if-none-match']).toBe('"v1"');
+      expect((await getFeatureFlags())?.fetchedAt).toBe(NOW + 1000);
+      expect((await getFeatureFlags())?.document.flags.export_data?.enabled).toBe(false);
+    });
+
+    it('should keep the last good copy when the endpoint fails', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      await refreshFeatureFlags(`${baseUrl}/flags.json`, NOW);
+
+      expect(await refreshFeatureFlags(`${baseUrl}/error`, NOW + 1000)).toBe(false);
+      expect(await refreshFeatureFlags(`${baseUrl}/broken`, NOW + 2000)).toBe(false);
+      expect(await refreshFeatureFlags('http://127.0.0.1:1/flags.json', NOW + 3000)).toBe(false);
+
+      expect((await getFeatureFlags())?.fetchedAt).toBe(NOW);
+    });
+
+    it('should fetch relative URLs from the extension', async () => {
+      await refreshFeatureFlags('feature-flags.json', NOW);
+
+      expect(chromeMock.runtime.getURL).toHaveBeenCalledWith('feature-flags.json');
+      expect(flagServer.state.requests).toHaveLength(1);
+    });
+  });
+
+  describe('scheduleFeatureFlagRefresh', () => {
+    it('should refresh the flags periodically', async () => {
+      await scheduleFeatureFlagRefresh();
+
+      expect(chromeMock.alarms.create).toHaveBeenCalledWith(FLAG_ALARM, { periodInMinutes: 60 });
+    });
+  });
+});
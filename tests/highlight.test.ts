@@ -0,0 +1,144 @@
+/**
+ * Unit tests for highlight matching and marking
+ *
+ * @vitest-environment jsdom
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  buildMatcher,
+  clearHighlights,
+  findTextMatches,
+  getHighlightState,
+  highlight,
+} from '../src/content/highlight';
+
+describe('Highlight', () => {
+  describe('buildMatcher', () => {
+    it('should match literal text case-insensitively by default', () => {
+      const matcher = buildMatcher({ text: 'a.b' });
+
+      expect('A.B axb'.match(matcher)).toEqual(['A.B']);
+    });
+
+    it('should honor case-sensitive text queries', () => {
+      expect('Foo foo'.match(buildMatcher({ text: 'foo', caseSensitive: true }))).toEqual(['foo']);
+    });
+
+    it('should always search patterns globally', () => {
+      const matcher = buildMatcher({ pattern: '\\d+', flags: 'y' });
+
+      expect(matcher.flags).toBe('g');
+      expect('a1 b22'.match(matcher)).toEqual(['1', '22']);
+    });
+
+    it('should reject empty and invalid queries', () => {
+      expect(() => buildMatcher({ text: '' })).toThrow('Highlight text must not be empty');
+      expect(() => buildMatcher({ pattern: '(' })).toThrow(/^Invalid pattern/);
+    });
+  });
+
+  describe('findTextMatches', () => {
+    it('should find matches within a single segment', () => {
+      const matches = findTextMatches(['say hello, hello'], buildMatcher({ text: 'hello' }));
+
+      expect(matches).toEqual([
+        [{ segment: 0, start: 4, end: 9 }],
+        [{ segment: 0, start: 11, end: 16 }],
+      ]);
+    });
+
+    it('should split matches across text segment boundaries', () => {
+      // e.g. <p>foo <b>ba</b>r</p>
+      const matches = findTextMatches(['foo ', 'ba', 'r'], buildMatcher({ text: 'foo bar' }));
+
+      expect(matches).toEqual([
+        [
+          { segment: 0, start: 0, end: 4 },
+          { segment: 1, start: 0, end: 2 },
+          { segment: 2, start: 0, end: 1 },
+        ],
+      ]);
+    });
+
+    it('should skip empty segments and empty matches', () => {
+      const matches = findTextMatches(['x', '', 'yx'], buildMatcher({ pattern: 'x*' }));
+
+      expect(matches).toEqual([
+        [{ segment: 0, start: 0, end: 1 }],
+        [{ segment: 2, start: 1, end: 2 }],
+      ]);
+    });
+
+    it('should stop at the match limit', () => {
+      expect(findTextMatches(['aaaa'], buildMatcher({ text: 'a' }), 3)).toHaveLength(3);
+    });
+  });
+
+  describe('marking', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+      // jsdom does not lay out pages
+      Element.prototype.scrollIntoView = vi.fn();
+    });
+
+    afterEach(() => {
+      clearHighlights();
+      document.body.innerHTML = '';
+      vi.useRealTimers();
+    });
+
+    it('should restore the text nodes it split', () => {
+      document.body.innerHTML = '<p>foo bar foo</p>';
+      const paragraph = document.querySelector('p') as HTMLElement;
+      const original = paragraph.firstChild;
+
+      expect(highlight({ text: 'foo' }).count).toBe(2);
+      expect(paragraph.querySelectorAll('mark')).toHaveLength(2);
+
+      clearHighlights();
+
+      expect(paragraph.childNodes).toHaveLength(1);
+      expect(paragraph.firstChild).toBe(original);
+      expect(original?.nodeValue).toBe('foo bar foo');
+    });
+
+    it('should not merge text nodes the page created', () => {
+      const paragraph = document.createElement('p');
+      paragraph.append(document.createTextNode('foo '), document.createTextNode('bar'));
+      document.body.append(paragraph);
+
+      highlight({ text: 'bar' });
+      clearHighlights();
+
+      expect(Array.from(paragraph.childNodes, (node) => node.nodeValue)).toEqual(['foo ', 'bar']);
+    });
+
+    it('should mark only the content the page adds', async () => {
+      document.body.innerHTML = '<p>foo</p>';
+      highlight({ text: 'foo' });
+      const first = document.querySelector('mark');
+
+      const added = document.createElement('div');
+      added.textContent = 'more foo';
+      document.body.append(added);
+      await vi.advanceTimersByTimeAsync(300);
+
+      expect(getHighlightState()).toMatchObject({ count: 2, index: 0 });
+      expect(document.querySelector('mark')).toBe(first);
+      expect(added.querySelector('mark')?.textContent).toBe('foo');
+      // Marking the new content does not trigger another pass
+      expect(vi.getTimerCount()).toBe(0);
+    });
+
+    it('should drop matches the page removes', async () => {
+      document.body.innerHTML = '<p>foo</p><div>foo</div>';
+      highlight({ text: 'foo' });
+
+      document.querySelector('div')?.remove();
+      await vi.advanceTimersByTimeAsync(300);
+
+      expect(getHighlightState()).toMatchObject({ count: 1, index: 0 });
+    });
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Unit tests for dynamic content-script registration
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  CONTENT_SCRIPT_ID,
+  affectsRegistration,
+  getContentScriptMatches,
+  injectContentScript,
+  syncContentScripts,
+  toMatchPatterns,
+} from '../src/background/injection';
+import { DEFAULT_USER_SETTINGS, SiteRule, UserSettings } from '../src/shared/types';
+
+const rule = (pattern: string, mode: SiteRule['mode']): SiteRule => ({
+  pattern,
+  mode,
+  preferences: {},
+});
+
+const withRules = (siteRules: SiteRule[], enabled = true): UserSettings => ({
+  ...DEFAULT_USER_SETTINGS,
+  enabled,
+  siteRules,
+});
+
+const createChromeMock = () => {
+  const registered: chrome.scripting.RegisteredContentScript[] = [];
+  return {
+    registered,
+    permissions: {
+      getAll: vi.fn(async () => ({ origins: ['<all_urls>'] as string[], permissions: [] })),
+    },
+    scripting: {
+      getRegisteredContentScripts: vi.fn(async () => [...registered]),
+      registerContentScripts: vi.fn(async (scripts: chrome.scripting.RegisteredContentScript[]) => {
+        registered.push(...scripts);
+      }),
+      updateContentScripts: vi.fn(async (scripts: chrome.scripting.RegisteredContentScript[]) => {
+        registered.splice(0, registered.length, ...scripts);
+      }),
+      unregisterContentScripts: vi.fn(async () => {
+        registered.splice(0, registered.length);
+      }),
+      executeScript: vi.fn(async () => []),
+    },
+  };
+};
+
+// Chrome mock type for testing
+type ChromeMock = ReturnType<typeof createChromeMock>;
+
+describe('Injection', () => {
+  let chromeMock: ChromeMock;
+
+  beforeEach(() => {
+    chromeMock = createChromeMock();
+    (globalThis as unknown as { chrome: ChromeMock }).chrome = chromeMock;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('toMatchPatterns', () => {
+    it('should cover bare domains and their subdomains', () => {
+      expect(toMatchPatterns('Example.com')).toEqual(['*://example.com/*', '*://*.example.com/*']);
+      expect(toMatchPatterns('*.example.com')).toEqual(['*://*.example.com/*']);
+    });
+
+    it('should keep schemes and paths and drop ports', () => {
+      expect(toMatchPatterns('example.com/docs/*')).toEqual(['*://example.com/docs/*']);
+      expect(toMatchPatterns('http://localhost:3000/*')).toEqual(['http://localhost/*']);
+      expect(toMatchPatterns('http*://example.com/*')).toEqual(['*://example.com/*']);
+    });
+
+    it('should widen globs match patterns cannot express', () => {
+      expect(toMatchPatterns('shop.*.com')).toEqual(['*://*/*']);
+      expect(toMatchPatterns('  ')).toEqual([]);
+    });
+  });
+
+  describe('getContentScriptMatches', () => {
+    it('should use the granted web origins while enabled', () => {
+      const origins = ['https://example.com/*', 'chrome://favicon/*', 'https://example.com/*'];
+
+      expect(getContentScriptMatches(withRules([]), origins)).toEqual(['https://example.com/*']);
+    });
+
+    it('should only use enabled sites while disabled', () => {
+      const settings = withRules(
+        [rule('example.com', 'enabled'), rule('other.com', 'disabled')],
+        false
+      );
+
+      expect(getContentScriptMatches(settings, ['<all_urls>'])).toEqual([
+        '*://example.com/*',
+        '*://*.example.com/*',
+      ]);
+      expect(getContentScriptMatches(withRules([], false), ['<all_urls>'])).toEqual([]);
+    });
+  });
+
+  describe('syncContentScripts', () => {
+    it('should register, update and unregister the script', async () => {
+      expect(await syncContentScripts(withRules([]))).toBe(true);
+      expect(chromeMock.scripting.registerContentScripts).toHaveBeenCalledTimes(1);
+      expect(chromeMock.registered).toEqual([
+        expect.objectContaining({ id: CONTENT_SCRIPT_ID, matches: ['<all_urls>'] }),
+      ]);
+
+      await syncContentScripts(withRules([rule('example.com', 'enabled')], false));
+      expect(chromeMock.scripting.updateContentScripts).toHaveBeenCalledTimes(1);
+      expect(chromeMock.registered[0].matches).toEqual([
+        '*://example.com/*',
+        '*://*.example.com/*',
+      ]);
+
+      await syncContentScripts(withRules([], false));
+      expect(chromeMock.registered).toEqual([]);
+    });
+
+    it('should not register anything without host access', async () => {
+      chromeMock.permissions.getAll.mockResolvedValue({ origins: [], permissions: [] });
+
+      await syncContentScripts(withRules([]));
+
+      expect(chromeMock.scripting.registerContentScripts).not.toHaveBeenCalled();
+      expect(chromeMock.scripting.unregisterContentScripts).not.toHaveBeenCalled();
+    });
+
+    it('should serialize overlapping syncs', async () => {
+      await Promise.all([syncContentScripts(withRules([])), syncContentScripts(withRules([]))]);
+
+      expect(chromeMock.scripting.registerContentScripts).toHaveBeenCalledTimes(1);
+      expect(chromeMock.scripting.updateContentScripts).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report registration failures', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      chromeMock.scripting.registerContentScripts.mockRejectedValue(new Error('Invalid pattern'));
+
+      expect(await syncContentScripts(withRules([]))).toBe(false);
+      expect(console.error).toHaveBeenCalled();
+    });
+  });
+
+  describe('affectsRegistration', () => {
+    it('should only react to the enabled state and site rules', () => {
+      const settings = withRules([]);
+
+      expect(affectsRegistration(settings, undefined)).toBe(true);
+      expect(affectsRegistration({ ...settings, theme: 'dark' }, settings)).toBe(false);
+      expect(affectsRegistration({ ...settings, enabled: false }, settings)).toBe(true);
+      expect(affectsRegistration(withRules([rule('a.com', 'enabled')]), settings)).toBe(true);
+    });
+  });
+
+  it('should inject the script file into a tab on demand', async () => {
+    await injectContentScript(7);
+
+    expect(chromeMock.scripting.executeScript).toHaveBeenCalledWith({
+      target: { tabId: 7 },
+      files: ['content-script.js'],
+    });
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Unit tests for license key verification
+ */
+
+import { describe, it, expect, vi, beforeAll, beforeEach, afterEach } from 'vitest';
+import {
+  FREE_LICENSE,
+  getLicenseInfo,
+  getTierFeatures,
+  validateLicenseActivation,
+  verifyLicenseToken,
+} from '../src/shared/license';
+import { LicenseClaims, STORAGE_KEYS } from '../src/shared/types';
+
+const NOW = Date.UTC(2024, 0, 31);
+const DAY = 24 * 60 * 60 * 1000;
+
+const ALGORITHM = { name: 'ECDSA', namedCurve: 'P-256', hash: 'SHA-256' };
+
+const encodeBase64Url = (bytes: Uint8Array): string =>
+  btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+const encodeClaims = (claims: object): string =>
+  encodeBase64Url(new TextEncoder().encode(JSON.stringify(claims)));
+
+/**
+ * Sign claims the way the license server does
+ */
+const signLicense = async (claims: object, privateKey: CryptoKey): Promise<string> => {
+  const payload = encodeClaims(claims);
+  const signature = await crypto.subtle.sign(
+    ALGORITHM,
+    privateKey,
+    new TextEncoder().encode(payload)
+  );
+  return `${payload}.${encodeBase64Url(new Uint8Array(signature))}`;
+};
+
+const createClaims = (overrides: Partial<LicenseClaims> = {}): LicenseClaims => ({
+  id: 'order-1001',
+  licensee: 'jane@example.com',
+  tier: 'pro',
+  features: [],
+  issuedAt: NOW - DAY,
+  expiresAt: NOW + 365 * DAY,
+  ...overrides,
+});
+
+const createChromeMock = () => {
+  const syncStore: Record<string, unknown> = {};
+  return {
+    syncStore,
+    storage: {
+      sync: {
+        get: vi.fn(async (key: string) => (key in syncStore ? { [key]: syncStore[key] } : {})),
+      },
+    },
+  };
+};
+
+// Chrome mock type for testing
+type ChromeMock = ReturnType<typeof createChromeMock>;
+
+describe('License', () => {
+  let keys: CryptoKeyPair;
+  let chromeMock: ChromeMock;
+
+  beforeAll(async () => {
+    keys = await crypto.subtle.generateKey(ALGORITHM, false, ['sign', 'verify']);
+  });
+
+  beforeEach(() => {
+    chromeMock = createChromeMock();
+    (globalThis as unknown as { chrome: ChromeMock }).chrome = chromeMock;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const verify = (token: string) =>
+    verifyLicenseToken(token, { publicKey: keys.publicKey, now: NOW });
+
+  describe('verifyLicenseToken', () => {
+    it('should grant the tier and extra features of a valid key', async () => {
+      const token = await signLicense(
+        createClaims({ tier: 'free', features: ['export_data'] }),
+        keys.privateKey
+      );
+
+      expect(await verify(token)).toEqual({
+        status: 'active',
+        tier: 'free',
+        features: [...getTierFeatures('free'), 'export_data'],
+        licensee: 'jane@example.com',
+        expiresAt: NOW + 365 * DAY,
+        graceEndsAt: NOW + 368 * DAY,
+      });
+    });
+
+    it('should accept keys that never expire', async () => {
+      const token = await signLicense(createClaims({ expiresAt: null }), keys.privateKey);
+
+      const license = await verify(token);
+
+      expect(license.status).toBe('active');
+      expect(license.features).toEqual(getTierFeatures('pro'));
+    });
+
+    it('should keep granting the tier during the grace period', async () => {
+      const token = await signLicense(createClaims({ expiresAt: NOW - DAY }), keys.privateKey);
+
+      expect(await verify(token)).toMatchObject({
+        status: 'grace',
+        tier: 'pro',
+        expiresAt: NOW - DAY,
+        graceEndsAt: NOW + 2 * DAY,
+      });
+    });
+
+    it('should fall back to the free tier once the grace period ends', async () => {
+      const token = await signLicense(createClaims({ expiresAt: NOW - DAY }), keys.privateKey);
+
+      expect(
+        await verifyLicenseToken(token, { publicKey: keys.publicKey, now: NOW, gracePeriodMs: 0 })
+      ).toEqual({
+        ...FREE_LICENSE,
+        status: 'expired',
+        licensee: 'jane@example.com',
+        expiresAt: NOW - DAY,
+        graceEndsAt: NOW - DAY,
+        error: 'License expired',
+      });
+    });
+
+    it('should grant the features of the tiers below the licensed one', async () => {
+      const token = await signLicense(createClaims({ tier: 'team' }), keys.privateKey);
+      const unknown = await signLicense({ ...createClaims(), tier: 'enterprise' }, keys.privateKey);
+
+      expect((await verify(token)).features).toEqual([
+        'basic_feature',
+        'advanced_analytics',
+        'export_data',
+        'custom_themes',
+        'priority_support',
+      ]);
+      expect((await verify(unknown)).error).toBe('License key is missing required fields');
+    });
+
+    it('should reject keys whose claims were edited', async () => {
+      const token = await signLicense(createClaims({ tier: 'free' }), keys.privateKey);
+      const [, signature] = token.split('.');
+      const forged = `${encodeClaims(createClaims({ tier: 'pro' }))}.${signature}`;
+
+      expect(await verify(forged)).toEqual({
+        ...FREE_LICENSE,
+        status: 'invalid',
+        error: 'License key signature is not valid',
+      });
+    });
+
+    it('should reject keys signed with another key', async () => {
+      const other = await crypto.subtle.generateKey(ALGORITHM, false, ['sign', 'verify']);
+      const token = await signLicense(createClaims(), other.privateKey);
+
+      expect((await verify(token)).status).toBe('invalid');
+      // The embedded public key does not match the test key pair either
+      expect((await verifyLicenseToken(token, { now: NOW })).error).toBe(
+        'License key signature is not valid'
+      );
+    });
+
+    it('should reject malformed keys and incomplete claims', async () => {
+      const { licensee: _licensee, ...incomplete } = createClaims();
+      const token = await signLicense(incomplete, keys.privateKey);
+
+      expect((await verify('not-a-license')).error).toBe('Malformed license key');
+      expect((await verify('a.b.c')).error).toBe('Malformed license key');
+      expect((await verify('@@.@@')).error).toBe('Malformed license key');
+      expect((await verify(token)).error).toBe('License key is missing required fields');
+    });
+  });
+
+  describe('getLicenseInfo', () => {
+    it('should grant the free tier without a stored key', async () => {
+      expect(await getLicenseInfo()).toEqual(FREE_LICENSE);
+    });
+
+    it('should verify the stored key on every read', async () => {
+      chromeMock.syncStore[STORAGE_KEYS.LICENSE] = await signLicense(
+        createClaims({ expiresAt: NOW + DAY }),
+        keys.privateKey
+      );
+
+      const options = { publicKey: keys.publicKey };
+      expect((await getLicenseInfo({ ...options, now: NOW })).tier).toBe('pro');
+      expect((await getLicenseInfo({ ...options, now: NOW + 5 * DAY })).status).toBe('expired');
+    });
+  });
+
+  describe('validateLicenseActivation', () => {
+    it('should require a non-empty key', () => {
+      expect(validateLicenseActivation({ token: 'a.b' })).toEqual([]);
+      expect(validateLicenseActivation({ token: '  ' })).toEqual([
+        { path: 'token', message: 'Expected a license key' },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,262 @@
+/**
+ * Unit tests for the messaging layer
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  createMessageListener,
+  MessageHandlerMap,
+  requestSettings,
+  sendMessage,
+  sendMessageToTab,
+} from '../src/shared/messaging';
+import { getErrorCode, MessageError } from '../src/shared/errors';
+import { DEFAULT_USER_SETTINGS, ExtensionMessage, UserSettings } from '../src/shared/types';
+
+const createChromeMock = () => ({
+  runtime: {
+    sendMessage: vi.fn(),
+  },
+  tabs: {
+    sendMessage: vi.fn(),
+  },
+});
+
+// Chrome mock type for testing
+type ChromeMock = ReturnType<typeof createChromeMock>;
+
+const sender: chrome.runtime.MessageSender = {};
+
+const NO_RECEIVER_ERROR = 'Could not establish connection. Receiving end does not exist.';
+
+describe('Messaging', () => {
+  let chromeMock: ChromeMock;
+
+  beforeEach(() => {
+    chromeMock = createChromeMock();
+    (globalThis as unknown as { chrome: ChromeMock }).chrome = chromeMock;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe('sendMessage', () => {
+    it('should return the response from the background', async () => {
+      chromeMock.runtime.sendMessage.mockResolvedValue({
+        success: true,
+        data: DEFAULT_USER_SETTINGS,
+      });
+
+      const response = await requestSettings();
+
+      expect(chromeMock.runtime.sendMessage).toHaveBeenCalledWith({ type: 'GET_SETTINGS' });
+      expect(response.data).toEqual(DEFAULT_USER_SETTINGS);
+    });
+
+    it('should return an error response with a code when sending fails', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      chromeMock.runtime.sendMessage.mockRejectedValue(new Error(NO_RECEIVER_ERROR));
+
+      const response = await sendMessage({ type: 'GET_TAB_INFO' });
+
+      expect(response).toEqual({ success: false, error: NO_RECEIVER_ERROR, code: 'NO_RECEIVER' });
+    });
+
+    it('should not retry a missing response, since the handler may have run', async () => {
+      chromeMock.runtime.sendMessage.mockResolvedValue(undefined);
+
+      const response = await sendMessage(
+        { type: 'PERFORM_ACTION', payload: { action: 'extractData' } },
+        { retries: 2 }
+      );
+
+      expect(chromeMock.runtime.sendMessage).toHaveBeenCalledTimes(1);
+      expect(response.code).toBe('NO_RESPONSE');
+    });
+
+    it('should time out when the receiver never responds', async () => {
+      vi.useFakeTimers();
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      chromeMock.runtime.sendMessage.mockReturnValue(new Promise(() => {}));
+
+      const pending = sendMessage({ type: 'GET_SETTINGS' }, { timeoutMs: 500 });
+      await vi.advanceTimersByTimeAsync(500);
+      const response = await pending;
+
+      expect(response).toEqual({
+        success: false,
+        error: 'No response within 500ms',
+        code: 'TIMEOUT',
+      });
+    });
+
+    it('should retry delivery failures with backoff', async () => {
+      vi.useFakeTimers();
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      chromeMock.runtime.sendMessage
+        .mockRejectedValueOnce(new Error(NO_RECEIVER_ERROR))
+        .mockRejectedValueOnce(new Error(NO_RECEIVER_ERROR))
+        .mockResolvedValue({ success: true, data: DEFAULT_USER_SETTINGS });
+
+      const pending = sendMessage(
+        { type: 'GET_SETTINGS' },
+        { retries: 3, retryDelayMs: 100, backoffFactor: 2 }
+      );
+      await vi.advanceTimersByTimeAsync(100);
+      expect(chromeMock.runtime.sendMessage).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(200);
+      const response = await pending;
+
+      expect(chromeMock.runtime.sendMessage).toHaveBeenCalledTimes(3);
+      expect(response.success).toBe(true);
+    });
+
+    it('should give up after the configured number of retries', async () => {
+      vi.useFakeTimers();
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      chromeMock.runtime.sendMessage.mockRejectedValue(new Error(NO_RECEIVER_ERROR));
+
+      const pending = sendMessage({ type: 'GET_SETTINGS' }, { retries: 2, retryDelayMs: 10 });
+      await vi.runAllTimersAsync();
+      const response = await pending;
+
+      expect(chromeMock.runtime.sendMessage).toHaveBeenCalledTimes(3);
+      expect(response.code).toBe('NO_RECEIVER');
+    });
+
+    it('should not retry failures reported by the receiver', async () => {
+      chromeMock.runtime.sendMessage.mockResolvedValue({
+        success: false,
+        error: 'denied',
+        code: 'UNAUTHORIZED',
+      });
+
+      const response = await sendMessage({ type: 'GET_SETTINGS' }, { retries: 3 });
+
+      expect(chromeMock.runtime.sendMessage).toHaveBeenCalledTimes(1);
+      expect(response.code).toBe('UNAUTHORIZED');
+    });
+
+    it('should derive response types from the message map', async () => {
+      chromeMock.runtime.sendMessage.mockResolvedValue({ success: true, data: true });
+
+      const response = await sendMessage({
+        type: 'INJECT_CONTENT_SCRIPT',
+        payload: { tabId: 1 },
+      });
+      const injected: boolean | undefined = response.data;
+
+      // @ts-expect-error INJECT_CONTENT_SCRIPT responds with a boolean, not settings
+      const settings: UserSettings | undefined = response.data;
+
+      expect(injected).toBe(true);
+      expect(settings).toBe(true);
+    });
+
+    it('should reject payloads that do not match the message type', () => {
+      const invalid = () =>
+        // @ts-expect-error UPDATE_SETTINGS requires a settings payload
+        sendMessage({ type: 'UPDATE_SETTINGS', payload: { feature: 'export_data' } });
+
+      expect(invalid).toBeTypeOf('function');
+    });
+  });
+
+  describe('getErrorCode', () => {
+    it('should classify Chrome messaging errors', () => {
+      expect(getErrorCode(new Error(NO_RECEIVER_ERROR))).toBe('NO_RECEIVER');
+      expect(
+        getErrorCode(new Error('The message port closed before a response was received.'))
+      ).toBe('NO_RESPONSE');
+      expect(getErrorCode(new Error('Extension context invalidated.'))).toBe('CONTEXT_INVALIDATED');
+      expect(getErrorCode(new MessageError('TIMEOUT', 'late'))).toBe('TIMEOUT');
+      expect(getErrorCode('something else')).toBe('UNKNOWN');
+    });
+  });
+
+  describe('sendMessageToTab', () => {
+    it('should send the message to the given tab', async () => {
+      chromeMock.tabs.sendMessage.mockResolvedValue({ success: true });
+
+      const message: ExtensionMessage = {
+        type: 'PERFORM_ACTION',
+        payload: { action: 'extractData' },
+      };
+      const response = await sendMessageToTab(42, message);
+
+      expect(chromeMock.tabs.sendMessage).toHaveBeenCalledWith(42, message);
+      expect(response.success).toBe(true);
+    });
+  });
+
+  describe('createMessageListener', () => {
+    it('should keep the channel open for async handlers', async () => {
+      const handlers: MessageHandlerMap = {
+        GET_SETTINGS: async () => ({ success: true, data: DEFAULT_USER_SETTINGS }),
+      };
+      const sendResponse = vi.fn();
+
+      const keepOpen = createMessageListener(handlers)(
+        { type: 'GET_SETTINGS' },
+        sender,
+        sendResponse
+      );
+      await vi.waitFor(() => expect(sendResponse).toHaveBeenCalled());
+
+      expect(keepOpen).toBe(true);
+      expect(sendResponse).toHaveBeenCalledWith({ success: true, data: DEFAULT_USER_SETTINGS });
+    });
+
+    it('should report unknown message types', async () => {
+      const sendResponse = vi.fn();
+
+      createMessageListener({})({ type: 'GET_TAB_INFO' }, sender, sendResponse);
+      await vi.waitFor(() => expect(sendResponse).toHaveBeenCalled());
+
+      expect(sendResponse).toHaveBeenCalledWith({
+        success: false,
+        error: 'Unknown message type: GET_TAB_INFO',
+        code: 'UNKNOWN_MESSAGE_TYPE',
+      });
+    });
+
+    it('should report handlers that throw', async () => {
+      const sendResponse = vi.fn();
+      const handlers: MessageHandlerMap = {
+        GET_SETTINGS: () => {
+          throw new Error('boom');
+        },
+        GET_TAB_INFO: async () => {
+          throw new Error('async boom');
+        },
+      };
+      const listener = createMessageListener(handlers);
+
+      listener({ type: 'GET_SETTINGS' }, sender, sendResponse);
+      listener({ type: 'GET_TAB_INFO' }, sender, sendResponse);
+      await vi.waitFor(() => expect(sendResponse).toHaveBeenCalledTimes(2));
+
+      expect(sendResponse).toHaveBeenNthCalledWith(1, {
+        success: false,
+        error: 'boom',
+        code: 'HANDLER_ERROR',
+      });
+      expect(sendResponse).toHaveBeenNthCalledWith(2, {
+        success: false,
+        error: 'async boom',
+        code: 'HANDLER_ERROR',
+      });
+    });
+
+    it('should reject handlers that return the wrong data type', () => {
+      const handlers: MessageHandlerMap = {
+        // @ts-expect-error GET_TAB_INFO must respond with TabInfo
+        GET_TAB_INFO: () => ({ success: true, data: DEFAULT_USER_SETTINGS }),
+      };
+
+      expect(handlers.GET_TAB_INFO).toBeDefined();
+    });
+  });
+});
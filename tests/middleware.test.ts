@@ -0,0 +1,250 @@
+/**
+ * Unit tests for the message middleware pipeline
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  MessageContext,
+  Middleware,
+  composeMiddleware,
+  logging,
+  normalizeErrors,
+  requireFeature,
+  timing,
+  validatePayload,
+} from '../src/shared/middleware';
+import { createMessageListener } from '../src/shared/messaging';
+import { validateSettingsUpdate } from '../src/shared/schema';
+import { FREE_LICENSE } from '../src/shared/license';
+import { createTrialRecord, resolveEntitlements } from '../src/shared/entitlements';
+import { DEFAULT_USER_SETTINGS, MessageResponse } from '../src/shared/types';
+
+const createContext = (): MessageContext => ({
+  message: { type: 'GET_SETTINGS' },
+  sender: { tab: { id: 5 } as chrome.tabs.Tab },
+  state: {},
+});
+
+const ok = async (): Promise<MessageResponse> => ({ success: true, data: 'done' });
+
+describe('Middleware', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('composeMiddleware', () => {
+    it('should run middleware in order around the handler', async () => {
+      const calls: string[] = [];
+      const trace =
+        (name: string): Middleware =>
+        async (_context, next) => {
+          calls.push(`${name}:before`);
+          const response = await next();
+          calls.push(`${name}:after`);
+          return response;
+        };
+
+      const run = composeMiddleware([trace('outer'), trace('inner')], async () => {
+        calls.push('handler');
+        return ok();
+      });
+      const response = await run(createContext());
+
+      expect(response).toEqual({ success: true, data: 'done' });
+      expect(calls).toEqual([
+        'outer:before',
+        'inner:before',
+        'handler',
+        'inner:after',
+        'outer:after',
+      ]);
+    });
+
+    it('should let middleware short-circuit the chain', async () => {
+      const handler = vi.fn(ok);
+      const deny: Middleware = async () => ({
+        success: false,
+        error: 'nope',
+        code: 'UNAUTHORIZED',
+      });
+
+      const response = await composeMiddleware([deny], handler)(createContext());
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(response.code).toBe('UNAUTHORIZED');
+    });
+
+    it('should share state between middleware and the handler', async () => {
+      const setUser: Middleware = async (context, next) => {
+        context.state.user = 'alice';
+        return next();
+      };
+
+      const response = await composeMiddleware([setUser], async ({ state }) => ({
+        success: true,
+        data: state.user,
+      }))(createContext());
+
+      expect(response.data).toBe('alice');
+    });
+
+    it('should reject calling next more than once', async () => {
+      const twice: Middleware = async (_context, next) => {
+        await next();
+        return next();
+      };
+
+      await expect(composeMiddleware([twice], ok)(createContext())).rejects.toThrow(
+        'next() called multiple times'
+      );
+    });
+  });
+
+  describe('normalizeErrors', () => {
+    it('should turn thrown errors into HANDLER_ERROR responses', async () => {
+      const run = composeMiddleware([normalizeErrors()], async () => {
+        throw new Error('exploded');
+      });
+
+      expect(await run(createContext())).toEqual({
+        success: false,
+        error: 'exploded',
+        code: 'HANDLER_ERROR',
+      });
+    });
+
+    it('should add a code to failures that have none', async () => {
+      const run = composeMiddleware([normalizeErrors()], async () => ({
+        success: false,
+        error: 'bad',
+      }));
+
+      expect((await run(createContext())).code).toBe('HANDLER_ERROR');
+    });
+  });
+
+  describe('logging', () => {
+    it('should log failures only by default', async () => {
+      const log = vi.fn();
+
+      await composeMiddleware([logging({ log })], ok)(createContext());
+      await composeMiddleware([logging({ log })], async () => ({
+        success: false,
+        error: 'bad',
+        code: 'HANDLER_ERROR',
+      }))(createContext());
+
+      expect(log).toHaveBeenCalledTimes(1);
+      expect(log).toHaveBeenCalledWith(
+        '[Message] GET_SETTINGS from tab 5 failed (HANDLER_ERROR): bad'
+      );
+    });
+
+    it('should log every message when verbose', async () => {
+      const log = vi.fn();
+
+      await composeMiddleware([logging({ log, verbose: true })], ok)(createContext());
+
+      expect(log).toHaveBeenCalledWith('[Message] GET_SETTINGS from tab 5 succeeded');
+    });
+  });
+
+  describe('timing', () => {
+    it('should report durations and warn about slow messages', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const onTiming = vi.fn();
+      const now = vi.fn().mockReturnValueOnce(100).mockReturnValueOnce(1600);
+
+      await composeMiddleware(
+        [timing({ onTiming, now, slowThresholdMs: 1000 })],
+        ok
+      )(createContext());
+
+      expect(onTiming).toHaveBeenCalledWith('GET_SETTINGS', 1500);
+      expect(warn).toHaveBeenCalledWith('[Message] GET_SETTINGS took 1500ms');
+    });
+  });
+
+  describe('validatePayload', () => {
+    it('should reject invalid payloads with field errors', async () => {
+      const handler = vi.fn(ok);
+      const context: MessageContext<'UPDATE_SETTINGS'> = {
+        message: { type: 'UPDATE_SETTINGS', payload: { theme: 'neon' as 'dark' } },
+        sender: {},
+        state: {},
+      };
+
+      const response = await composeMiddleware(
+        [validatePayload<'UPDATE_SETTINGS'>(validateSettingsUpdate)],
+        handler as never
+      )(context);
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(response).toEqual({
+        success: false,
+        error: 'Invalid payload: theme: Expected one of light, dark, system',
+        code: 'VALIDATION_FAILED',
+        fieldErrors: [{ path: 'theme', message: 'Expected one of light, dark, system' }],
+      });
+    });
+  });
+
+  describe('requireFeature', () => {
+    it('should block features the user is not entitled to', async () => {
+      const handler = vi.fn(ok);
+
+      const response = await composeMiddleware(
+        [requireFeature('custom_themes', async () => resolveEntitlements(FREE_LICENSE))],
+        handler
+      )(createContext());
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(response).toEqual({
+        success: false,
+        error: 'Feature "custom_themes" is not available on the free plan',
+        code: 'FEATURE_LOCKED',
+      });
+    });
+
+    it('should allow features granted by a running trial', async () => {
+      const trials = { export_data: createTrialRecord('export_data') };
+
+      const response = await composeMiddleware(
+        [requireFeature('export_data', async () => resolveEntitlements(FREE_LICENSE, trials))],
+        ok
+      )(createContext());
+
+      expect(response.success).toBe(true);
+    });
+  });
+
+  describe('createMessageListener', () => {
+    it('should run global middleware before per-type middleware', async () => {
+      const calls: string[] = [];
+      const mark =
+        (name: string): Middleware =>
+        async (_context, next) => {
+          calls.push(name);
+          return next();
+        };
+      const sendResponse = vi.fn();
+      const listener = createMessageListener(
+        {
+          GET_SETTINGS: async () => {
+            calls.push('handler');
+            return { success: true, data: DEFAULT_USER_SETTINGS };
+          },
+        },
+        {
+          global: [mark('global')],
+          perType: { GET_SETTINGS: [mark('perType') as Middleware<'GET_SETTINGS'>] },
+        }
+      );
+
+      listener({ type: 'GET_SETTINGS' }, {}, sendResponse);
+      await vi.waitFor(() => expect(sendResponse).toHaveBeenCalled());
+
+      expect(calls).toEqual(['global', 'perType', 'handler']);
+    });
+  });
+});
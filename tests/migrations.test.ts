@@ -0,0 +1,247 @@
+/**
+ * Unit tests for storage schema migrations
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  MIGRATIONS,
+  Migration,
+  migrateStorageArea,
+  runMigrations,
+} from '../src/background/migrations';
+import {
+  DEFAULT_USER_SETTINGS,
+  SETTINGS_SCHEMA_VERSION,
+  STORAGE_KEYS,
+  UserSettings,
+} from '../src/shared/types';
+
+// Mock chrome.storage API
+const mockStorage: Record<string, unknown> = {};
+const mockLocalStorage: Record<string, unknown> = {};
+
+const createAreaMock = (store: Record<string, unknown>) => ({
+  get: vi.fn((key: string | null) => {
+    if (key === null) {
+      return Promise.resolve(JSON.parse(JSON.stringify(store)));
+    }
+    return Promise.resolve({ [key]: store[key] });
+  }),
+  set: vi.fn((items: Record<string, unknown>) => {
+    Object.assign(store, items);
+    return Promise.resolve();
+  }),
+  remove: vi.fn((keys: string | string[]) => {
+    (Array.isArray(keys) ? keys : [keys]).forEach((key) => delete store[key]);
+    return Promise.resolve();
+  }),
+});
+
+const createChromeMock = () => ({
+  storage: {
+    sync: createAreaMock(mockStorage),
+    local: createAreaMock(mockLocalStorage),
+  },
+});
+
+// Chrome mock type for testing
+type ChromeMock = ReturnType<typeof createChromeMock>;
+
+const isValidUserSettings = (value: unknown): value is UserSettings => {
+  const settings = value as UserSettings;
+  return (
+    typeof settings === 'object' &&
+    settings !== null &&
+    typeof settings.enabled === 'boolean' &&
+    ['light', 'dark', 'system'].includes(settings.theme) &&
+    typeof settings.notifications?.enabled === 'boolean' &&
+    typeof settings.notifications?.sound === 'boolean' &&
+    typeof settings.preferences === 'object'
+  );
+};
+
+describe('Storage Migrations', () => {
+  beforeEach(() => {
+    Object.keys(mockStorage).forEach((key) => delete mockStorage[key]);
+    Object.keys(mockLocalStorage).forEach((key) => delete mockLocalStorage[key]);
+
+    (globalThis as unknown as { chrome: ChromeMock }).chrome = createChromeMock();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('runMigrations', () => {
+    it('should stamp empty storage with the current version', async () => {
+      const results = await runMigrations();
+
+      expect(results.every((r) => r.success)).toBe(true);
+      expect(mockStorage[STORAGE_KEYS.SCHEMA_VERSION]).toBe(SETTINGS_SCHEMA_VERSION);
+      expect(mockLocalStorage[STORAGE_KEYS.SCHEMA_VERSION]).toBe(SETTINGS_SCHEMA_VERSION);
+      expect(mockStorage[STORAGE_KEYS.USER_SETTINGS]).toBeUndefined();
+    });
+
+    it('should upgrade unversioned settings to valid current settings', async () => {
+      mockStorage[STORAGE_KEYS.USER_SETTINGS] = {
+        tier: 'pro',
+        enabled: false,
+        notifications: { sound: true },
+      };
+
+      await runMigrations();
+
+      const settings = mockStorage[STORAGE_KEYS.USER_SETTINGS];
+      expect(isValidUserSettings(settings)).toBe(true);
+      expect(settings).toEqual({
+        ...DEFAULT_USER_SETTINGS,
+        enabled: false,
+        notifications: { enabled: true, sound: true },
+      });
+    });
+
+    it('should add an empty rule list to version 1 settings', async () => {
+      const { siteRules: _siteRules, ...v1Settings } = DEFAULT_USER_SETTINGS;
+      mockStorage[STORAGE_KEYS.SCHEMA_VERSION] = 1;
+      mockStorage[STORAGE_KEYS.USER_SETTINGS] = v1Settings;
+
+      const results = await runMigrations();
+
+      expect(results[0].applied).toEqual([2, 3]);
+      expect(mockStorage[STORAGE_KEYS.USER_SETTINGS]).toEqual(DEFAULT_USER_SETTINGS);
+    });
+
+    it('should drop the tier from version 2 settings', async () => {
+      mockStorage[STORAGE_KEYS.SCHEMA_VERSION] = 2;
+      mockStorage[STORAGE_KEYS.USER_SETTINGS] = { ...DEFAULT_USER_SETTINGS, tier: 'pro' };
+
+      const results = await runMigrations();
+
+      expect(results[0].applied).toEqual([3]);
+      expect(mockStorage[STORAGE_KEYS.USER_SETTINGS]).toEqual(DEFAULT_USER_SETTINGS);
+    });
+
+    it('should drop unusable settings payloads', async () => {
+      mockStorage[STORAGE_KEYS.USER_SETTINGS] = 'corrupted';
+
+      await runMigrations();
+
+      expect(STORAGE_KEYS.USER_SETTINGS in mockStorage).toBe(false);
+      expect(mockStorage[STORAGE_KEYS.SCHEMA_VERSION]).toBe(SETTINGS_SCHEMA_VERSION);
+    });
+
+    it('should not touch storage that is already current', async () => {
+      mockStorage[STORAGE_KEYS.SCHEMA_VERSION] = SETTINGS_SCHEMA_VERSION;
+      mockLocalStorage[STORAGE_KEYS.SCHEMA_VERSION] = SETTINGS_SCHEMA_VERSION;
+      mockStorage[STORAGE_KEYS.USER_SETTINGS] = { tier: 'pro' };
+
+      const results = await runMigrations();
+
+      expect(results.map((r) => r.applied)).toEqual([[], []]);
+      expect(chrome.storage.sync.set).not.toHaveBeenCalled();
+      expect(chrome.storage.local.set).not.toHaveBeenCalled();
+      expect(mockStorage[STORAGE_KEYS.USER_SETTINGS]).toEqual({ tier: 'pro' });
+    });
+
+    it('should be idempotent across repeated runs', async () => {
+      mockStorage[STORAGE_KEYS.USER_SETTINGS] = { theme: 'dark' };
+
+      await runMigrations();
+      const once = JSON.parse(JSON.stringify(mockStorage));
+      const results = await runMigrations();
+
+      expect(mockStorage).toEqual(once);
+      expect(results.every((r) => r.applied.length === 0)).toBe(true);
+    });
+
+    it('should fill in the version 1 defaults, not the current ones', () => {
+      const [v1] = MIGRATIONS;
+
+      expect(v1.migrate({ [STORAGE_KEYS.USER_SETTINGS]: { enabled: false } })).toEqual({
+        [STORAGE_KEYS.USER_SETTINGS]: {
+          tier: 'free',
+          enabled: false,
+          theme: 'system',
+          notifications: { enabled: true, sound: false },
+          preferences: {},
+        },
+      });
+    });
+
+    it('should produce the same result when a migration runs twice on its output', () => {
+      for (const migration of MIGRATIONS) {
+        const input = { [STORAGE_KEYS.USER_SETTINGS]: { enabled: false, notifications: {} } };
+        const once = migration.migrate(input);
+        expect(migration.migrate(once)).toEqual(once);
+      }
+    });
+  });
+
+  describe('migrateStorageArea', () => {
+    const migrations: Migration[] = [
+      {
+        version: 1,
+        area: 'local',
+        description: 'rename cache',
+        migrate: ({ oldCache, ...rest }) =>
+          oldCache === undefined ? rest : { ...rest, cache: oldCache },
+      },
+      {
+        version: 2,
+        area: 'local',
+        description: 'wrap cache',
+        migrate: (items) =>
+          Array.isArray(items.cache) ? { ...items, cache: { entries: items.cache } } : items,
+      },
+      {
+        version: 2,
+        area: 'sync',
+        description: 'sync only',
+        migrate: (items) => ({ ...items, syncTouched: true }),
+      },
+    ];
+
+    it('should apply pending migrations for the area in version order', async () => {
+      mockLocalStorage.oldCache = ['a', 'b'];
+
+      const result = await migrateStorageArea('local', migrations, 2);
+
+      expect(result).toMatchObject({
+        success: true,
+        fromVersion: 0,
+        toVersion: 2,
+        applied: [1, 2],
+      });
+      expect(mockLocalStorage).toEqual({
+        cache: { entries: ['a', 'b'] },
+        [STORAGE_KEYS.SCHEMA_VERSION]: 2,
+      });
+      expect(mockStorage.syncTouched).toBeUndefined();
+    });
+
+    it('should only apply migrations newer than the stored version', async () => {
+      mockLocalStorage[STORAGE_KEYS.SCHEMA_VERSION] = 1;
+      mockLocalStorage.oldCache = 'untouched';
+      mockLocalStorage.cache = ['x'];
+
+      const result = await migrateStorageArea('local', migrations, 2);
+
+      expect(result.applied).toEqual([2]);
+      expect(mockLocalStorage.oldCache).toBe('untouched');
+      expect(mockLocalStorage.cache).toEqual({ entries: ['x'] });
+    });
+
+    it('should keep the old version when writing fails', async () => {
+      mockLocalStorage.oldCache = ['a'];
+      chrome.storage.local.set = vi.fn().mockRejectedValue(new Error('Quota exceeded'));
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const result = await migrateStorageArea('local', migrations, 2);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Quota exceeded');
+      expect(mockLocalStorage[STORAGE_KEYS.SCHEMA_VERSION]).toBeUndefined();
+    });
+  });
+});
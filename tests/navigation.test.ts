@@ -0,0 +1,147 @@
+/**
+ * Unit tests for SPA navigation detection
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createDisposableRegistry } from '../src/content/disposables';
+import { watchNavigation } from '../src/content/navigation';
+
+/**
+ * MutationObserver stand-in that can be triggered by hand
+ */
+class MutationObserverMock {
+  static instances: MutationObserverMock[] = [];
+
+  callback: () => void;
+  observe = vi.fn();
+  disconnect = vi.fn(() => {
+    MutationObserverMock.instances = MutationObserverMock.instances.filter((o) => o !== this);
+  });
+
+  constructor(callback: () => void) {
+    this.callback = callback;
+    MutationObserverMock.instances.push(this);
+  }
+
+  static trigger(): void {
+    MutationObserverMock.instances.forEach((observer) => observer.callback());
+  }
+}
+
+/**
+ * Window with a mutable location and, optionally, the Navigation API
+ */
+const createWindowMock = (withNavigationApi: boolean) =>
+  Object.assign(new EventTarget(), {
+    location: { href: 'https://app.example.com/' },
+    navigation: withNavigationApi ? new EventTarget() : undefined,
+  });
+
+describe('Navigation', () => {
+  let windowMock: ReturnType<typeof createWindowMock>;
+  let documentMock: { title: string; head: object; documentElement: object };
+
+  const setup = (withNavigationApi = true) => {
+    windowMock = createWindowMock(withNavigationApi);
+    vi.stubGlobal('window', windowMock);
+  };
+
+  // What a page's router does on pushState, as seen from the isolated world
+  const pushState = (url: string) => {
+    windowMock.location.href = url;
+    windowMock.navigation?.dispatchEvent(new Event('currententrychange'));
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    MutationObserverMock.instances = [];
+    documentMock = { title: 'Home', head: {}, documentElement: {} };
+    vi.stubGlobal('document', documentMock);
+    vi.stubGlobal('MutationObserver', MutationObserverMock);
+    setup();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('should report history navigations with the settled title', () => {
+    const onNavigate = vi.fn();
+    watchNavigation(createDisposableRegistry(), onNavigate);
+
+    pushState('https://app.example.com/inbox');
+    vi.advanceTimersByTime(50);
+    documentMock.title = 'Inbox';
+    MutationObserverMock.trigger();
+    vi.advanceTimersByTime(100);
+
+    expect(onNavigate).toHaveBeenCalledTimes(1);
+    expect(onNavigate).toHaveBeenCalledWith(
+      { url: 'https://app.example.com/inbox', title: 'Inbox' },
+      { url: 'https://app.example.com/', title: 'Home' }
+    );
+  });
+
+  it('should report hash changes, back navigations and title changes', () => {
+    const onNavigate = vi.fn();
+    watchNavigation(createDisposableRegistry(), onNavigate);
+
+    windowMock.location.href = 'https://app.example.com/#settings';
+    windowMock.dispatchEvent(new Event('hashchange'));
+    vi.advanceTimersByTime(100);
+
+    windowMock.location.href = 'https://app.example.com/';
+    windowMock.dispatchEvent(new Event('popstate'));
+    vi.advanceTimersByTime(100);
+
+    documentMock.title = '(1) Home';
+    MutationObserverMock.trigger();
+    vi.advanceTimersByTime(100);
+
+    expect(onNavigate.mock.calls.map(([page]) => page)).toEqual([
+      { url: 'https://app.example.com/#settings', title: 'Home' },
+      { url: 'https://app.example.com/', title: 'Home' },
+      { url: 'https://app.example.com/', title: '(1) Home' },
+    ]);
+  });
+
+  it('should ignore events that change nothing', () => {
+    const onNavigate = vi.fn();
+    watchNavigation(createDisposableRegistry(), onNavigate);
+
+    windowMock.dispatchEvent(new Event('popstate'));
+    MutationObserverMock.trigger();
+    vi.advanceTimersByTime(1000);
+
+    expect(onNavigate).not.toHaveBeenCalled();
+  });
+
+  it('should poll the URL without the Navigation API', () => {
+    setup(false);
+    const onNavigate = vi.fn();
+    watchNavigation(createDisposableRegistry(), onNavigate, { pollMs: 500 });
+
+    windowMock.location.href = 'https://app.example.com/inbox';
+    vi.advanceTimersByTime(600);
+
+    expect(onNavigate).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop watching when the registry is flushed', () => {
+    const registry = createDisposableRegistry();
+    const onNavigate = vi.fn();
+    watchNavigation(registry, onNavigate);
+
+    pushState('https://app.example.com/inbox');
+    registry.flush();
+    vi.advanceTimersByTime(1000);
+    pushState('https://app.example.com/sent');
+    vi.advanceTimersByTime(1000);
+
+    expect(onNavigate).not.toHaveBeenCalled();
+    expect(MutationObserverMock.instances).toHaveLength(0);
+    expect(registry.size()).toBe(0);
+  });
+});
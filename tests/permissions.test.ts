@@ -0,0 +1,117 @@
+/**
+ * Unit tests for optional host permissions
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  getGrantedOrigins,
+  getOriginPattern,
+  isAllSitesOrigin,
+  onHostPermissionsChange,
+  removeHostPermission,
+  requestHostPermission,
+} from '../src/shared/permissions';
+
+type PermissionsListener = (permissions: chrome.permissions.Permissions) => void;
+
+const createEvent = () => {
+  const listeners = new Set<PermissionsListener>();
+  return {
+    listeners,
+    addListener: vi.fn((listener: PermissionsListener) => listeners.add(listener)),
+    removeListener: vi.fn((listener: PermissionsListener) => listeners.delete(listener)),
+    fire: (permissions: chrome.permissions.Permissions) =>
+      listeners.forEach((listener) => listener(permissions)),
+  };
+};
+
+const createChromeMock = () => ({
+  permissions: {
+    getAll: vi.fn(async () => ({
+      origins: ['https://example.com/*', 'chrome://favicon/*'] as string[],
+      permissions: ['storage'],
+    })),
+    contains: vi.fn(async () => false),
+    request: vi.fn(async () => true),
+    remove: vi.fn(async () => true),
+    onAdded: createEvent(),
+    onRemoved: createEvent(),
+  },
+});
+
+// Chrome mock type for testing
+type ChromeMock = ReturnType<typeof createChromeMock>;
+
+describe('Permissions', () => {
+  let chromeMock: ChromeMock;
+
+  beforeEach(() => {
+    chromeMock = createChromeMock();
+    (globalThis as unknown as { chrome: ChromeMock }).chrome = chromeMock;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('getOriginPattern', () => {
+    it('should build a pattern for the site of a web page', () => {
+      expect(getOriginPattern('https://docs.example.com:8080/a?b#c')).toBe(
+        'https://docs.example.com/*'
+      );
+      expect(getOriginPattern('chrome://extensions/')).toBeNull();
+      expect(getOriginPattern('not a url')).toBeNull();
+    });
+
+    it('should recognize all-sites patterns', () => {
+      expect(isAllSitesOrigin('<all_urls>')).toBe(true);
+      expect(isAllSitesOrigin('*://*/*')).toBe(true);
+      expect(isAllSitesOrigin('https://example.com/*')).toBe(false);
+    });
+  });
+
+  describe('permissions API', () => {
+    it('should only list web origins', async () => {
+      expect(await getGrantedOrigins()).toEqual(['https://example.com/*']);
+    });
+
+    it('should request and remove origins', async () => {
+      expect(await requestHostPermission(['https://example.com/*'])).toBe(true);
+      expect(chromeMock.permissions.request).toHaveBeenCalledWith({
+        origins: ['https://example.com/*'],
+      });
+
+      expect(await removeHostPermission(['https://example.com/*'])).toBe(true);
+      expect(chromeMock.permissions.remove).toHaveBeenCalledWith({
+        origins: ['https://example.com/*'],
+      });
+    });
+
+    it('should resolve to false when a request fails', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      chromeMock.permissions.request.mockRejectedValue(
+        new Error('This function must be called during a user gesture')
+      );
+
+      expect(await requestHostPermission(['<all_urls>'])).toBe(false);
+      expect(console.error).toHaveBeenCalled();
+    });
+  });
+
+  describe('onHostPermissionsChange', () => {
+    it('should report the granted origins after host changes', async () => {
+      const callback = vi.fn();
+      const unsubscribe = onHostPermissionsChange(callback);
+
+      chromeMock.permissions.onAdded.fire({ permissions: ['alarms'] });
+      chromeMock.permissions.onRemoved.fire({ origins: ['https://other.com/*'] });
+      await vi.waitFor(() => expect(callback).toHaveBeenCalledTimes(1));
+
+      expect(callback).toHaveBeenCalledWith(['https://example.com/*']);
+
+      unsubscribe();
+      expect(chromeMock.permissions.onAdded.listeners.size).toBe(0);
+      expect(chromeMock.permissions.onRemoved.listeners.size).toBe(0);
+    });
+  });
+});
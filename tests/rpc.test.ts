@@ -0,0 +1,338 @@
+/**
+ * Unit tests for port-based RPC and event streaming
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createRpcClient, createRpcServer } from '../src/shared/rpc';
+import { DEFAULT_USER_SETTINGS, TabInfo } from '../src/shared/types';
+
+type Listener = (...args: unknown[]) => void;
+
+const createEvent = () => {
+  const listeners = new Set<Listener>();
+  return {
+    addListener: vi.fn((listener: Listener) => listeners.add(listener)),
+    removeListener: vi.fn((listener: Listener) => listeners.delete(listener)),
+    dispatch: (...args: unknown[]) => listeners.forEach((listener) => listener(...args)),
+  };
+};
+
+type MockEvent = ReturnType<typeof createEvent>;
+
+interface MockPort {
+  name: string;
+  sender?: chrome.runtime.MessageSender;
+  onMessage: MockEvent;
+  onDisconnect: MockEvent;
+  postMessage: ReturnType<typeof vi.fn>;
+  disconnect: ReturnType<typeof vi.fn>;
+}
+
+/**
+ * Create two linked ports, like the ends of a chrome.runtime.connect call
+ */
+const createPortPair = (name: string, sender: chrome.runtime.MessageSender) => {
+  const create = (): MockPort => ({
+    name,
+    onMessage: createEvent(),
+    onDisconnect: createEvent(),
+    postMessage: vi.fn(),
+    disconnect: vi.fn(),
+  });
+  const client = create();
+  const server = { ...create(), sender };
+  let connected = true;
+
+  const link = (from: MockPort, to: MockPort) => {
+    from.postMessage.mockImplementation((packet: unknown) => {
+      if (!connected) throw new Error('Attempting to use a disconnected port object');
+      to.onMessage.dispatch(structuredClone(packet), to);
+    });
+    // Disconnecting one end only notifies the other end
+    from.disconnect.mockImplementation(() => {
+      if (!connected) return;
+      connected = false;
+      to.onDisconnect.dispatch(to);
+    });
+  };
+  link(client, server);
+  link(server, client);
+
+  return { client, server };
+};
+
+const EXTENSION_ID = 'abcdefghijklmnop';
+const EXTENSION_ORIGIN = `chrome-extension://${EXTENSION_ID}`;
+
+const popupSender: chrome.runtime.MessageSender = {
+  id: EXTENSION_ID,
+  url: `${EXTENSION_ORIGIN}/popup.html`,
+  origin: EXTENSION_ORIGIN,
+};
+
+const contentSender: chrome.runtime.MessageSender = {
+  id: EXTENSION_ID,
+  url: 'https://example.com/page',
+  origin: 'https://example.com',
+  tab: { id: 9 } as chrome.tabs.Tab,
+  frameId: 0,
+};
+
+const createChromeMock = () => {
+  const onConnect = createEvent();
+  const ports: { client: MockPort; server: MockPort }[] = [];
+  const mock = {
+    ports,
+    /** Sender of the ports opened next */
+    sender: popupSender,
+    runtime: {
+      id: EXTENSION_ID,
+      getURL: vi.fn((path: string) => `${EXTENSION_ORIGIN}${path}`),
+      lastError: undefined as { message: string } | undefined,
+      onConnect,
+      connect: vi.fn(({ name }: { name: string }) => {
+        const pair = createPortPair(name, mock.sender);
+        ports.push(pair);
+        onConnect.dispatch(pair.server);
+        return pair.client;
+      }),
+    },
+  };
+  return mock;
+};
+
+// Chrome mock type for testing
+type ChromeMock = ReturnType<typeof createChromeMock>;
+
+const tabInfo: TabInfo = {
+  id: 9,
+  windowId: 1,
+  url: 'https://example.com',
+  title: 'Example',
+  injected: true,
+};
+
+describe('RPC', () => {
+  let chromeMock: ChromeMock;
+
+  beforeEach(() => {
+    chromeMock = createChromeMock();
+    (globalThis as unknown as { chrome: ChromeMock }).chrome = chromeMock;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe('requests', () => {
+    it('should correlate responses with requests', async () => {
+      chromeMock.sender = contentSender;
+      createRpcServer({
+        GET_SETTINGS: async () => ({ success: true, data: DEFAULT_USER_SETTINGS }),
+        GET_TAB_INFO: async (_message, sender) => ({
+          success: true,
+          data: { ...tabInfo, id: sender.tab?.id ?? -1 },
+        }),
+      });
+      const client = createRpcClient();
+
+      const [settings, tab] = await Promise.all([
+        client.request({ type: 'GET_SETTINGS' }),
+        client.request({ type: 'GET_TAB_INFO' }),
+      ]);
+
+      expect(chromeMock.runtime.connect).toHaveBeenCalledTimes(1);
+      expect(settings).toEqual({ success: true, data: DEFAULT_USER_SETTINGS });
+      expect(tab).toEqual({ success: true, data: tabInfo });
+    });
+
+    it('should run requests through the middleware with the port sender', async () => {
+      chromeMock.sender = contentSender;
+      const handler = vi.fn();
+      createRpcServer(
+        { GET_SETTINGS: handler },
+        {
+          global: [
+            async ({ sender }) => ({
+              success: false,
+              error: `denied tab ${sender.tab?.id}`,
+              code: 'UNAUTHORIZED',
+            }),
+          ],
+        }
+      );
+
+      const response = await createRpcClient().request({ type: 'GET_SETTINGS' });
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(response).toEqual({ success: false, error: 'denied tab 9', code: 'UNAUTHORIZED' });
+    });
+
+    it('should time out requests that get no response', async () => {
+      vi.useFakeTimers();
+      createRpcServer({ GET_SETTINGS: () => new Promise(() => {}) });
+
+      const pending = createRpcClient().request({ type: 'GET_SETTINGS' }, { timeoutMs: 200 });
+      await vi.advanceTimersByTimeAsync(200);
+
+      expect(await pending).toEqual({
+        success: false,
+        error: 'No response within 200ms',
+        code: 'TIMEOUT',
+      });
+    });
+
+    it('should fail in-flight requests when the port drops', async () => {
+      createRpcServer({ GET_SETTINGS: () => new Promise(() => {}) });
+      const client = createRpcClient();
+
+      const pending = client.request({ type: 'GET_SETTINGS' });
+      chromeMock.ports[0].server.disconnect();
+
+      expect((await pending).code).toBe('NO_RECEIVER');
+    });
+
+    it('should ignore ports with other names', async () => {
+      createRpcServer({ GET_SETTINGS: vi.fn() }, {}, 'rpc');
+
+      const pending = createRpcClient({ name: 'other', timeoutMs: 10 }).request({
+        type: 'GET_SETTINGS',
+      });
+
+      expect((await pending).code).toBe('TIMEOUT');
+    });
+  });
+
+  describe('events', () => {
+    it('should deliver events to subscribers only', async () => {
+      const server = createRpcServer({});
+      const subscribed = vi.fn();
+      const other = vi.fn();
+
+      createRpcClient().subscribe('TAB_STATE_CHANGED', subscribed);
+      createRpcClient().subscribe('SETTINGS_CHANGED', other);
+      server.emit('TAB_STATE_CHANGED', tabInfo);
+
+      expect(server.getSubscriberCount('TAB_STATE_CHANGED')).toBe(1);
+      expect(subscribed).toHaveBeenCalledWith(tabInfo);
+      expect(other).not.toHaveBeenCalled();
+    });
+
+    it('should stop delivering events after unsubscribing', () => {
+      const server = createRpcServer({});
+      const listener = vi.fn();
+
+      const unsubscribe = createRpcClient().subscribe('TAB_STATE_CHANGED', listener);
+      unsubscribe();
+      server.emit('TAB_STATE_CHANGED', tabInfo);
+
+      expect(server.getSubscriberCount('TAB_STATE_CHANGED')).toBe(0);
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should not let content scripts subscribe to other tabs or the license', () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      chromeMock.sender = contentSender;
+      const server = createRpcServer({});
+      const client = createRpcClient();
+      const tabListener = vi.fn();
+      const entitlementsListener = vi.fn();
+      const settingsListener = vi.fn();
+
+      client.subscribe('TAB_STATE_CHANGED', tabListener);
+      client.subscribe('ENTITLEMENTS_CHANGED', entitlementsListener);
+      client.subscribe('SETTINGS_CHANGED', settingsListener);
+      server.emit('TAB_STATE_CHANGED', tabInfo);
+      server.emit('SETTINGS_CHANGED', DEFAULT_USER_SETTINGS);
+
+      expect(server.getSubscriberCount('TAB_STATE_CHANGED')).toBe(0);
+      expect(server.getSubscriberCount('ENTITLEMENTS_CHANGED')).toBe(0);
+      expect(tabListener).not.toHaveBeenCalled();
+      expect(settingsListener).toHaveBeenCalledWith(DEFAULT_USER_SETTINGS);
+      expect(console.warn).toHaveBeenCalledWith(
+        'Subscription denied: Context "content_script" may not subscribe to TAB_STATE_CHANGED'
+      );
+    });
+
+    it('should ignore unknown events and malformed packets', () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const handler = vi.fn();
+      const server = createRpcServer({ GET_SETTINGS: handler });
+      createRpcClient().subscribe('SETTINGS_CHANGED', vi.fn());
+      const port = chromeMock.ports[0].client;
+
+      port.postMessage({ kind: 'subscribe', event: 'toString' });
+      port.postMessage({ kind: 'request', message: { type: 'GET_SETTINGS' } });
+      port.postMessage({ kind: 'subscribe' });
+      port.postMessage(null);
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(server.getSubscriberCount('SETTINGS_CHANGED')).toBe(1);
+      expect(console.warn).toHaveBeenCalledWith(
+        'Subscription denied: No authorization policy for event toString'
+      );
+      expect(console.warn).toHaveBeenCalledWith('Ignoring malformed RPC packet');
+    });
+  });
+
+  describe('reconnection', () => {
+    it('should reconnect and resubscribe after the service worker restarts', async () => {
+      vi.useFakeTimers();
+      const server = createRpcServer({});
+      const listener = vi.fn();
+      createRpcClient({ reconnectDelayMs: 100 }).subscribe('SETTINGS_CHANGED', listener);
+
+      // The service worker stopping closes every port from the background side
+      chromeMock.ports[0].server.disconnect();
+
+      await vi.advanceTimersByTimeAsync(100);
+      server.emit('SETTINGS_CHANGED', DEFAULT_USER_SETTINGS);
+
+      expect(chromeMock.runtime.connect).toHaveBeenCalledTimes(2);
+      expect(listener).toHaveBeenCalledWith(DEFAULT_USER_SETTINGS);
+    });
+
+    it('should not reconnect without subscriptions', async () => {
+      vi.useFakeTimers();
+      createRpcServer({ GET_SETTINGS: async () => ({ success: true }) });
+      const client = createRpcClient();
+      await client.request({ type: 'GET_SETTINGS' });
+
+      chromeMock.ports[0].server.disconnect();
+      await vi.runAllTimersAsync();
+
+      expect(chromeMock.runtime.connect).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop reconnecting when the extension context is invalidated', async () => {
+      vi.useFakeTimers();
+      createRpcServer({});
+      const client = createRpcClient({ reconnectDelayMs: 100 });
+      client.subscribe('SETTINGS_CHANGED', vi.fn());
+
+      chromeMock.runtime.connect.mockImplementation(() => {
+        throw new Error('Extension context invalidated.');
+      });
+      chromeMock.ports[0].server.disconnect();
+      await vi.runAllTimersAsync();
+      const response = await client.request({ type: 'GET_SETTINGS' });
+
+      expect(chromeMock.runtime.connect).toHaveBeenCalledTimes(2);
+      expect(response.code).toBe('CONTEXT_INVALIDATED');
+    });
+
+    it('should not reconnect after an explicit disconnect', async () => {
+      vi.useFakeTimers();
+      createRpcServer({});
+      const client = createRpcClient();
+      client.subscribe('SETTINGS_CHANGED', vi.fn());
+
+      client.disconnect();
+      await vi.runAllTimersAsync();
+
+      expect(chromeMock.ports[0].client.disconnect).toHaveBeenCalled();
+      expect(chromeMock.runtime.connect).toHaveBeenCalledTimes(1);
+    });
+  });
+});
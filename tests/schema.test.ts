@@ -0,0 +1,153 @@
+/**
+ * Unit tests for runtime schema validation, merging and repair
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  USER_SETTINGS_SCHEMA,
+  deepMerge,
+  formatFieldErrors,
+  repair,
+  repairUserSettings,
+  validate,
+  validateSettingsUpdate,
+} from '../src/shared/schema';
+import { DEFAULT_USER_SETTINGS, UserSettings } from '../src/shared/types';
+
+describe('Schema', () => {
+  describe('validateSettingsUpdate', () => {
+    it('should accept valid deep-partial updates', () => {
+      expect(validateSettingsUpdate({ theme: 'dark' })).toEqual([]);
+      expect(validateSettingsUpdate({ notifications: { sound: true } })).toEqual([]);
+      expect(validateSettingsUpdate({ preferences: { anything: [1, 2] } })).toEqual([]);
+      expect(validateSettingsUpdate({})).toEqual([]);
+    });
+
+    it('should report wrong types with field paths', () => {
+      const errors = validateSettingsUpdate({
+        enabled: 'true',
+        notifications: { sound: 1 },
+      });
+
+      expect(errors).toEqual([
+        { path: 'enabled', message: 'Expected boolean, got string' },
+        { path: 'notifications.sound', message: 'Expected boolean, got number' },
+      ]);
+    });
+
+    it('should reject values outside an enum', () => {
+      const errors = validateSettingsUpdate({ theme: 'neon' });
+
+      expect(errors).toEqual([{ path: 'theme', message: 'Expected one of light, dark, system' }]);
+    });
+
+    it('should reject unknown keys at any depth', () => {
+      const errors = validateSettingsUpdate({ foo: 1, notifications: { volume: 3 } });
+
+      expect(errors.map((e) => e.path)).toEqual(['foo', 'notifications.volume']);
+      expect(errors.every((e) => e.message === 'Unknown field')).toBe(true);
+    });
+
+    it('should validate every item of an array', () => {
+      expect(
+        validateSettingsUpdate({
+          siteRules: [{ pattern: 'example.com', mode: 'disabled', preferences: {} }],
+        })
+      ).toEqual([]);
+      expect(
+        validateSettingsUpdate({
+          siteRules: [{ pattern: 'example.com', mode: 'off' }],
+        })
+      ).toEqual([
+        { path: 'siteRules.0.mode', message: 'Expected one of default, enabled, disabled' },
+        { path: 'siteRules.0.preferences', message: 'Missing field' },
+      ]);
+      expect(validateSettingsUpdate({ siteRules: {} })).toEqual([
+        { path: 'siteRules', message: 'Expected array, got object' },
+      ]);
+    });
+
+    it('should reject non-object payloads', () => {
+      expect(validateSettingsUpdate(null)).toEqual([
+        { path: '', message: 'Expected object, got null' },
+      ]);
+      expect(validateSettingsUpdate({ notifications: [] })).toEqual([
+        { path: 'notifications', message: 'Expected object, got array' },
+      ]);
+    });
+  });
+
+  describe('validate', () => {
+    it('should require every field for complete values', () => {
+      const { notifications: _notifications, ...incomplete } = DEFAULT_USER_SETTINGS;
+
+      expect(validate(USER_SETTINGS_SCHEMA, DEFAULT_USER_SETTINGS)).toEqual([]);
+      expect(validate(USER_SETTINGS_SCHEMA, incomplete)).toEqual([
+        { path: 'notifications', message: 'Missing field' },
+      ]);
+    });
+  });
+
+  describe('formatFieldErrors', () => {
+    it('should join errors into one message', () => {
+      expect(
+        formatFieldErrors([
+          { path: 'theme', message: 'Expected one of light, dark, system' },
+          { path: '', message: 'Expected object, got null' },
+        ])
+      ).toBe('theme: Expected one of light, dark, system; Expected object, got null');
+    });
+  });
+
+  describe('deepMerge', () => {
+    it('should merge nested objects instead of replacing them', () => {
+      const result = deepMerge(USER_SETTINGS_SCHEMA, DEFAULT_USER_SETTINGS, {
+        notifications: { sound: true },
+      });
+
+      expect(result.notifications).toEqual({ enabled: true, sound: true });
+      expect(result).not.toBe(DEFAULT_USER_SETTINGS);
+      expect(DEFAULT_USER_SETTINGS.notifications.sound).toBe(false);
+    });
+
+    it('should set individual keys of free-form records', () => {
+      const base: UserSettings = { ...DEFAULT_USER_SETTINGS, preferences: { a: 1 } };
+
+      const result = deepMerge(USER_SETTINGS_SCHEMA, base, { preferences: { b: 2 } });
+
+      expect(result.preferences).toEqual({ a: 1, b: 2 });
+    });
+  });
+
+  describe('repair', () => {
+    it('should fall back to defaults field by field', () => {
+      const result = repairUserSettings({
+        enabled: false,
+        theme: 'neon',
+        notifications: 'off',
+        preferences: { kept: true },
+      });
+
+      expect(result).toEqual({
+        ...DEFAULT_USER_SETTINGS,
+        enabled: false,
+        preferences: { kept: true },
+      });
+    });
+
+    it('should return defaults for unusable values', () => {
+      expect(repairUserSettings(undefined)).toEqual(DEFAULT_USER_SETTINGS);
+      expect(repairUserSettings('garbage')).toEqual(DEFAULT_USER_SETTINGS);
+    });
+
+    it('should produce values that pass validation', () => {
+      const repaired = repair(
+        USER_SETTINGS_SCHEMA,
+        { extra: 1, enabled: 0 },
+        DEFAULT_USER_SETTINGS
+      );
+
+      expect(validate(USER_SETTINGS_SCHEMA, repaired)).toEqual([]);
+    });
+  });
+});
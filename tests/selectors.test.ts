@@ -0,0 +1,201 @@
+/**
+ * Unit tests for selector generation
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getSelectorCandidates,
+  getUniqueSelector,
+  getXPath,
+  isStableName,
+} from '../src/content/selectors';
+
+// ============================================================================
+// Fake DOM
+// ============================================================================
+
+interface FakeElement {
+  tagName: string;
+  namespaceURI: string;
+  attributes: Record<string, string>;
+  classList: string[] & { contains: (name: string) => boolean };
+  parentElement: FakeElement | null;
+  children: FakeElement[];
+  getAttribute: (name: string) => string | null;
+}
+
+/**
+ * Build an element tree: el('div', { id: 'a', class: 'x y' }, child, ...)
+ */
+const el = (
+  tag: string,
+  attributes: Record<string, string> = {},
+  ...children: FakeElement[]
+): FakeElement => {
+  const classes = (attributes.class ?? '').split(/\s+/).filter(Boolean);
+  const element: FakeElement = {
+    tagName: tag.toUpperCase(),
+    namespaceURI: tag === 'svg' ? 'http://www.w3.org/2000/svg' : 'http://www.w3.org/1999/xhtml',
+    attributes,
+    classList: Object.assign(classes, { contains: (name: string) => classes.includes(name) }),
+    parentElement: null,
+    children,
+    getAttribute: (name) => attributes[name] ?? null,
+  };
+  children.forEach((child) => (child.parentElement = element));
+  return element;
+};
+
+const descendants = (root: FakeElement): FakeElement[] => [
+  root,
+  ...root.children.flatMap(descendants),
+];
+
+/**
+ * Match one compound selector of the forms the generator produces
+ */
+const matchesCompound = (element: FakeElement, compound: string): boolean => {
+  const parsed = compound.match(
+    /^([a-z0-9]+)?(?:#([\w-]+))?((?:\.[\w-]+)*)(?:\[([\w-]+)="((?:[^"\\]|\\.)*)"\])?(?::nth-of-type\((\d+)\))?$/
+  );
+  if (!parsed) throw new Error(`Unsupported selector: ${compound}`);
+  const [, tag, id, classes, attribute, value, nth] = parsed;
+  const sameTag = (element.parentElement?.children ?? [element]).filter(
+    (sibling) => sibling.tagName === element.tagName
+  );
+  return (
+    (!tag || element.tagName.toLowerCase() === tag) &&
+    (!id || element.getAttribute('id') === id) &&
+    classes
+      .split('.')
+      .filter(Boolean)
+      .every((name) => element.classList.contains(name)) &&
+    (!attribute || element.getAttribute(attribute) === value.replace(/\\(.)/g, '$1')) &&
+    (!nth || sameTag.indexOf(element) + 1 === Number(nth))
+  );
+};
+
+const matchesChain = (element: FakeElement | null, compounds: string[]): boolean => {
+  if (!element || !matchesCompound(element, compounds[compounds.length - 1])) return false;
+  return compounds.length === 1 || matchesChain(element.parentElement, compounds.slice(0, -1));
+};
+
+const counter = (root: FakeElement) => (selector: string) =>
+  descendants(root).filter((element) => matchesChain(element, selector.split(' > '))).length;
+
+const select = (element: FakeElement, root: FakeElement) =>
+  getUniqueSelector(element as unknown as Element, { countMatches: counter(root) });
+
+const xpath = (element: FakeElement, root: FakeElement) =>
+  getXPath(element as unknown as Element, { countMatches: counter(root) });
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('Selectors', () => {
+  describe('isStableName', () => {
+    it('should accept hand-written names', () => {
+      ['main', 'nav-item', 'col-md-6', 'btn_primary', 'h1-title'].forEach((name) =>
+        expect(isStableName(name)).toBe(true)
+      );
+    });
+
+    it('should reject generated names', () => {
+      ['css-1x2y3z', 'sc-bdVaJa', 'button_primary__3Fk2a', ':r1:', 'item-12345', '2col'].forEach(
+        (name) => expect(isStableName(name)).toBe(false)
+      );
+    });
+  });
+
+  describe('getSelectorCandidates', () => {
+    it('should prefer ids, test attributes and names over classes', () => {
+      const input = el('input', {
+        id: 'email',
+        'data-testid': 'email-field',
+        name: 'email',
+        class: 'field css-1abc2d',
+      });
+
+      expect(getSelectorCandidates(input as unknown as Element)).toEqual([
+        '#email',
+        '[data-testid="email-field"]',
+        'input[name="email"]',
+        'input',
+        'input.field',
+      ]);
+    });
+  });
+
+  describe('getUniqueSelector', () => {
+    it('should use a unique id or attribute on its own', () => {
+      const button = el('button', { 'data-testid': 'save' });
+      const root = el('html', {}, el('body', {}, el('main', { id: 'app' }), button));
+
+      expect(select(root.children[0].children[0], root)).toBe('#app');
+      expect(select(button, root)).toBe('[data-testid="save"]');
+    });
+
+    it('should anchor at the nearest identifiable ancestor', () => {
+      const link = el('a', { class: 'link' });
+      const root = el(
+        'html',
+        {},
+        el(
+          'body',
+          {},
+          el(
+            'nav',
+            { id: 'menu' },
+            el('ul', {}, el('li', {}, el('a', { class: 'link' })), el('li', {}, link))
+          ),
+          el('footer', {}, el('ul', {}, el('li'), el('li', {}, el('a', { class: 'link' }))))
+        )
+      );
+
+      expect(select(link, root)).toBe('#menu > ul > li:nth-of-type(2) > a');
+    });
+
+    it('should tell siblings apart by class before position', () => {
+      const active = el('div', { class: 'tab active' });
+      const root = el(
+        'html',
+        {},
+        el(
+          'body',
+          {},
+          el('section', {}, el('div', { class: 'tab' }), active, el('div', { class: 'tab' }))
+        )
+      );
+
+      expect(select(active, root)).toBe('div.active');
+    });
+
+    it('should quote attribute values', () => {
+      const field = el('input', { name: 'user["name"]' });
+      const root = el('html', {}, el('body', {}, field, el('input', {})));
+
+      expect(select(field, root)).toBe('input[name="user[\\"name\\"]"]');
+    });
+  });
+
+  describe('getXPath', () => {
+    it('should index same-tag siblings and anchor at unique ids', () => {
+      const cell = el('td');
+      const root = el(
+        'html',
+        {},
+        el('body', {}, el('table', { id: 'prices' }, el('tr', {}, el('td'), cell)))
+      );
+
+      expect(xpath(cell, root)).toBe('//*[@id="prices"]/tr/td[2]');
+    });
+
+    it('should build absolute paths through foreign elements', () => {
+      const icon = el('svg');
+      const root = el('html', {}, el('body', {}, el('div'), el('div', {}, icon)));
+
+      expect(xpath(icon, root)).toBe('/html/body/div[2]/*[local-name()="svg"]');
+    });
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Unit tests for the tab session registry
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createSessionRegistry, trackTabSessions } from '../src/background/sessions';
+
+type Listener = (...args: unknown[]) => void;
+
+const createEvent = () => {
+  const listeners: Listener[] = [];
+  return {
+    addListener: vi.fn((listener: Listener) => listeners.push(listener)),
+    dispatch: (...args: unknown[]) => listeners.forEach((listener) => listener(...args)),
+  };
+};
+
+const createChromeMock = () => {
+  let sessionStore: Record<string, unknown> = {};
+  return {
+    getSessionStore: () => sessionStore,
+    storage: {
+      session: {
+        get: vi.fn(async (key: string) =>
+          key in sessionStore ? { [key]: sessionStore[key] } : {}
+        ),
+        set: vi.fn(async (items: Record<string, unknown>) => {
+          sessionStore = { ...sessionStore, ...structuredClone(items) };
+        }),
+      },
+    },
+    tabs: {
+      onRemoved: createEvent(),
+      onReplaced: createEvent(),
+      onUpdated: createEvent(),
+    },
+    webNavigation: {
+      onCommitted: createEvent(),
+    },
+  };
+};
+
+// Chrome mock type for testing
+type ChromeMock = ReturnType<typeof createChromeMock>;
+
+const page = { url: 'https://example.com/', title: 'Example' };
+
+describe('Session Registry', () => {
+  let chromeMock: ChromeMock;
+  let time: number;
+  const now = () => time;
+
+  beforeEach(() => {
+    time = 1000;
+    chromeMock = createChromeMock();
+    (globalThis as unknown as { chrome: ChromeMock }).chrome = chromeMock;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('createSessionRegistry', () => {
+    it('should register sessions and persist them to session storage', async () => {
+      const registry = createSessionRegistry({ now });
+
+      await registry.register(1, 0, page);
+
+      const expected = {
+        tabId: 1,
+        frameId: 0,
+        ...page,
+        readyAt: 1000,
+        lastHeartbeat: 1000,
+      };
+      expect(await registry.getTabSessions(1)).toEqual([expected]);
+      expect(chromeMock.getSessionStore()).toEqual({ tabSessions: { '1:0': expected } });
+    });
+
+    it('should restore sessions after a service-worker restart', async () => {
+      await createSessionRegistry({ now }).register(1, 0, page);
+
+      // A fresh registry stands in for the restarted worker
+      const restarted = createSessionRegistry({ now });
+
+      expect(await restarted.getTabSessions(1)).toHaveLength(1);
+    });
+
+    it('should refresh heartbeats without changing the ready time', async () => {
+      const registry = createSessionRegistry({ now });
+      await registry.register(1, 0, page);
+
+      time = 5000;
+      const session = await registry.heartbeat(1, 0, page);
+
+      expect(session.readyAt).toBe(1000);
+      expect(session.lastHeartbeat).toBe(5000);
+    });
+
+    it('should re-create sessions it lost track of on heartbeat', async () => {
+      const registry = createSessionRegistry({ now });
+
+      await registry.heartbeat(2, 0, page);
+
+      expect(await registry.getTabSessions(2)).toEqual([
+        { tabId: 2, frameId: 0, ...page, readyAt: 1000, lastHeartbeat: 1000 },
+      ]);
+    });
+
+    it('should drop all frames when the top frame is removed', async () => {
+      const registry = createSessionRegistry({ now });
+      await registry.register(1, 0, page);
+      await registry.register(1, 3, page);
+      await registry.register(2, 0, page);
+
+      await registry.removeFrame(1, 3);
+      expect((await registry.getTabSessions(1)).map((s) => s.frameId)).toEqual([0]);
+
+      await registry.removeFrame(1, 0);
+      expect(await registry.getTabSessions(1)).toEqual([]);
+      expect(await registry.getAll()).toHaveLength(1);
+    });
+
+    it('should update the page of a frame after an in-page navigation', async () => {
+      const registry = createSessionRegistry({ now });
+      await registry.register(1, 0, page);
+      await registry.register(1, 3, page);
+
+      await registry.updatePage(1, { url: 'https://example.com/inbox', title: 'Inbox' }, 3);
+
+      const [top, frame] = await registry.getTabSessions(1);
+      expect(top.url).toBe(page.url);
+      expect(frame).toMatchObject({ url: 'https://example.com/inbox', title: 'Inbox' });
+    });
+
+    it('should not lose concurrent updates', async () => {
+      const registry = createSessionRegistry({ now });
+
+      await Promise.all([
+        registry.register(1, 0, page),
+        registry.register(2, 0, page),
+        registry.register(3, 0, page),
+      ]);
+
+      expect(await createSessionRegistry({ now }).getAll()).toHaveLength(3);
+    });
+
+    it('should start empty when session storage cannot be read', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      chromeMock.storage.session.get.mockRejectedValue(new Error('Storage error'));
+
+      expect(await createSessionRegistry({ now }).getAll()).toEqual([]);
+    });
+  });
+
+  describe('trackTabSessions', () => {
+    it('should follow tab and navigation events', async () => {
+      const registry = createSessionRegistry({ now });
+      trackTabSessions(registry);
+      await registry.register(1, 0, page);
+      await registry.register(2, 0, page);
+      await registry.register(3, 0, page);
+
+      chromeMock.tabs.onUpdated.dispatch(1, { title: 'Renamed' });
+      chromeMock.tabs.onRemoved.dispatch(2);
+      chromeMock.webNavigation.onCommitted.dispatch({ tabId: 3, frameId: 0 });
+
+      const sessions = await registry.getAll();
+      expect(sessions).toHaveLength(1);
+      expect(sessions[0]).toMatchObject({ tabId: 1, title: 'Renamed', url: page.url });
+    });
+  });
+});
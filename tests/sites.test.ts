@@ -0,0 +1,143 @@
+/**
+ * Unit tests for per-site rules
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getMatchingRules,
+  getSiteHost,
+  matchesSitePattern,
+  resolveSiteSettings,
+  setSiteEnabled,
+  setSiteRuleMode,
+} from '../src/shared/sites';
+import { DEFAULT_USER_SETTINGS, SiteRule, UserSettings } from '../src/shared/types';
+
+const rule = (pattern: string, mode: SiteRule['mode'], preferences = {}): SiteRule => ({
+  pattern,
+  mode,
+  preferences,
+});
+
+const withRules = (siteRules: SiteRule[], enabled = true): UserSettings => ({
+  ...DEFAULT_USER_SETTINGS,
+  enabled,
+  preferences: { position: 'right', compact: false },
+  siteRules,
+});
+
+describe('Sites', () => {
+  describe('matchesSitePattern', () => {
+    it('should match a bare domain and its subdomains', () => {
+      expect(matchesSitePattern('example.com', 'https://example.com/a')).toBe(true);
+      expect(matchesSitePattern('example.com', 'http://docs.example.com/')).toBe(true);
+      expect(matchesSitePattern('example.com', 'https://notexample.com/')).toBe(false);
+    });
+
+    it('should match host globs', () => {
+      expect(matchesSitePattern('*.example.com', 'https://docs.example.com/')).toBe(true);
+      expect(matchesSitePattern('*.example.com', 'https://example.com/')).toBe(false);
+      expect(matchesSitePattern('Shop.*.COM', 'https://shop.example.com/')).toBe(true);
+    });
+
+    it('should match path and full URL globs', () => {
+      expect(matchesSitePattern('example.com/docs/*', 'https://example.com/docs/a?b=1')).toBe(true);
+      expect(matchesSitePattern('example.com/docs/*', 'https://example.com/blog/')).toBe(false);
+      expect(matchesSitePattern('https://example.com/*', 'http://example.com/')).toBe(false);
+      expect(matchesSitePattern('http://localhost:3000/*', 'http://localhost:3000/app#x')).toBe(
+        true
+      );
+    });
+
+    it('should never match empty patterns or non-web pages', () => {
+      expect(matchesSitePattern('  ', 'https://example.com/')).toBe(false);
+      expect(matchesSitePattern('*', 'chrome://extensions/')).toBe(false);
+      expect(getSiteHost('chrome://extensions/')).toBeNull();
+      expect(getSiteHost('https://example.com:8080/a')).toBe('example.com');
+    });
+  });
+
+  describe('resolveSiteSettings', () => {
+    it('should follow the global setting without matching rules', () => {
+      const settings = withRules([rule('other.com', 'disabled')], false);
+
+      expect(resolveSiteSettings(settings, 'https://example.com/')).toEqual({
+        enabled: false,
+        preferences: { position: 'right', compact: false },
+        rules: [],
+      });
+    });
+
+    it('should let the most specific rule win', () => {
+      const settings = withRules([
+        rule('docs.example.com', 'enabled', { compact: true }),
+        rule('example.com', 'disabled', { position: 'left' }),
+      ]);
+
+      expect(resolveSiteSettings(settings, 'https://example.com/').enabled).toBe(false);
+      expect(resolveSiteSettings(settings, 'https://docs.example.com/')).toMatchObject({
+        enabled: true,
+        preferences: { position: 'left', compact: true },
+      });
+    });
+
+    it('should allowlist sites while globally disabled', () => {
+      const settings = withRules([rule('example.com', 'enabled')], false);
+
+      expect(resolveSiteSettings(settings, 'https://example.com/').enabled).toBe(true);
+    });
+
+    it('should apply equally specific rules in order', () => {
+      const rules = [rule('example.com', 'disabled'), rule('example.com', 'enabled')];
+
+      expect(getMatchingRules(rules, 'https://example.com/')).toEqual(rules);
+      expect(resolveSiteSettings(withRules(rules), 'https://example.com/').enabled).toBe(true);
+    });
+  });
+
+  describe('setSiteRuleMode', () => {
+    it('should add, update and remove rules for a pattern', () => {
+      const added = setSiteRuleMode([], 'example.com', 'disabled');
+      expect(added).toEqual([rule('example.com', 'disabled')]);
+
+      const enabled = setSiteRuleMode(added, 'example.com', 'enabled');
+      expect(enabled).toEqual([rule('example.com', 'enabled')]);
+
+      expect(setSiteRuleMode(enabled, 'example.com', 'default')).toEqual([]);
+    });
+
+    it('should keep rules that still override preferences', () => {
+      const rules = [rule('example.com', 'disabled', { compact: true })];
+
+      expect(setSiteRuleMode(rules, 'example.com', 'default')).toEqual([
+        rule('example.com', 'default', { compact: true }),
+      ]);
+    });
+  });
+
+  describe('setSiteEnabled', () => {
+    const url = 'https://docs.example.com/page';
+
+    it('should remove the host rule where the rest already gives the wanted state', () => {
+      const rules = [rule('docs.example.com', 'disabled')];
+
+      expect(setSiteEnabled(withRules(rules), url, true)).toEqual([]);
+    });
+
+    it('should override wildcard and parent domain rules', () => {
+      for (const parent of [rule('*.example.com', 'disabled'), rule('example.com', 'disabled')]) {
+        const siteRules = setSiteEnabled(withRules([parent]), url, true);
+
+        expect(siteRules).toEqual([parent, rule('docs.example.com', 'enabled')]);
+        expect(resolveSiteSettings(withRules(siteRules), url).enabled).toBe(true);
+      }
+    });
+
+    it('should enable the site explicitly while globally disabled', () => {
+      const siteRules = setSiteEnabled(withRules([], false), url, true);
+
+      expect(siteRules).toEqual([rule('docs.example.com', 'enabled')]);
+      expect(setSiteEnabled(withRules(siteRules, false), url, false)).toEqual([]);
+    });
+  });
+});
@@ -157,7 +157,7 @@ describe('Storage Helpers', () => {
 
   describe('getUserSettings', () => {
     it('should return stored settings merged with defaults', async () => {
-      const partialSettings = { tier: 'pro' as const, enabled: false };
+      const partialSettings = { theme: 'dark' as const, enabled: false };
       mockStorage[STORAGE_KEYS.USER_SETTINGS] = partialSettings;
 
       const result = await getUserSettings();
@@ -173,13 +173,31 @@ describe('Storage Helpers', () => {
 
       expect(result).toEqual(DEFAULT_USER_SETTINGS);
     });
+
+    it('should repair invalid fields individually and drop unknown keys', async () => {
+      mockStorage[STORAGE_KEYS.USER_SETTINGS] = {
+        tier: 'pro',
+        enabled: false,
+        theme: 42,
+        notifications: { enabled: 'yes', sound: true },
+        legacyFlag: true,
+      };
+
+      const result = await getUserSettings();
+
+      expect(result).toEqual({
+        ...DEFAULT_USER_SETTINGS,
+        enabled: false,
+        notifications: { enabled: DEFAULT_USER_SETTINGS.notifications.enabled, sound: true },
+      });
+    });
   });
 
   describe('saveUserSettings', () => {
     it('should save complete user settings', async () => {
       const settings: UserSettings = {
         ...DEFAULT_USER_SETTINGS,
-        tier: 'pro',
+        enabled: false,
         theme: 'dark',
       };
 
@@ -200,7 +218,34 @@ describe('Storage Helpers', () => {
 
       expect(result).not.toBeNull();
       expect(result?.theme).toBe('dark');
-      expect(result?.tier).toBe(DEFAULT_USER_SETTINGS.tier);
+      expect(result?.enabled).toBe(DEFAULT_USER_SETTINGS.enabled);
+    });
+
+    it('should deep-merge nested objects', async () => {
+      mockStorage[STORAGE_KEYS.USER_SETTINGS] = {
+        ...DEFAULT_USER_SETTINGS,
+        notifications: { enabled: false, sound: false },
+        preferences: { compact: true },
+      };
+
+      const result = await updateUserSettings({
+        notifications: { sound: true },
+        preferences: { language: 'en' },
+      });
+
+      expect(result?.notifications).toEqual({ enabled: false, sound: true });
+      expect(result?.preferences).toEqual({ compact: true, language: 'en' });
+    });
+
+    it('should reject invalid updates without writing', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const result = await updateUserSettings({
+        theme: 'neon',
+      } as unknown as Partial<UserSettings>);
+
+      expect(result).toBeNull();
+      expect(chrome.storage.sync.set).not.toHaveBeenCalled();
     });
 
     it('should return null on error', async () => {
@@ -216,7 +261,7 @@ describe('Storage Helpers', () => {
     it('should reset settings to defaults', async () => {
       mockStorage[STORAGE_KEYS.USER_SETTINGS] = {
         ...DEFAULT_USER_SETTINGS,
-        tier: 'pro',
+        enabled: false,
         theme: 'dark',
       };
 
@@ -0,0 +1,169 @@
+/**
+ * Unit tests for usage quotas and metering
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  consumeQuota,
+  describeQuota,
+  getPeriodEnd,
+  getPeriodKey,
+  getQuotaUsage,
+  getUsage,
+  refundQuota,
+  runMetered,
+} from '../src/shared/usage';
+import { FREE_LICENSE, getTierFeatures } from '../src/shared/license';
+import { resolveEntitlements } from '../src/shared/entitlements';
+import { MessageResponse, STORAGE_KEYS } from '../src/shared/types';
+
+// Periods follow the local time, so the test times are local too
+const NOW = new Date(2024, 0, 15, 12).getTime();
+const TOMORROW = new Date(2024, 0, 16, 12).getTime();
+
+const createChromeMock = () => {
+  const localStore: Record<string, unknown> = {};
+  return {
+    localStore,
+    storage: {
+      local: {
+        get: vi.fn(async (key: string) => ({ [key]: localStore[key] })),
+        set: vi.fn(async (items: Record<string, unknown>) => {
+          Object.assign(localStore, items);
+        }),
+      },
+    },
+  };
+};
+
+// Chrome mock type for testing
+type ChromeMock = ReturnType<typeof createChromeMock>;
+
+describe('Usage', () => {
+  let chromeMock: ChromeMock;
+
+  beforeEach(() => {
+    chromeMock = createChromeMock();
+    (globalThis as unknown as { chrome: ChromeMock }).chrome = chromeMock;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('periods', () => {
+    it('should key and end periods in local time', () => {
+      expect(getPeriodKey('day', NOW)).toBe('2024-01-15');
+      expect(getPeriodKey('month', NOW)).toBe('2024-01');
+      expect(getPeriodEnd('day', NOW)).toBe(new Date(2024, 0, 16).getTime());
+      expect(getPeriodEnd('month', NOW)).toBe(new Date(2024, 1, 1).getTime());
+      expect(getPeriodEnd('month', new Date(2024, 11, 31).getTime())).toBe(
+        new Date(2025, 0, 1).getTime()
+      );
+    });
+  });
+
+  describe('getQuotaUsage', () => {
+    it('should count uses of the current period only', () => {
+      const usage = { export_data: { period: '2024-01-15', count: 2 } };
+
+      expect(getQuotaUsage('export_data', usage, NOW)).toEqual({
+        limit: 5,
+        used: 2,
+        remaining: 3,
+        period: 'day',
+        resetsAt: new Date(2024, 0, 16).getTime(),
+      });
+      expect(getQuotaUsage('export_data', usage, TOMORROW)).toMatchObject({
+        used: 0,
+        remaining: 5,
+      });
+      expect(getQuotaUsage('custom_themes', usage, NOW)).toBeNull();
+    });
+
+    it('should describe what is left', () => {
+      const quota = getQuotaUsage('export_data', {}, NOW);
+
+      expect(quota && describeQuota(quota)).toBe('5 of 5 left today');
+      expect(quota && describeQuota({ ...quota, period: 'month', remaining: 1 })).toBe(
+        '1 of 5 left this month'
+      );
+    });
+  });
+
+  describe('consumeQuota', () => {
+    it('should count uses until the quota is used up', async () => {
+      const periods = await Promise.all(
+        Array.from({ length: 6 }, () => consumeQuota('export_data', NOW))
+      );
+
+      expect(periods).toEqual([...Array(5).fill('2024-01-15'), null]);
+      expect(await getUsage()).toEqual({ export_data: { period: '2024-01-15', count: 5 } });
+    });
+
+    it('should start over in a new period', async () => {
+      chromeMock.localStore[STORAGE_KEYS.USAGE] = {
+        export_data: { period: '2024-01-15', count: 5 },
+      };
+
+      expect(await consumeQuota('export_data', TOMORROW)).toBe('2024-01-16');
+      expect(await getUsage()).toEqual({ export_data: { period: '2024-01-16', count: 1 } });
+    });
+
+    it('should not count features that are not metered', async () => {
+      expect(await consumeQuota('custom_themes', NOW)).toBeNull();
+      expect(chromeMock.storage.local.set).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('refundQuota', () => {
+    it('should give back uses of the same period only', async () => {
+      chromeMock.localStore[STORAGE_KEYS.USAGE] = {
+        export_data: { period: '2024-01-15', count: 2 },
+      };
+
+      expect(await refundQuota('export_data', '2024-01-14')).toBe(false);
+      expect(await refundQuota('export_data', '2024-01-15')).toBe(true);
+      expect(await getUsage()).toEqual({ export_data: { period: '2024-01-15', count: 1 } });
+    });
+  });
+
+  describe('runMetered', () => {
+    const ok = async (): Promise<MessageResponse<string>> => ({ success: true, data: 'done' });
+    const fail = async (): Promise<MessageResponse<string>> => ({ success: false, error: 'no' });
+
+    it('should count successful uses granted by the quota', async () => {
+      const { features } = resolveEntitlements(FREE_LICENSE);
+
+      await runMetered(features.export_data, ok);
+      await runMetered(features.export_data, fail);
+
+      expect((await getUsage()).export_data?.count).toBe(1);
+    });
+
+    it('should refuse uses once the quota is used up', async () => {
+      const { features } = resolveEntitlements(FREE_LICENSE);
+      chromeMock.localStore[STORAGE_KEYS.USAGE] = {
+        export_data: { period: getPeriodKey('day', Date.now()), count: 5 },
+      };
+      const handler = vi.fn(ok);
+
+      const response = await runMetered(features.export_data, handler);
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(response).toEqual({
+        success: false,
+        error: 'Feature "export_data" can be used 5 times per day on your plan',
+        code: 'QUOTA_EXCEEDED',
+      });
+    });
+
+    it('should not count uses granted otherwise', async () => {
+      const license = { ...FREE_LICENSE, status: 'active' as const, tier: 'pro' as const };
+      const { features } = resolveEntitlements({ ...license, features: getTierFeatures('pro') });
+
+      expect(await runMetered(features.export_data, ok)).toEqual({ success: true, data: 'done' });
+      expect(chromeMock.storage.local.set).not.toHaveBeenCalled();
+    });
+  });
+});
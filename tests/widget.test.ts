@@ -0,0 +1,80 @@
+/**
+ * Unit tests for widget positioning
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  clampPosition,
+  isWidgetPosition,
+  snapToCorner,
+  toPositionStyle,
+} from '../src/content/widget';
+
+const viewport = { width: 1000, height: 800 };
+
+describe('Widget', () => {
+  describe('snapToCorner', () => {
+    it('should anchor to the nearest corner', () => {
+      expect(snapToCorner({ left: 20, top: 30, width: 200, height: 100 }, viewport)).toEqual({
+        corner: 'top-left',
+        x: 20,
+        y: 30,
+      });
+      expect(snapToCorner({ left: 700, top: 600, width: 200, height: 100 }, viewport)).toEqual({
+        corner: 'bottom-right',
+        x: 100,
+        y: 100,
+      });
+    });
+
+    it('should keep widgets dragged past the edge inside the viewport', () => {
+      expect(snapToCorner({ left: 900, top: -50, width: 200, height: 100 }, viewport)).toEqual({
+        corner: 'top-right',
+        x: 0,
+        y: 0,
+      });
+    });
+  });
+
+  describe('clampPosition', () => {
+    it('should clamp offsets to the space left in the viewport', () => {
+      const size = { width: 300, height: 200 };
+
+      expect(clampPosition({ corner: 'bottom-left', x: 900, y: -10 }, size, viewport)).toEqual({
+        corner: 'bottom-left',
+        x: 700,
+        y: 0,
+      });
+    });
+
+    it('should pin widgets larger than the viewport to the corner', () => {
+      const size = { width: 1200, height: 900 };
+
+      expect(clampPosition({ corner: 'top-right', x: 50, y: 50 }, size, viewport)).toEqual({
+        corner: 'top-right',
+        x: 0,
+        y: 0,
+      });
+    });
+  });
+
+  describe('toPositionStyle', () => {
+    it('should set the insets of the anchored corner only', () => {
+      expect(toPositionStyle({ corner: 'bottom-right', x: 16.4, y: 24 })).toEqual({
+        top: 'auto',
+        right: '16px',
+        bottom: '24px',
+        left: 'auto',
+      });
+    });
+  });
+
+  describe('isWidgetPosition', () => {
+    it('should reject malformed stored positions', () => {
+      expect(isWidgetPosition({ corner: 'top-left', x: 1, y: 2 })).toBe(true);
+      expect(isWidgetPosition({ corner: 'middle', x: 1, y: 2 })).toBe(false);
+      expect(isWidgetPosition({ corner: 'top-left', x: NaN, y: 2 })).toBe(false);
+      expect(isWidgetPosition(null)).toBe(false);
+    });
+  });
+});
@@ -27,7 +27,16 @@ module.exports = (env, argv) => {
         },
         {
           test: /\.css$/,
-          use: [MiniCssExtractPlugin.loader, 'css-loader', 'postcss-loader'],
+          oneOf: [
+            {
+              // Compiled CSS as a string, e.g. for injecting into a shadow root
+              resourceQuery: /inline/,
+              use: [{ loader: 'css-loader', options: { exportType: 'string' } }, 'postcss-loader'],
+            },
+            {
+              use: [MiniCssExtractPlugin.loader, 'css-loader', 'postcss-loader'],
+            },
+          ],
         },
       ],
     },
@@ -55,6 +64,7 @@ module.exports = (env, argv) => {
         patterns: [
           { from: 'public/manifest.json', to: 'manifest.json' },
           { from: 'public/icons', to: 'icons' },
+          { from: 'public/feature-flags.json', to: 'feature-flags.json' },
         ],
       }),
     ],